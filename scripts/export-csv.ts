@@ -30,7 +30,17 @@ interface OrderRow {
   order_number: number;
   customer_name: string | null;
   status: string;
+  subtotal: number;
   total_price: number;
+  discount_total: number;
+  promo_code: string | null;
+  tax: number;
+  tip: number;
+  grand_total: number;
+  payment_status: string;
+  payment_method: string | null;
+  amount_paid: number;
+  pickup_at: string | null;
   created_at: string;
   started_at: string | null;
   completed_at: string | null;
@@ -44,6 +54,7 @@ interface ItemRow {
   milk: string | null;
   sweetness: string;
   ice_level: string;
+  caffeine: string;
   add_ons: AddOnEntry[];
   item_price: number;
   special_instructions: string | null;
@@ -118,7 +129,7 @@ async function main() {
   const { data: orders, error: oe } = await db
     .from("orders")
     .select(
-      "id, order_number, customer_name, status, total_price, created_at, started_at, completed_at"
+      "id, order_number, customer_name, status, subtotal, total_price, discount_total, promo_code, tax, tip, grand_total, payment_status, payment_method, amount_paid, pickup_at, created_at, started_at, completed_at"
     )
     .order("order_number", { ascending: true });
 
@@ -143,7 +154,7 @@ async function main() {
   const { data: items, error: ie } = await db
     .from("order_items")
     .select(
-      "order_id, item_name, size, temp, milk, sweetness, ice_level, add_ons, item_price, special_instructions"
+      "order_id, item_name, size, temp, milk, sweetness, ice_level, caffeine, add_ons, item_price, special_instructions"
     )
     .in("order_id", orderIds);
 
@@ -167,7 +178,17 @@ async function main() {
     "order_number",
     "customer_name",
     "status",
+    "subtotal",
     "total_price",
+    "discount_total",
+    "promo_code",
+    "tax",
+    "tip",
+    "grand_total",
+    "payment_status",
+    "payment_method",
+    "amount_paid",
+    "pickup_at",
     "created_at",
     "started_at",
     "completed_at",
@@ -184,7 +205,17 @@ async function main() {
         esc(order.order_number),
         esc(order.customer_name),
         esc(order.status),
+        esc(order.subtotal),
         esc(order.total_price),
+        esc(order.discount_total),
+        esc(order.promo_code),
+        esc(order.tax),
+        esc(order.tip),
+        esc(order.grand_total),
+        esc(order.payment_status),
+        esc(order.payment_method),
+        esc(order.amount_paid),
+        esc(order.pickup_at),
         esc(order.created_at),
         esc(order.started_at),
         esc(order.completed_at),
@@ -210,6 +241,7 @@ async function main() {
     "milk",
     "sweetness",
     "ice_level",
+    "caffeine",
     "add_ons",
     "item_price",
     "special_instructions",
@@ -233,6 +265,7 @@ async function main() {
           esc(item.milk),
           esc(item.sweetness),
           esc(item.ice_level),
+          esc(item.caffeine),
           esc(formatAddOns((item.add_ons ?? []) as AddOnEntry[])),
           esc(item.item_price),
           esc(item.special_instructions),
@@ -136,7 +136,7 @@ function makeDrink(category: "coffee" | "tea"): ItemRow {
     ? weighted(["whole", "oat", "almond", "skim"], [30, 40, 20, 10])
     : null;
 
-  let price = drink.sizes[size];
+  let price = drink.sizes.find((s) => s.name === size)!.price;
   if (milk) {
     price += MILK_OPTIONS.find((m) => m.name === milk)?.upcharge ?? 0;
   }
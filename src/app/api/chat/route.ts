@@ -1,24 +1,52 @@
 // src/app/api/chat/route.ts
 // ============================================================
 // POST /api/chat
-// Accepts conversation history, calls Claude with streaming,
-// and pipes the response back to the client as plain text.
+// Accepts conversation history plus a session id, loads that
+// session's server-side cart and the current menu (and, for a
+// signed-in customer, their recent orders and punch card), calls Claude
+// with the cart tools, applies each tool call to the cart, and
+// streams text / tool / cart / receipt events back as NDJSON
+// (see src/lib/chat-events.ts). In "modify" mode the body also
+// carries the orderId, so the cart is priced the way
+// PATCH /api/orders/:id will price it.
 // ============================================================
 
 import Anthropic from "@anthropic-ai/sdk";
-import { buildSystemPrompt } from "@/lib/system-prompt";
+import { buildSystemPrompt, type BarQueue, type RegularCustomer } from "@/lib/system-prompt";
+import { buildChatTools, runCartTool } from "@/lib/chat-tools";
+import { fetchMenu } from "@/lib/menu-service";
+import { fetchPromotions } from "@/lib/promotion-service";
+import { fetchOrderWithItems, fetchPrepTimes, fetchQueue } from "@/lib/barista-service";
+import { loadSessionCart, saveSessionCart, isValidSessionId } from "@/lib/session-store";
+import { customerFromRequest, fetchCustomerOrders, fetchLoyalty } from "@/lib/customer-service";
+import type { Cart } from "@/lib/cart";
+import type { PricingOptions } from "@/lib/pricing";
+import { encodeEvent, type ChatEvent, type ChatMode } from "@/lib/chat-events";
 
 export const dynamic = "force-dynamic";
 
+// Upper bound on model ↔ tool round trips for a single customer turn.
+// The last round may not call tools, so the turn always ends in a reply.
+const MAX_TOOL_ROUNDS = 6;
+
+// Said if a turn still ends without any text.
+const FALLBACK_REPLY = "Sorry, I lost my place there — could you say that again?";
+
 export async function POST(req: Request) {
   const client = new Anthropic({
     apiKey: process.env.ANTHROPIC_API_KEY,
   });
   let messages: { role: "user" | "assistant"; content: string }[];
+  let sessionId: unknown;
+  let mode: ChatMode;
+  let orderId: string | null;
 
   try {
     const body = await req.json();
     messages = body.messages;
+    sessionId = body.sessionId;
+    mode = body.mode === "modify" || body.mode === "placed" ? body.mode : "new";
+    orderId = mode === "modify" && typeof body.orderId === "string" ? body.orderId : null;
   } catch {
     return new Response("Invalid request body", { status: 400 });
   }
@@ -27,33 +55,130 @@ export async function POST(req: Request) {
     return new Response("messages array is required", { status: 400 });
   }
 
+  if (!isValidSessionId(sessionId)) {
+    return new Response("sessionId (uuid) is required", { status: 400 });
+  }
+
+  let cart: Cart;
+  try {
+    cart = await loadSessionCart(sessionId);
+  } catch (err) {
+    console.error("[/api/chat] loadSessionCart failed:", err);
+    return new Response("Failed to load session", { status: 500 });
+  }
+
+  // Loaded once per turn so every tool round prices against the same
+  // menu and promotions, and quotes the same queue.
+  const [menu, promotions, customer, queue, prep] = await Promise.all([
+    fetchMenu(),
+    fetchPromotions(),
+    customerFromRequest(req),
+    fetchQueue(),
+    fetchPrepTimes(),
+  ]);
+  const bar: BarQueue = { orders: queue, prep };
+  let regular: RegularCustomer | null = null;
+  if (customer) {
+    const [orders, loyalty] = await Promise.all([
+      fetchCustomerOrders(customer.id),
+      fetchLoyalty(customer.id, menu),
+    ]);
+    regular = { customer, orders, loyalty };
+  }
+  // An order being modified is priced as PATCH /api/orders/:id will:
+  // promotions as of when it was placed, without using up another
+  // redemption, and the punch card without this order.
+  const placed = orderId ? await fetchOrderWithItems(orderId) : null;
+  const options: PricingOptions = placed
+    ? {
+        now: new Date(placed.created_at),
+        redeemed: (placed.discounts ?? []).flatMap((d) => (d.promotion_id ? [d.promotion_id] : [])),
+        freeDrinks: placed.customer_id
+          ? (await fetchLoyalty(placed.customer_id, menu, { excludeOrderId: placed.id })).freeDrinks
+          : 0,
+      }
+    : { freeDrinks: regular?.loyalty.freeDrinks ?? 0 };
+  const tools = buildChatTools(menu);
+
   const encoder = new TextEncoder();
 
   const stream = new ReadableStream({
     async start(controller) {
+      const send = (event: ChatEvent) =>
+        controller.enqueue(encoder.encode(encodeEvent(event)));
+
+      // Tool rounds extend the conversation with tool_use / tool_result
+      // blocks; the client only ever stores the plain text.
+      const conversation: Anthropic.MessageParam[] = [...messages];
+      let sentText = false;
+
       try {
-        const anthropicStream = client.messages.stream({
-          model: "claude-sonnet-4-20250514",
-          max_tokens: 2048,
-          system: buildSystemPrompt(),
-          messages,
-        });
+        for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+          const lastRound = round === MAX_TOOL_ROUNDS - 1;
+          const anthropicStream = client.messages.stream({
+            model: "claude-sonnet-4-20250514",
+            max_tokens: 2048,
+            system: buildSystemPrompt(cart, mode, menu, promotions, regular, bar),
+            messages: conversation,
+            // Once the order is placed the cart is frozen. Tools stay
+            // declared on the last round (the history has tool blocks)
+            // but can't be called.
+            ...(mode !== "placed" && { tools }),
+            ...(mode !== "placed" && lastRound && { tool_choice: { type: "none" as const } }),
+          });
 
-        for await (const event of anthropicStream) {
-          if (
-            event.type === "content_block_delta" &&
-            event.delta.type === "text_delta"
-          ) {
-            controller.enqueue(encoder.encode(event.delta.text));
+          let roundHasText = false;
+          for await (const event of anthropicStream) {
+            if (
+              event.type === "content_block_delta" &&
+              event.delta.type === "text_delta"
+            ) {
+              // Separate text from consecutive rounds ("Got it!" + "Anything else?")
+              const prefix = sentText && !roundHasText ? " " : "";
+              roundHasText = true;
+              sentText = true;
+              send({ type: "text", text: prefix + event.delta.text });
+            }
           }
+
+          const final = await anthropicStream.finalMessage();
+          const toolUses = final.content.filter(
+            (b): b is Anthropic.ToolUseBlock => b.type === "tool_use"
+          );
+          if (toolUses.length === 0) break;
+
+          const results: Anthropic.ToolResultBlockParam[] = toolUses.map((block) => {
+            const outcome = runCartTool(cart, block.name, block.input, mode, menu, promotions, options);
+            cart = outcome.cart;
+            send({
+              type: "tool",
+              name: block.name,
+              ok: !outcome.isError,
+              message: outcome.result,
+            });
+            if (outcome.receipt) send({ type: "receipt", receipt: outcome.receipt });
+            return {
+              type: "tool_result",
+              tool_use_id: block.id,
+              content: outcome.result,
+              is_error: outcome.isError,
+            };
+          });
+
+          await saveSessionCart(sessionId, cart);
+          send({ type: "cart", cart });
+          conversation.push(
+            { role: "assistant", content: final.content },
+            { role: "user", content: results }
+          );
         }
+        if (!sentText) send({ type: "text", text: FALLBACK_REPLY });
       } catch (err) {
         console.error("[/api/chat] Anthropic error:", err);
-        controller.enqueue(
-          encoder.encode(
-            "\n\nSorry, I'm having trouble right now. Please try again."
-          )
-        );
+        send({
+          type: "error",
+          message: "Sorry, I'm having trouble right now. Please try again.",
+        });
       } finally {
         controller.close();
       }
@@ -62,7 +187,7 @@ export async function POST(req: Request) {
 
   return new Response(stream, {
     headers: {
-      "Content-Type": "text/plain; charset=utf-8",
+      "Content-Type": "application/x-ndjson; charset=utf-8",
       "Cache-Control": "no-cache, no-transform",
       "X-Accel-Buffering": "no", // disable Nginx buffering on Vercel
     },
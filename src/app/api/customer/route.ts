@@ -0,0 +1,28 @@
+// src/app/api/customer/route.ts
+// ============================================================
+// GET /api/customer
+// The signed-in customer's account, order history and punch card,
+// for the account drawer. 401 for guests — see customerFromRequest.
+// ============================================================
+
+import { customerFromRequest, fetchCustomerOrders, fetchLoyalty } from "@/lib/customer-service";
+import { fetchMenu } from "@/lib/menu-service";
+
+export const dynamic = "force-dynamic";
+
+// The drawer shows a little more history than the cashier is told about.
+const HISTORY_LENGTH = 20;
+
+export async function GET(req: Request) {
+  const customer = await customerFromRequest(req);
+  if (!customer) {
+    return new Response("Not signed in", { status: 401 });
+  }
+
+  const menu = await fetchMenu();
+  const [orders, loyalty] = await Promise.all([
+    fetchCustomerOrders(customer.id, HISTORY_LENGTH),
+    fetchLoyalty(customer.id, menu),
+  ]);
+  return Response.json({ customer, orders, loyalty });
+}
@@ -0,0 +1,29 @@
+// src/app/api/orders/[id]/cancel/route.ts
+// ============================================================
+// POST /api/orders/:id/cancel
+// Customer-side cancel from the ReceiptCard. Only allowed while
+// the order is still "new" — once the barista has started it the
+// customer has to ask at the counter. A paid order is refunded
+// through the PaymentProvider; `refunded: false` means the refund
+// failed and the barista has to sort it out.
+// ============================================================
+
+import { updateOrderStatus } from "@/lib/barista-service";
+import { refundOrder } from "@/lib/payment-service";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  const order = await updateOrderStatus(id, "cancelled", "new");
+  if (!order) {
+    return new Response("Order can no longer be cancelled", { status: 409 });
+  }
+
+  const refunded = await refundOrder(order);
+  return Response.json({ order: refunded ?? order, refunded: refunded !== null });
+}
@@ -0,0 +1,47 @@
+// src/app/api/orders/[id]/items/[itemId]/route.ts
+// ============================================================
+// POST /api/orders/:id/items/:itemId
+// Barista checks a line off an in-progress ticket ({ done: true }) or
+// unchecks it ({ done: false }). Checking off the last item moves the
+// order to "ready" and sends the ready notice, as the Ready button does.
+// ============================================================
+
+import { after } from "next/server";
+import { updateItemStatus, updateOrderStatus } from "@/lib/barista-service";
+import { notifyOrderReady } from "@/lib/notifier";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string; itemId: string }> }
+) {
+  const { id, itemId } = await params;
+  let done: boolean;
+
+  try {
+    const body = await req.json();
+    done = body.done;
+  } catch {
+    return new Response("Invalid request body", { status: 400 });
+  }
+
+  if (typeof done !== "boolean") {
+    return new Response("done must be true or false", { status: 400 });
+  }
+
+  const result = await updateItemStatus(id, itemId, done ? "done" : "pending");
+  if (!result) {
+    return new Response("Items can only be checked off while the order is being made", {
+      status: 409,
+    });
+  }
+
+  // Two last items checked at once both get here — only one move wins.
+  const order = done && result.allDone ? await updateOrderStatus(id, "ready") : null;
+  if (order) {
+    after(() => notifyOrderReady(order));
+  }
+
+  return Response.json({ item: result.item, order });
+}
@@ -0,0 +1,33 @@
+// src/app/api/orders/[id]/paid/route.ts
+// ============================================================
+// POST /api/orders/:id/paid
+// Barista confirms payment taken at the counter — cash, or a card
+// run outside the app — settling whatever is still due.
+// ============================================================
+
+import { fetchOrder, markPaid } from "@/lib/payment-service";
+import { paymentDue } from "@/lib/payments";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  const order = await fetchOrder(id);
+  if (!order) {
+    return new Response("Order not found", { status: 404 });
+  }
+  if (paymentDue(order) <= 0) {
+    return new Response("Nothing is due on this order", { status: 409 });
+  }
+
+  const updated = await markPaid(order);
+  if (!updated) {
+    return new Response("Payment changed — please reload", { status: 409 });
+  }
+
+  return Response.json({ order: updated });
+}
@@ -0,0 +1,83 @@
+// src/app/api/orders/[id]/payment/route.ts
+// ============================================================
+// POST /api/orders/:id/payment  { method }
+// The customer's "Pay now" step on the ReceiptCard. Charges what's
+// due (grand_total less anything already paid) through the
+// PaymentProvider and records the outcome. A declined card is a
+// 402 with the provider's message; an online payment comes back
+// pending with the checkout link to open. A charge that can't be
+// recorded (the payment changed meanwhile) is refunded at once.
+// ============================================================
+
+import { fetchOrder, recordCharge, voidCharge } from "@/lib/payment-service";
+import {
+  getPaymentProvider,
+  isPaymentMethod,
+  paymentDue,
+  type ChargeResult,
+} from "@/lib/payments";
+import type { PaymentMethod } from "@/lib/types";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  let method: PaymentMethod;
+
+  try {
+    const body = await req.json();
+    method = body.method;
+  } catch {
+    return new Response("Invalid request body", { status: 400 });
+  }
+
+  if (!isPaymentMethod(method)) {
+    return new Response("Unknown payment method", { status: 400 });
+  }
+
+  const order = await fetchOrder(id);
+  if (!order) {
+    return new Response("Order not found", { status: 404 });
+  }
+  if (order.status === "cancelled") {
+    return new Response("Order was cancelled", { status: 409 });
+  }
+
+  const amount = paymentDue(order);
+  if (amount <= 0) {
+    return new Response("Order is already paid", { status: 409 });
+  }
+
+  let result: ChargeResult;
+  try {
+    result = await getPaymentProvider().charge({
+      orderId: order.id,
+      orderNumber: order.order_number,
+      amount,
+      method,
+    });
+  } catch (err) {
+    console.error(`[/api/orders/${id}/payment] provider failed:`, err);
+    return new Response("Payment provider unavailable", { status: 502 });
+  }
+
+  if (result.status === "declined") {
+    return new Response(result.message ?? "Payment declined", { status: 402 });
+  }
+
+  const updated = await recordCharge(order, method, amount, result);
+  if (!updated) {
+    // Charged but not recorded — give the money back rather than keep it unaccounted for.
+    if (!(await voidCharge(order, method, amount, result))) {
+      return new Response("Payment couldn't be recorded — please ask at the counter", {
+        status: 502,
+      });
+    }
+    return new Response("Payment changed — please reload", { status: 409 });
+  }
+
+  return Response.json({ order: updated, checkoutUrl: result.checkoutUrl ?? null });
+}
@@ -0,0 +1,129 @@
+// src/app/api/orders/[id]/route.ts
+// ============================================================
+// PATCH /api/orders/:id
+// Only while the order is still "new" — 409 once the barista has
+// started it (apply_order_revision() checks again under its row lock).
+// Replaces an existing order's items after the same server-side
+// re-pricing and rule checks as POST /api/orders, recording an
+// order_revisions row for the change. Promotions are judged as of
+// when the order was placed, and don't use up another redemption —
+// the same goes for a loyalty free drink the order already took. A new
+// pickup time must be later today; an unchanged one is kept as is.
+// A paid order whose total went down gets the difference refunded;
+// `refunded: false` means that failed and the barista has to sort it out.
+// ============================================================
+
+import {
+  FreeDrinkUnavailableError,
+  OrderNotModifiableError,
+  PromotionUsedUpError,
+  updateOrder,
+  type OrderReceipt,
+} from "@/lib/order-service";
+import { checkReceipt } from "@/lib/validation";
+import { fetchMenu } from "@/lib/menu-service";
+import { fetchPromotions } from "@/lib/promotion-service";
+import { fetchOrderWithItems } from "@/lib/barista-service";
+import { fetchOrder, refundOverpayment } from "@/lib/payment-service";
+import { fetchLoyalty } from "@/lib/customer-service";
+import { pickupProblem } from "@/lib/scheduling";
+
+export const dynamic = "force-dynamic";
+
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  let receipt: OrderReceipt;
+
+  try {
+    const body = await req.json();
+    receipt = body.receipt;
+  } catch {
+    return new Response("Invalid request body", { status: 400 });
+  }
+
+  if (!receipt || !Array.isArray(receipt.items) || receipt.items.length === 0) {
+    return new Response("receipt with at least one item is required", { status: 400 });
+  }
+
+  const [menu, promotions, order] = await Promise.all([
+    fetchMenu(),
+    fetchPromotions(),
+    fetchOrderWithItems(id),
+  ]);
+  if (!order) {
+    return new Response("Order not found", { status: 404 });
+  }
+  if (order.status !== "new") {
+    return new Response("This order can no longer be modified", { status: 409 });
+  }
+
+  const pickupTime = (iso: string | null | undefined) => (iso ? new Date(iso).getTime() : null);
+  const pickupError =
+    pickupTime(receipt.pickup_at) === pickupTime(order.pickup_at)
+      ? null
+      : pickupProblem(receipt.pickup_at);
+  if (pickupError) {
+    return Response.json(
+      {
+        error: "Order rejected",
+        issues: [{ itemIndex: null, field: "pickup_at", message: pickupError, severity: "rejected" }],
+        violations: [],
+      },
+      { status: 422 }
+    );
+  }
+
+  const discounts = order.discounts ?? [];
+  // The card without this order: its own punches can't pay for its free
+  // drink, and a free drink it already took is available to it again.
+  const loyalty = order.customer_id
+    ? await fetchLoyalty(order.customer_id, menu, { excludeOrderId: id })
+    : null;
+
+  const { receipt: priced, issues, violations, ok } = checkReceipt(receipt, menu, promotions, {
+    now: new Date(order.created_at),
+    redeemed: discounts.flatMap((d) => (d.promotion_id ? [d.promotion_id] : [])),
+    freeDrinks: loyalty?.freeDrinks ?? 0,
+  });
+
+  if (!ok) {
+    return Response.json(
+      { error: "Order rejected", issues, violations },
+      { status: 422 }
+    );
+  }
+
+  if (issues.length > 0) {
+    console.warn(`[/api/orders/${id}] corrected AI receipt:`, issues);
+  }
+
+  try {
+    // Only the customer's kiosk edits orders today.
+    await updateOrder(id, priced, "customer");
+    const updated = await fetchOrder(id);
+    const refunded = updated ? await refundOverpayment(updated) : null;
+    return Response.json({ receipt: priced, issues, refunded: refunded !== null });
+  } catch (err) {
+    if (err instanceof OrderNotModifiableError) {
+      return new Response("This order can no longer be modified", { status: 409 });
+    }
+    // Priced while the promotion or free drink was still there; another
+    // order took it first.
+    if (err instanceof PromotionUsedUpError || err instanceof FreeDrinkUnavailableError) {
+      const field = err instanceof PromotionUsedUpError ? "discounts" : "free_drink";
+      return Response.json(
+        {
+          error: "Order rejected",
+          issues: [{ itemIndex: null, field, message: err.message, severity: "rejected" }],
+          violations: [],
+        },
+        { status: 422 }
+      );
+    }
+    console.error(`[/api/orders/${id}] updateOrder failed:`, err);
+    return new Response("Failed to update order", { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+// src/app/api/orders/[id]/status/route.ts
+// ============================================================
+// POST /api/orders/:id/status
+// Barista status change. Runs the same transition check as
+// updateOrderStatus and, when the order becomes "ready", fires
+// the pluggable ready Notifier (SMS / email hook) once the response
+// is sent. Cancelling a paid order refunds it, as the customer
+// cancel route does.
+// ============================================================
+
+import { after } from "next/server";
+import { updateOrderStatus } from "@/lib/barista-service";
+import { ORDER_TRANSITIONS } from "@/lib/order-status";
+import { notifyOrderReady } from "@/lib/notifier";
+import { refundOrder } from "@/lib/payment-service";
+import type { OrderStatus } from "@/lib/types";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  let status: OrderStatus;
+
+  try {
+    const body = await req.json();
+    status = body.status;
+  } catch {
+    return new Response("Invalid request body", { status: 400 });
+  }
+
+  if (typeof status !== "string" || !(status in ORDER_TRANSITIONS)) {
+    return new Response("Unknown status", { status: 400 });
+  }
+
+  const order = await updateOrderStatus(id, status);
+  if (!order) {
+    return new Response(`Order can't move to ${status}`, { status: 409 });
+  }
+
+  if (status === "ready") {
+    after(() => notifyOrderReady(order));
+  }
+
+  if (status === "cancelled") {
+    const refunded = await refundOrder(order);
+    return Response.json({ order: refunded ?? order, refunded: refunded !== null });
+  }
+
+  return Response.json({ order });
+}
@@ -0,0 +1,101 @@
+// src/app/api/orders/route.ts
+// ============================================================
+// POST /api/orders
+// Accepts an OrderReceipt, re-prices every line against the menu
+// (the AI's math is never trusted), applies promotions, enforces
+// VALIDATION_RULES, and only then persists it. Responds 422 with the issues/violations
+// if anything is rejected. A signed-in customer's order is linked to
+// their account (see src/lib/customer-service.ts), which is also the
+// only way to redeem a loyalty free drink. A pickup_at must be later
+// today (see src/lib/scheduling.ts).
+// ============================================================
+
+import {
+  FreeDrinkUnavailableError,
+  PromotionUsedUpError,
+  saveOrder,
+  type OrderReceipt,
+} from "@/lib/order-service";
+import { checkReceipt } from "@/lib/validation";
+import { fetchMenu } from "@/lib/menu-service";
+import { fetchPromotions } from "@/lib/promotion-service";
+import { pickupProblem } from "@/lib/scheduling";
+import {
+  customerFromRequest,
+  fetchLoyalty,
+  rememberCustomerName,
+} from "@/lib/customer-service";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(req: Request) {
+  let receipt: OrderReceipt;
+
+  try {
+    const body = await req.json();
+    receipt = body.receipt;
+  } catch {
+    return new Response("Invalid request body", { status: 400 });
+  }
+
+  if (!receipt || !Array.isArray(receipt.items) || receipt.items.length === 0) {
+    return new Response("receipt with at least one item is required", { status: 400 });
+  }
+
+  const pickupError = pickupProblem(receipt.pickup_at);
+  if (pickupError) {
+    return Response.json(
+      {
+        error: "Order rejected",
+        issues: [{ itemIndex: null, field: "pickup_at", message: pickupError, severity: "rejected" }],
+        violations: [],
+      },
+      { status: 422 }
+    );
+  }
+
+  const [menu, promotions, customer] = await Promise.all([
+    fetchMenu(),
+    fetchPromotions(),
+    customerFromRequest(req),
+  ]);
+  const before = customer ? await fetchLoyalty(customer.id, menu) : null;
+  const { receipt: priced, issues, violations, ok } = checkReceipt(receipt, menu, promotions, {
+    freeDrinks: before?.freeDrinks ?? 0,
+  });
+
+  if (!ok) {
+    return Response.json(
+      { error: "Order rejected", issues, violations },
+      { status: 422 }
+    );
+  }
+
+  if (issues.length > 0) {
+    console.warn("[/api/orders] corrected AI receipt:", issues);
+  }
+
+  try {
+    const order = await saveOrder({ ...priced, type: "order_complete" }, customer?.id ?? null);
+    if (customer) await rememberCustomerName(customer, priced.customer_name);
+    // The card after this order's punches, for the receipt.
+    const loyalty = customer ? await fetchLoyalty(customer.id, menu) : null;
+    return Response.json({ order, receipt: priced, issues, loyalty });
+  } catch (err) {
+    // Priced while the promotion or free drink was still there; another
+    // order took it first.
+    if (err instanceof PromotionUsedUpError || err instanceof FreeDrinkUnavailableError) {
+      const field = err instanceof PromotionUsedUpError ? "discounts" : "free_drink";
+      return Response.json(
+        {
+          error: "Order rejected",
+          issues: [{ itemIndex: null, field, message: err.message, severity: "rejected" }],
+          violations: [],
+        },
+        { status: 422 }
+      );
+    }
+    console.error("[/api/orders] saveOrder failed:", err);
+    return new Response("Failed to save order", { status: 500 });
+  }
+}
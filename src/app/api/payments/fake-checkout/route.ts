@@ -0,0 +1,39 @@
+// src/app/api/payments/fake-checkout/route.ts
+// ============================================================
+// GET /api/payments/fake-checkout?ref=…
+// The fake provider's pay-online page: opening the link pays the
+// order, standing in for a real processor's hosted checkout and
+// its webhook. 404 unless the fake provider is in use.
+// ============================================================
+
+import { fetchOrderByPaymentRef, markPaid } from "@/lib/payment-service";
+import { getPaymentProvider, paymentDue } from "@/lib/payments";
+import { formatOrderNumber } from "@/lib/order-numbering";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request) {
+  if (getPaymentProvider().name !== "fake") {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const reference = new URL(req.url).searchParams.get("ref");
+  const order = reference ? await fetchOrderByPaymentRef(reference) : null;
+  if (!order) {
+    return new Response("Unknown checkout", { status: 404 });
+  }
+
+  const number = formatOrderNumber(order.order_number);
+  if (paymentDue(order) <= 0) {
+    return new Response(`Order ${number} has nothing left to pay.`);
+  }
+
+  const updated = await markPaid(order);
+  if (!updated) {
+    return new Response("Payment changed — please try again", { status: 409 });
+  }
+
+  return new Response(
+    `Fake checkout: paid $${updated.amount_paid.toFixed(2)} for order ${number}. You can close this tab.`
+  );
+}
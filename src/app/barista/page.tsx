@@ -3,21 +3,35 @@
 // src/app/barista/page.tsx
 // ============================================================
 // Barista Queue — Kanban-style order management view.
-// Desktop: 3 side-by-side columns. Mobile: horizontal tabs.
+// Desktop: 3 side-by-side columns (New → In Progress → Ready), plus
+// Scheduled on the left while order-ahead pickups are being held.
+// Mobile: horizontal tabs. Picked-up and cancelled orders drop off.
+// In progress, each line is checked off as it's made; the last check
+// moves the order to Ready.
 // Real-time updates via Supabase postgres_changes subscriptions.
+// The "86" panel marks menu items sold out for the AI cashier.
 // ============================================================
 
 import { useState, useEffect, useCallback, useRef } from "react";
-import { Coffee, Clock, Flame, CheckCircle } from "lucide-react";
+import { Coffee, Clock, Flame, CheckCircle, Ban, CalendarClock, Check } from "lucide-react";
 import { NavLinks } from "@/components/NavLinks";
 import { supabase } from "@/lib/supabase";
-import { fetchAllOrders, updateOrderStatus } from "@/lib/barista-service";
-import { PASTRIES } from "@/lib/menu";
-import type { Order, OrderItem, OrderWithItems, OrderStatus } from "@/lib/types";
-
-// ── Pastry name set ───────────────────────────────────────────────────────────
-
-const PASTRY_NAMES = new Set(PASTRIES.map((p) => p.name));
+import { fetchAllOrders, fetchOrderWithItems } from "@/lib/barista-service";
+import { changeOrderStatus, markOrderPaid, setItemDone } from "@/lib/order-client";
+import { PAYMENT_METHOD_LABELS, paymentDue } from "@/lib/payments";
+import { formatOrderNumber } from "@/lib/order-numbering";
+import { formatPickupTime, isHeld, queuedAt, releaseAt } from "@/lib/scheduling";
+import { describeRevision } from "@/lib/order-revisions";
+import { useMenu } from "@/hooks/useMenu";
+import { setAvailability } from "@/lib/menu-service";
+import { MENU_SECTIONS, findSize, type Menu, type MenuSection } from "@/lib/menu";
+import type {
+  Order,
+  OrderItem,
+  OrderRevision,
+  OrderWithItems,
+  OrderStatus,
+} from "@/lib/types";
 
 // ── Notification sound ────────────────────────────────────────────────────────
 // Three short ascending tones (440→660→880 Hz) — distinct from the customer's
@@ -67,21 +81,20 @@ function getTimeStyle(isoString: string, status: OrderStatus): React.CSSProperti
   return { color: "#DC2626" };                   // red    — urgent
 }
 
-function formatOrderNumber(n: number): string {
-  return `#${String(n).padStart(3, "0")}`;
-}
-
 /** Capitalise first letter of a string. */
 const cap = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
 
 /**
  * Group identical order items so the barista sees "6x Banana Bread" instead
  * of six separate lines. Two items are identical when every customer-facing
- * field matches: name, size, temp, milk, sweetness, ice_level, add_ons, and
- * special_instructions. The first occurrence is used as the representative.
+ * field matches: name, size, temp, milk, sweetness, ice_level, caffeine, add_ons, and
+ * special_instructions. The first occurrence is used as the representative;
+ * `items` keeps every row so each one can still be checked off.
  */
-function groupItems(items: OrderItem[]): { item: OrderItem; qty: number; key: string }[] {
-  const groups = new Map<string, { item: OrderItem; qty: number; key: string }>();
+function groupItems(
+  items: OrderItem[]
+): { item: OrderItem; items: OrderItem[]; qty: number; key: string }[] {
+  const groups = new Map<string, { item: OrderItem; items: OrderItem[]; qty: number; key: string }>();
   for (const item of items) {
     // Sort add_ons by name before serialising so order differences don't break grouping.
     const addOnsKey = JSON.stringify(
@@ -94,6 +107,7 @@ function groupItems(items: OrderItem[]): { item: OrderItem; qty: number; key: st
       item.milk ?? "",
       item.sweetness,
       item.ice_level,
+      item.caffeine ?? "regular",
       addOnsKey,
       item.special_instructions ?? "",
     ].join("\0");
@@ -101,8 +115,9 @@ function groupItems(items: OrderItem[]): { item: OrderItem; qty: number; key: st
     const existing = groups.get(key);
     if (existing) {
       existing.qty += 1;
+      existing.items.push(item);
     } else {
-      groups.set(key, { item, qty: 1, key });
+      groups.set(key, { item, items: [item], qty: 1, key });
     }
   }
   return Array.from(groups.values());
@@ -110,7 +125,8 @@ function groupItems(items: OrderItem[]): { item: OrderItem; qty: number; key: st
 
 // Bug 1 fix: don't prepend temp if the drink name already contains a
 // temperature word (e.g. "Iced Latte", "Cold Brew", "Coffee Frappuccino").
-function buildItemLabel(item: OrderItem, isPastry: boolean): string {
+// Ounces follow the size name since they differ by drink ("Large 20oz Cold Brew").
+function buildItemLabel(item: OrderItem, isPastry: boolean, oz?: number): string {
   if (isPastry) return item.item_name;
   const lower = item.item_name.toLowerCase();
   const tempEmbedded =
@@ -120,18 +136,40 @@ function buildItemLabel(item: OrderItem, isPastry: boolean): string {
     lower.includes("frapp") ||
     lower.includes("blend");
   const tempPrefix = tempEmbedded ? "" : `${cap(item.temp)} `;
-  return `${cap(item.size)} ${tempPrefix}${item.item_name}`;
+  const size = oz ? `${cap(item.size)} ${oz}oz` : cap(item.size);
+  return `${size} ${tempPrefix}${item.item_name}`;
+}
+
+/**
+ * What tapping a grouped line does: check off its next unmade item, or
+ * once they're all done, undo the one checked off last.
+ */
+function nextItemToggle(items: OrderItem[]): { item: OrderItem; done: boolean } {
+  const pending = items.find((i) => i.status !== "done");
+  if (pending) return { item: pending, done: true };
+  const last = [...items].sort((a, b) => (b.done_at ?? "").localeCompare(a.done_at ?? ""))[0];
+  return { item: last, done: false };
 }
 
 // ── OrderCard ─────────────────────────────────────────────────────────────────
 
 interface OrderCardProps {
   order: OrderWithItems;
+  menu: Menu;
   isNew: boolean;
   onStatusChange: (id: string, status: OrderStatus) => void;
+  onMarkPaid: (id: string) => void;
+  onItemToggle: (orderId: string, itemId: string, done: boolean) => void;
 }
 
-function OrderCard({ order, isNew, onStatusChange }: OrderCardProps) {
+function OrderCard({
+  order,
+  menu,
+  isNew,
+  onStatusChange,
+  onMarkPaid,
+  onItemToggle,
+}: OrderCardProps) {
   // Live relative-time + urgency-level updates every 30 s (Enhancement 3).
   const [, setTick] = useState(0);
   useEffect(() => {
@@ -139,7 +177,7 @@ function OrderCard({ order, isNew, onStatusChange }: OrderCardProps) {
     return () => clearInterval(t);
   }, []);
 
-  // Double-tap Complete guard.
+  // Double-tap Ready guard.
   const [confirming, setConfirming] = useState(false);
   const confirmTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   useEffect(() => {
@@ -148,31 +186,40 @@ function OrderCard({ order, isNew, onStatusChange }: OrderCardProps) {
     };
   }, []);
 
-  function handleComplete() {
+  function handleReady() {
     if (!confirming) {
       setConfirming(true);
       confirmTimer.current = setTimeout(() => setConfirming(false), 3000);
     } else {
       if (confirmTimer.current) clearTimeout(confirmTimer.current);
       setConfirming(false);
-      onStatusChange(order.id, "completed");
+      onStatusChange(order.id, "ready");
     }
   }
 
-  const isCompleted = order.status === "completed";
+  const isReady = order.status === "ready";
   const isInProgress = order.status === "in_progress";
+  const due = paymentDue(order);
+  const method = order.payment_method ? PAYMENT_METHOD_LABELS[order.payment_method] : null;
+  const itemsDone = order.order_items.filter((i) => i.status === "done").length;
 
   // Enhancement 1: urgency level for aging "New" orders.
   // Recomputed on every 30 s tick so the glow class switches automatically.
+  // A scheduled order ages from when it joined the queue, not when it was placed.
   const ageMin =
     order.status === "new"
-      ? (Date.now() - new Date(order.created_at).getTime()) / 60_000
+      ? (Date.now() - queuedAt(order)) / 60_000
       : 0;
   const urgencyLevel: 0 | 1 | 2 = ageMin >= 10 ? 2 : ageMin >= 5 ? 1 : 0;
 
+  // Every revision's changes, oldest first.
+  const revisionLines = [...(order.order_revisions ?? [])]
+    .sort((a, b) => a.revision - b.revision)
+    .flatMap((rev) => describeRevision(rev, menu));
+
   // Border colour shifts to red when urgency is critical.
   const borderColor =
-    isCompleted ? "#22C55E" : urgencyLevel === 2 ? "#DC2626" : "#D4943A";
+    isReady ? "#22C55E" : urgencyLevel === 2 ? "#DC2626" : "#D4943A";
 
   // Shadow class: base shadow when calm, amber/red glow when urgent.
   // box-shadow is intentionally NOT set inline so the CSS class owns it.
@@ -189,7 +236,7 @@ function OrderCard({ order, isNew, onStatusChange }: OrderCardProps) {
       // shadowClass controls box-shadow via CSS — no inline boxShadow needed.
       className={`relative min-w-0 bg-white rounded-xl overflow-hidden ${shadowClass} ${
         isNew ? "animate-card-in" : ""
-      } ${isCompleted ? "opacity-55" : ""}`}
+      }`}
       style={{
         borderLeft: `4px solid ${borderColor}`,
       }}
@@ -213,12 +260,22 @@ function OrderCard({ order, isNew, onStatusChange }: OrderCardProps) {
             {formatOrderNumber(order.order_number)}
           </span>
           {/* Bug 2 fix: toFixed(2) everywhere; Bug 4 fix: status-aware colour */}
-          <span
-            className="text-sm font-medium mt-1 text-right"
-            style={getTimeStyle(order.created_at, order.status)}
-          >
-            {formatRelativeTime(order.created_at)}
-          </span>
+          {order.pickup_at ? (
+            <span
+              className="flex items-center gap-1 text-sm font-semibold mt-1 text-right"
+              style={{ color: "#4F46E5" }}
+            >
+              <CalendarClock className="w-3.5 h-3.5" />
+              Pickup {formatPickupTime(order.pickup_at)}
+            </span>
+          ) : (
+            <span
+              className="text-sm font-medium mt-1 text-right"
+              style={getTimeStyle(order.created_at, order.status)}
+            >
+              {formatRelativeTime(order.created_at)}
+            </span>
+          )}
         </div>
 
         {/* Customer name */}
@@ -231,11 +288,43 @@ function OrderCard({ order, isNew, onStatusChange }: OrderCardProps) {
           </p>
         )}
 
+        {/* ── Modifications — what the customer changed after ordering ─── */}
+        {revisionLines.length > 0 && (
+          <div
+            className="mb-3 rounded-lg px-3 py-2"
+            style={{ backgroundColor: "#FEF3C7" }}
+          >
+            <p
+              className="text-[11px] font-bold uppercase tracking-wide"
+              style={{ color: "#92400E" }}
+            >
+              Modified
+            </p>
+            {revisionLines.map((line, i) => (
+              <p
+                key={i}
+                className="text-[13px] leading-snug"
+                style={{ color: "#92400E" }}
+              >
+                {line}
+              </p>
+            ))}
+          </div>
+        )}
+
         {/* ── Item list ────────────────────────────────────────────────── */}
         <div className="space-y-3 mb-3">
-          {groupItems(order.order_items).map(({ item, qty, key }) => {
-            const isPastry = PASTRY_NAMES.has(item.item_name);
-            const label = buildItemLabel(item, isPastry);
+          {groupItems(order.order_items).map(({ item, items, qty, key }) => {
+            const isPastry = menu.pastries.some((p) => p.name === item.item_name);
+            const drink = menu.drinks.find((d) => d.name === item.item_name);
+            const oz = drink && findSize(drink, item.size)?.oz;
+            const label = buildItemLabel(item, isPastry, oz);
+
+            // Decaf / half-caf: a solid badge on the item line — easy to miss otherwise.
+            const caffeineBadge =
+              !isPastry && item.caffeine && item.caffeine !== "regular"
+                ? item.caffeine.toUpperCase()
+                : null;
 
             // Non-whole milk: show prominently in amber uppercase.
             // Whole milk is the default — don't show it.
@@ -260,45 +349,82 @@ function OrderCard({ order, isNew, onStatusChange }: OrderCardProps) {
               );
             }
 
-            return (
-              <div key={key}>
-                {/* Item name line — qty > 1 when identical rows are consolidated */}
-                <p
-                  className="text-[15px] font-semibold leading-snug"
-                  style={{ color: "#2C1A12" }}
-                >
-                  {qty}x {label}
-                </p>
+            // Checked off while in progress — "2/3" until a grouped line is all done.
+            const doneQty = items.filter((i) => i.status === "done").length;
+            const lineDone = doneQty === qty;
 
-                {/* Milk — visually prominent, amber, uppercase, bold */}
-                {highlightMilk && (
-                  <p
-                    className="ml-4 mt-0.5 text-[13px] font-bold tracking-wide"
-                    style={{ color: "#D4943A" }}
+            return (
+              <div key={key} className="flex items-start gap-2.5">
+                {isInProgress && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      const next = nextItemToggle(items);
+                      onItemToggle(order.id, next.item.id, next.done);
+                    }}
+                    aria-label={lineDone ? `Undo ${label}` : `Mark ${label} made`}
+                    aria-pressed={lineDone}
+                    className="shrink-0 mt-0.5 flex items-center justify-center w-6 h-6 rounded-md text-[10px] font-bold transition-colors"
+                    style={
+                      lineDone
+                        ? { backgroundColor: "#22C55E", color: "white", border: "1px solid #22C55E" }
+                        : { backgroundColor: "white", color: "#6B4E3D", border: "1px solid rgba(44,26,18,0.25)" }
+                    }
                   >
-                    {highlightMilk}
-                  </p>
+                    {lineDone ? (
+                      <Check className="w-4 h-4" />
+                    ) : doneQty > 0 ? (
+                      `${doneQty}/${qty}`
+                    ) : null}
+                  </button>
                 )}
-
-                {/* Other mods — sweetness, ice, add-ons */}
-                {otherMods.length > 0 && (
+                <div className={`min-w-0 ${isInProgress && lineDone ? "opacity-40 line-through" : ""}`}>
+                  {/* Item name line — qty > 1 when identical rows are consolidated */}
                   <p
-                    className="ml-4 mt-0.5 text-sm leading-snug"
-                    style={{ color: "#9A8A7A" }}
+                    className="text-[15px] font-semibold leading-snug"
+                    style={{ color: "#2C1A12" }}
                   >
-                    {otherMods.join(", ")}
+                    {qty}x {label}
+                    {caffeineBadge && (
+                      <span
+                        className="ml-2 align-middle text-[11px] font-bold tracking-wide px-1.5 py-0.5 rounded"
+                        style={{ backgroundColor: "#2C1A12", color: "#FAF3E8" }}
+                      >
+                        {caffeineBadge}
+                      </span>
+                    )}
                   </p>
-                )}
 
-                {/* Special instructions — italic */}
-                {!isPastry && item.special_instructions && (
-                  <p
-                    className="ml-4 mt-0.5 text-sm italic leading-snug"
-                    style={{ color: "#9A8A7A" }}
-                  >
-                    {item.special_instructions}
-                  </p>
-                )}
+                  {/* Milk — visually prominent, amber, uppercase, bold */}
+                  {highlightMilk && (
+                    <p
+                      className="ml-4 mt-0.5 text-[13px] font-bold tracking-wide"
+                      style={{ color: "#D4943A" }}
+                    >
+                      {highlightMilk}
+                    </p>
+                  )}
+
+                  {/* Other mods — sweetness, ice, add-ons */}
+                  {otherMods.length > 0 && (
+                    <p
+                      className="ml-4 mt-0.5 text-sm leading-snug"
+                      style={{ color: "#9A8A7A" }}
+                    >
+                      {otherMods.join(", ")}
+                    </p>
+                  )}
+
+                  {/* Special instructions — italic */}
+                  {!isPastry && item.special_instructions && (
+                    <p
+                      className="ml-4 mt-0.5 text-sm italic leading-snug"
+                      style={{ color: "#9A8A7A" }}
+                    >
+                      {item.special_instructions}
+                    </p>
+                  )}
+                </div>
               </div>
             );
           })}
@@ -312,15 +438,48 @@ function OrderCard({ order, isNew, onStatusChange }: OrderCardProps) {
         >
           <span className="text-sm" style={{ color: "#9A8A7A" }}>
             Total
+            {order.tip > 0 && (
+              <span className="text-xs"> · incl. ${order.tip.toFixed(2)} tip</span>
+            )}
           </span>
           <span
             className="text-base font-bold"
             style={{ color: "#2C1A12" }}
           >
-            ${order.total_price.toFixed(2)}
+            ${order.grand_total.toFixed(2)}
           </span>
         </div>
 
+        {/* ── Payment ─────────────────────────────────────────────────── */}
+        {due > 0 ? (
+          <div className="flex items-center justify-between gap-2 mb-3">
+            <span
+              className="text-xs font-semibold px-2 py-0.5 rounded-full"
+              style={{ backgroundColor: "#FEE2E2", color: "#991B1B" }}
+            >
+              {order.payment_status === "paid"
+                ? `$${due.toFixed(2)} due`
+                : method
+                ? `Unpaid · ${method}`
+                : "Unpaid"}
+            </span>
+            <button
+              type="button"
+              onClick={() => onMarkPaid(order.id)}
+              className="text-xs font-semibold underline"
+              style={{ color: "#2C1A12" }}
+            >
+              Mark paid
+            </button>
+          </div>
+        ) : (
+          order.payment_status === "paid" && (
+            <p className="text-xs font-medium mb-3" style={{ color: "#166534" }}>
+              Paid{method ? ` · ${method}` : ""}
+            </p>
+          )
+        )}
+
         {/* ── Action buttons ───────────────────────────────────────────── */}
         {order.status === "new" && (
           <button
@@ -333,16 +492,33 @@ function OrderCard({ order, isNew, onStatusChange }: OrderCardProps) {
           </button>
         )}
 
+        {isInProgress && itemsDone > 0 && (
+          <p className="text-xs font-medium mb-2" style={{ color: "#9A8A7A" }}>
+            {itemsDone} of {order.order_items.length} made — Ready when the last one&apos;s checked
+          </p>
+        )}
+
         {order.status === "in_progress" && (
           <button
             type="button"
-            onClick={handleComplete}
+            onClick={handleReady}
             className="w-full py-2.5 rounded-lg text-sm font-semibold text-white transition-all hover:opacity-90 active:scale-[0.98]"
             style={{
               backgroundColor: confirming ? "#6B7280" : "#22C55E",
             }}
           >
-            {confirming ? "Tap again to confirm" : "Complete"}
+            {confirming ? "Tap again to confirm" : "Ready"}
+          </button>
+        )}
+
+        {isReady && (
+          <button
+            type="button"
+            onClick={() => onStatusChange(order.id, "picked_up")}
+            className="w-full py-2.5 rounded-lg text-sm font-semibold transition-all hover:opacity-90 active:scale-[0.98]"
+            style={{ backgroundColor: "#DCFCE7", color: "#166534" }}
+          >
+            Picked up
           </button>
         )}
       </div>
@@ -352,8 +528,14 @@ function OrderCard({ order, isNew, onStatusChange }: OrderCardProps) {
 
 // ── Column config ─────────────────────────────────────────────────────────────
 
+/**
+ * Board columns: the statuses that get one (everything else is off the
+ * board), plus "scheduled" — new orders held until near their pickup time.
+ */
+type BoardLane = "scheduled" | "new" | "in_progress" | "ready";
+
 interface ColumnConfig {
-  status: OrderStatus;
+  lane: BoardLane;
   label: string;
   icon: React.ReactNode;
   emptyMessage: string;
@@ -364,7 +546,16 @@ interface ColumnConfig {
 
 const COLUMNS: ColumnConfig[] = [
   {
-    status: "new",
+    lane: "scheduled",
+    label: "Scheduled",
+    icon: <CalendarClock className="w-4 h-4" />,
+    emptyMessage: "No scheduled pickups",
+    accentColor: "#4F46E5",
+    badgeBg: "#E0E7FF",
+    badgeText: "#3730A3",
+  },
+  {
+    lane: "new",
     label: "New",
     icon: <Clock className="w-4 h-4" />,
     emptyMessage: "No new orders",
@@ -373,7 +564,7 @@ const COLUMNS: ColumnConfig[] = [
     badgeText: "#92400E",
   },
   {
-    status: "in_progress",
+    lane: "in_progress",
     label: "In Progress",
     icon: <Flame className="w-4 h-4" />,
     emptyMessage: "Nothing in progress",
@@ -382,10 +573,10 @@ const COLUMNS: ColumnConfig[] = [
     badgeText: "#92400E",
   },
   {
-    status: "completed",
-    label: "Completed",
+    lane: "ready",
+    label: "Ready",
     icon: <CheckCircle className="w-4 h-4" />,
-    emptyMessage: "No completed orders yet",
+    emptyMessage: "Nothing waiting for pickup",
     accentColor: "#22C55E",
     badgeBg: "#DCFCE7",
     badgeText: "#166534",
@@ -397,15 +588,21 @@ const COLUMNS: ColumnConfig[] = [
 interface OrderColumnProps {
   config: ColumnConfig;
   orders: OrderWithItems[];
+  menu: Menu;
   newOrderIds: Set<string>;
   onStatusChange: (id: string, status: OrderStatus) => void;
+  onMarkPaid: (id: string) => void;
+  onItemToggle: (orderId: string, itemId: string, done: boolean) => void;
 }
 
 function OrderColumn({
   config,
   orders,
+  menu,
   newOrderIds,
   onStatusChange,
+  onMarkPaid,
+  onItemToggle,
 }: OrderColumnProps) {
   return (
     // Bug 3 fix: min-w-0 on the column wrapper prevents grid-cell overflow.
@@ -448,8 +645,11 @@ function OrderColumn({
             <OrderCard
               key={order.id}
               order={order}
+              menu={menu}
               isNew={newOrderIds.has(order.id)}
               onStatusChange={onStatusChange}
+              onMarkPaid={onMarkPaid}
+              onItemToggle={onItemToggle}
             />
           ))
         )}
@@ -458,13 +658,95 @@ function OrderColumn({
   );
 }
 
+// ── 86 panel ──────────────────────────────────────────────────────────────────
+// Tap an item to mark it sold out; tap again when it's back. The
+// menu refetches over realtime, so the chip flips once the write lands.
+
+const AVAILABILITY_GROUPS: { section: MenuSection; label: string }[] = [
+  { section: "drinks",      label: "Drinks" },
+  { section: "milkOptions", label: "Milk" },
+  { section: "addOns",      label: "Add-ons" },
+  { section: "pastries",    label: "Pastries" },
+];
+
+function AvailabilityPanel({ menu }: { menu: Menu }) {
+  const [pending, setPending] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  async function toggle(section: MenuSection, id: string, available: boolean) {
+    setPending((p) => new Set(p).add(id));
+    setError(null);
+    try {
+      await setAvailability(section, id, available);
+    } catch {
+      setError("Couldn't update that item — try again.");
+    } finally {
+      setPending((p) => {
+        const next = new Set(p);
+        next.delete(id);
+        return next;
+      });
+    }
+  }
+
+  return (
+    <div
+      className="shrink-0 px-4 py-3 space-y-2.5"
+      style={{ backgroundColor: "#FFFDF7", borderBottom: "1px solid rgba(44,26,18,0.12)" }}
+    >
+      {AVAILABILITY_GROUPS.map(({ section, label }) => (
+        <div key={section} className="flex flex-wrap items-center gap-1.5">
+          <span className="w-16 shrink-0 text-[11px] font-semibold uppercase tracking-wide" style={{ color: "#9A8A7A" }}>
+            {label}
+          </span>
+          {menu[section]
+            .filter((item) => item.active !== false)
+            .map((item) => {
+              const soldOut = item.available === false;
+              const name = "label" in item ? item.label : item.name;
+              return (
+                <button
+                  key={item.id ?? item.name}
+                  type="button"
+                  disabled={!item.id || pending.has(item.id)}
+                  onClick={() => item.id && toggle(section, item.id, soldOut)}
+                  className={`text-xs px-2.5 py-1 rounded-full transition-opacity disabled:opacity-50 ${soldOut ? "line-through" : ""}`}
+                  style={
+                    soldOut
+                      ? { backgroundColor: "#FEE2E2", color: "#991B1B", border: "1px solid #FCA5A5" }
+                      : { backgroundColor: "white", color: "#2C1A12", border: "1px solid rgba(44,26,18,0.15)" }
+                  }
+                  aria-pressed={soldOut}
+                  title={soldOut ? "Sold out — tap when it's back" : "Tap to 86"}
+                >
+                  {name}
+                </button>
+              );
+            })}
+        </div>
+      ))}
+      {error && <p className="text-xs" style={{ color: "#DC2626" }}>{error}</p>}
+    </div>
+  );
+}
+
 // ── BaristaPage ───────────────────────────────────────────────────────────────
 
 export default function BaristaPage() {
   const [orders, setOrders] = useState<OrderWithItems[]>([]);
   const [newOrderIds, setNewOrderIds] = useState<Set<string>>(new Set());
-  const [activeTab, setActiveTab] = useState<OrderStatus>("new");
+  const [activeTab, setActiveTab] = useState<BoardLane>("new");
+  // Board clock for the Scheduled lane — advanced when the next held order is due.
+  const [now, setNow] = useState(() => Date.now());
   const [loading, setLoading] = useState(true);
+  // Retired items still need to be recognised on open tickets.
+  const menu = useMenu({ includeInactive: true });
+  const [showAvailability, setShowAvailability] = useState(false);
+  const soldOutCount = MENU_SECTIONS.reduce(
+    (n, section) =>
+      n + menu[section].filter((i) => i.active !== false && i.available === false).length,
+    0
+  );
 
   // Remove entrance-animation flag after the animation completes.
   const clearNewId = useCallback((id: string) => {
@@ -487,6 +769,8 @@ export default function BaristaPage() {
   }, []);
 
   // ── Status change (optimistic) ────────────────────────────────────────────
+  // If the transition is refused (e.g. the customer cancelled first), reload
+  // the order so the card snaps back to its real status.
 
   const handleStatusChange = useCallback(
     async (orderId: string, newStatus: OrderStatus) => {
@@ -495,7 +779,65 @@ export default function BaristaPage() {
           o.id === orderId ? { ...o, status: newStatus } : o
         )
       );
-      await updateOrderStatus(orderId, newStatus);
+      try {
+        await changeOrderStatus(orderId, newStatus);
+        return;
+      } catch (err) {
+        console.error("[barista] status change refused:", err);
+      }
+
+      const actual = await fetchOrderWithItems(orderId);
+      if (!actual) return;
+      setOrders((prev) => prev.map((o) => (o.id === orderId ? actual : o)));
+    },
+    []
+  );
+
+  // ── Payment taken at the counter ──────────────────────────────────────────
+  // No optimistic update — the badge clears when the realtime UPDATE lands.
+
+  const handleMarkPaid = useCallback(async (orderId: string) => {
+    try {
+      await markOrderPaid(orderId);
+    } catch (err) {
+      console.error("[barista] mark paid refused:", err);
+    }
+  }, []);
+
+  // ── Item checked off (optimistic) ─────────────────────────────────────────
+  // The last check moves the order to Ready server-side; the status follows
+  // over realtime. A refused check reloads the order, as above.
+
+  const handleItemToggle = useCallback(
+    async (orderId: string, itemId: string, done: boolean) => {
+      setOrders((prev) =>
+        prev.map((o) =>
+          o.id === orderId
+            ? {
+                ...o,
+                order_items: o.order_items.map((i) =>
+                  i.id === itemId
+                    ? {
+                        ...i,
+                        status: done ? "done" : "pending",
+                        done_at: done ? new Date().toISOString() : null,
+                      }
+                    : i
+                ),
+              }
+            : o
+        )
+      );
+      try {
+        await setItemDone(orderId, itemId, done);
+        return;
+      } catch (err) {
+        console.error("[barista] item check refused:", err);
+      }
+
+      const actual = await fetchOrderWithItems(orderId);
+      if (!actual) return;
+      setOrders((prev) => prev.map((o) => (o.id === orderId ? actual : o)));
     },
     []
   );
@@ -516,15 +858,8 @@ export default function BaristaPage() {
           // Wait 700 ms so all order_items rows are committed before we
           // fetch the joined record.
           setTimeout(async () => {
-            const { data } = await supabase
-              .from("orders")
-              .select("*, order_items(*)")
-              .eq("id", orderId)
-              .single();
-
-            if (!data) return;
-
-            const incoming = data as unknown as OrderWithItems;
+            const incoming = await fetchOrderWithItems(orderId);
+            if (!incoming) return;
 
             setOrders((prev) => {
               const exists = prev.find((o) => o.id === orderId);
@@ -558,6 +893,14 @@ export default function BaristaPage() {
                     ...o,
                     status: updated.status,
                     total_price: updated.total_price,
+                    tax: updated.tax,
+                    tip: updated.tip,
+                    grand_total: updated.grand_total,
+                    payment_status: updated.payment_status,
+                    payment_method: updated.payment_method,
+                    amount_paid: updated.amount_paid,
+                    paid_at: updated.paid_at,
+                    pickup_at: updated.pickup_at,
                   }
                 : o
             )
@@ -581,6 +924,42 @@ export default function BaristaPage() {
           );
         }
       )
+      // Item checked off — from this screen or another barista's
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "order_items" },
+        (payload) => {
+          const item = payload.new as OrderItem;
+          if (!item?.order_id) return;
+          setOrders((prev) =>
+            prev.map((o) =>
+              o.id === item.order_id
+                ? {
+                    ...o,
+                    order_items: o.order_items.map((i) =>
+                      i.id === item.id ? { ...i, status: item.status, done_at: item.done_at } : i
+                    ),
+                  }
+                : o
+            )
+          );
+        }
+      )
+      // Customer modification — the revision row is written last in the
+      // same transaction, so refetching here picks up the final items.
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "order_revisions" },
+        async (payload) => {
+          const orderId = (payload.new as OrderRevision).order_id;
+          if (!orderId) return;
+          const incoming = await fetchOrderWithItems(orderId);
+          if (!incoming) return;
+          setOrders((prev) =>
+            prev.map((o) => (o.id === orderId ? incoming : o))
+          );
+        }
+      )
       .subscribe();
 
     return () => {
@@ -588,25 +967,56 @@ export default function BaristaPage() {
     };
   }, [clearNewId]);
 
+  // ── Scheduled pickups ─────────────────────────────────────────────────────
+  // Held orders move into New on their own: wake up when the next one is
+  // due, chime and flash it like a fresh order.
+
+  useEffect(() => {
+    const due = orders
+      .filter((o) => isHeld(o, now))
+      .map((o) => releaseAt(o)!);
+    if (due.length === 0) return;
+
+    const timer = setTimeout(() => {
+      const at = Date.now();
+      const released = orders.filter((o) => isHeld(o, now) && !isHeld(o, at));
+      setNow(at);
+      if (released.length === 0) return;
+      released.forEach((o) => {
+        setNewOrderIds((prev) => new Set(prev).add(o.id));
+        clearNewId(o.id);
+      });
+      playNewOrderSound();
+    }, Math.max(0, Math.min(...due) - Date.now()));
+    return () => clearTimeout(timer);
+  }, [orders, now, clearNewId]);
+
   // ── Grouped + sorted ─────────────────────────────────────────────────────
+  // Scheduled: soonest pickup first.
   // New + In Progress: oldest first (most urgent on top).
-  // Completed: newest first (most recently finished on top).
+  // Ready: newest first (most recently finished on top).
 
   const byAge = (a: OrderWithItems, b: OrderWithItems) =>
     new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+  const byQueued = (a: OrderWithItems, b: OrderWithItems) => queuedAt(a) - queuedAt(b);
   const byNewest = (a: OrderWithItems, b: OrderWithItems) =>
     new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
 
   const grouped = {
-    new: orders.filter((o) => o.status === "new").sort(byAge),
+    scheduled: orders.filter((o) => isHeld(o, now)).sort(byQueued),
+    new: orders.filter((o) => o.status === "new" && !isHeld(o, now)).sort(byQueued),
     in_progress: orders.filter((o) => o.status === "in_progress").sort(byAge),
-    completed: orders.filter((o) => o.status === "completed").sort(byNewest),
+    ready: orders.filter((o) => o.status === "ready").sort(byNewest),
   };
 
   // Enhancement 2: summary bar — total revenue and per-status counts.
   // Both update automatically whenever `orders` state changes (realtime).
-  const totalRevenue = orders.reduce((sum, o) => sum + o.total_price, 0);
-  const orderWord = orders.length === 1 ? "order" : "orders";
+  // Cancelled orders don't count toward either.
+  const liveOrders = orders.filter((o) => o.status !== "cancelled");
+  // The Scheduled column only shows while something is being held.
+  const columns = COLUMNS.filter((c) => c.lane !== "scheduled" || grouped.scheduled.length > 0);
+  const totalRevenue = liveOrders.reduce((sum, o) => sum + o.total_price, 0);
+  const orderWord = liveOrders.length === 1 ? "order" : "orders";
 
   // ── Render ────────────────────────────────────────────────────────────────
 
@@ -636,14 +1046,31 @@ export default function BaristaPage() {
           <NavLinks />
         </div>
 
-        <span
-          className="text-sm font-medium"
-          style={{ color: "#FAF3E8", opacity: 0.7 }}
-        >
-          Barista Queue
-        </span>
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={() => setShowAvailability((v) => !v)}
+            aria-expanded={showAvailability}
+            className="flex items-center gap-1.5 text-xs font-medium px-2.5 py-1 rounded-lg transition-opacity hover:opacity-80"
+            style={{
+              color: soldOutCount > 0 ? "#FCA5A5" : "#FAF3E8",
+              border: "1px solid rgba(250,243,232,0.2)",
+            }}
+          >
+            <Ban className="w-3.5 h-3.5" />
+            86{soldOutCount > 0 ? ` (${soldOutCount})` : ""}
+          </button>
+          <span
+            className="text-sm font-medium"
+            style={{ color: "#FAF3E8", opacity: 0.7 }}
+          >
+            Barista Queue
+          </span>
+        </div>
       </header>
 
+      {showAvailability && <AvailabilityPanel menu={menu} />}
+
       {/* ── Summary bar (Enhancement 2) ───────────────────────────────────
           Slim info strip below the header. Updates live as orders arrive
           or change status — no extra polling needed, driven by `orders` state. */}
@@ -656,11 +1083,12 @@ export default function BaristaPage() {
           }}
         >
           <p className="text-xs" style={{ color: "#FAF3E8", opacity: 0.55 }}>
-            {orders.length} {orderWord} today
+            {liveOrders.length} {orderWord} today
             {" \u2014 "}
+            {grouped.scheduled.length > 0 && `${grouped.scheduled.length} scheduled, `}
             {grouped.new.length} new,{" "}
             {grouped.in_progress.length} in progress,{" "}
-            {grouped.completed.length} completed
+            {grouped.ready.length} ready
             {" \u2014 "}
             ${totalRevenue.toFixed(2)} revenue
           </p>
@@ -704,14 +1132,14 @@ export default function BaristaPage() {
               borderBottom: "1px solid rgba(44,26,18,0.12)",
             }}
           >
-            {COLUMNS.map((col) => {
-              const count = grouped[col.status].length;
-              const isActive = activeTab === col.status;
+            {columns.map((col) => {
+              const count = grouped[col.lane].length;
+              const isActive = activeTab === col.lane;
               return (
                 <button
-                  key={col.status}
+                  key={col.lane}
                   type="button"
-                  onClick={() => setActiveTab(col.status)}
+                  onClick={() => setActiveTab(col.lane)}
                   className="flex items-center gap-2 px-5 py-3 text-sm font-medium whitespace-nowrap transition-colors shrink-0"
                   style={{
                     color: isActive ? col.accentColor : "#6B4E3D",
@@ -751,31 +1179,41 @@ export default function BaristaPage() {
                 className="text-sm text-center py-10"
                 style={{ color: "#9A8A7A" }}
               >
-                {COLUMNS.find((c) => c.status === activeTab)?.emptyMessage}
+                {COLUMNS.find((c) => c.lane === activeTab)?.emptyMessage}
               </p>
             ) : (
               grouped[activeTab].map((order) => (
                 <OrderCard
                   key={order.id}
                   order={order}
+                  menu={menu}
                   isNew={newOrderIds.has(order.id)}
                   onStatusChange={handleStatusChange}
+                  onMarkPaid={handleMarkPaid}
+                  onItemToggle={handleItemToggle}
                 />
               ))
             )}
           </div>
 
-          {/* ─ Desktop: 3-column grid ──────────────────────────────────── */}
+          {/* ─ Desktop: 3-column grid (4 with Scheduled) ────────────────── */}
           {/* Bug 3 fix: overflow-hidden scopes the grid; min-w-0 on each  */}
           {/* column prevents content from pushing past the cell boundary.  */}
-          <div className="hidden md:grid md:grid-cols-3 gap-5 flex-1 min-h-0 p-5 overflow-hidden">
-            {COLUMNS.map((col) => (
+          <div
+            className={`hidden md:grid ${
+              columns.length === 4 ? "md:grid-cols-4" : "md:grid-cols-3"
+            } gap-5 flex-1 min-h-0 p-5 overflow-hidden`}
+          >
+            {columns.map((col) => (
               <OrderColumn
-                key={col.status}
+                key={col.lane}
                 config={col}
-                orders={grouped[col.status]}
+                orders={grouped[col.lane]}
+                menu={menu}
                 newOrderIds={newOrderIds}
                 onStatusChange={handleStatusChange}
+                onMarkPaid={handleMarkPaid}
+                onItemToggle={handleItemToggle}
               />
             ))}
           </div>
@@ -0,0 +1,11 @@
+import type { Metadata } from "next";
+import { OrderTracker } from "@/components/order/OrderTracker";
+
+export const metadata: Metadata = {
+  title: "Your order — NYC Coffee",
+};
+
+export default async function OrderPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  return <OrderTracker orderId={id} />;
+}
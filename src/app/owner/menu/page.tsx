@@ -0,0 +1,759 @@
+"use client";
+
+// src/app/owner/menu/page.tsx
+// ============================================================
+// Menu Editor — add items, change prices and toggle attributes
+// (hasMilk, isBlended, allergens, …) without a deploy. Each row saves
+// on its own; nothing is ever deleted — untick "Active" to take an
+// item off the menu. Orders keep the price they were sold at.
+// Nutrition facts aren't edited here; saving a row keeps them.
+// Price rules (happy hour) are scheduled here too.
+// ============================================================
+
+import { useState, useEffect } from "react";
+import { Coffee, Plus, Check, X } from "lucide-react";
+import { NavLinks } from "@/components/NavLinks";
+import {
+  fetchMenu,
+  saveAddOn,
+  saveDrink,
+  saveMilkOption,
+  saveModifierGroup,
+  savePastry,
+  savePriceRule,
+} from "@/lib/menu-service";
+import {
+  ALLERGENS,
+  type AddOn,
+  type Allergen,
+  type DrinkItem,
+  type Menu,
+  type MilkOptionItem,
+  type ModifierGroup,
+  type PastryItem,
+  type PriceRule,
+  type SizeOption,
+  type Temperature,
+} from "@/lib/menu";
+
+// ── Blank items for "Add" ─────────────────────────────────────────────────────
+
+const BLANK_DRINK: DrinkItem = {
+  name: "",
+  category: "coffee",
+  sizes: [
+    { name: "small", oz: 12, price: 0 },
+    { name: "large", oz: 16, price: 0 },
+  ],
+  temps: ["hot", "iced"],
+  defaultTemp: "hot",
+  hasMilk: false,
+  milkAllowed: true,
+  hasEspresso: false,
+  hasMatcha: false,
+  decafAllowed: false,
+  isBlended: false,
+  modifierGroups: [],
+  allergens: [],
+  taxable: true,
+  active: true,
+};
+const BLANK_PASTRY: PastryItem = { name: "", price: 0, allergens: [], taxable: false, active: true };
+const BLANK_MILK: MilkOptionItem = { name: "", label: "", upcharge: 0, allergens: [], active: true };
+const BLANK_GROUP: ModifierGroup = { name: "", unit: "", min: 0, max: 1, active: true };
+const BLANK_ADD_ON: AddOn = {
+  name: "", group: "", price: 0, maxQty: 1, allergens: [], active: true,
+};
+const BLANK_PRICE_RULE: PriceRule = {
+  name: "", appliesTo: ["drink"], temp: null, percentOff: 10,
+  days: [1, 2, 3, 4, 5], startTime: "14:00", endTime: "16:00", active: true,
+};
+
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const DRINK_FLAGS = [
+  { key: "hasMilk",      label: "Has milk" },
+  { key: "milkAllowed",  label: "Milk allowed" },
+  { key: "hasEspresso",  label: "Espresso" },
+  { key: "hasMatcha",    label: "Matcha" },
+  { key: "decafAllowed", label: "Decaf OK" },
+  { key: "isBlended",    label: "Blended" },
+  { key: "taxable",      label: "Taxed" },
+] as const;
+
+// ── Shared UI ─────────────────────────────────────────────────────────────────
+
+function SectionTitle({ children, onAdd }: { children: React.ReactNode; onAdd: () => void }) {
+  return (
+    <div className="flex items-center justify-between mb-4">
+      <h2
+        className="text-sm font-semibold uppercase tracking-wider"
+        style={{ color: "#9A8A7A" }}
+      >
+        {children}
+      </h2>
+      <button
+        type="button"
+        onClick={onAdd}
+        className="flex items-center gap-1 text-xs font-medium px-2.5 py-1 rounded-lg transition-colors hover:bg-white"
+        style={{ border: "1px solid rgba(44,26,18,0.15)", color: "#6B4E3D" }}
+      >
+        <Plus className="w-3.5 h-3.5" />
+        Add
+      </button>
+    </div>
+  );
+}
+
+const inputClass =
+  "rounded-md px-2 py-1 text-sm bg-white focus:outline-none focus:ring-1 focus:ring-amber-500";
+const inputStyle = { border: "1px solid rgba(44,26,18,0.15)", color: "#2C1A12" };
+
+function TextInput({ value, onChange, placeholder, className = "", disabled = false }: {
+  value: string;
+  onChange: (v: string) => void;
+  placeholder?: string;
+  className?: string;
+  disabled?: boolean;
+}) {
+  return (
+    <input
+      type="text"
+      value={value}
+      placeholder={placeholder}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.value)}
+      className={`${inputClass} ${className}`}
+      style={inputStyle}
+    />
+  );
+}
+
+function NumberInput({ value, onChange, step = 0.05, label }: {
+  value: number;
+  onChange: (v: number) => void;
+  step?: number;
+  label: string;
+}) {
+  return (
+    <label className="flex items-center gap-1 text-xs" style={{ color: "#9A8A7A" }}>
+      {label}
+      <input
+        type="number"
+        min={0}
+        step={step}
+        value={Number.isFinite(value) ? value : ""}
+        onChange={(e) => onChange(e.target.valueAsNumber)}
+        className={`${inputClass} w-20`}
+        style={inputStyle}
+      />
+    </label>
+  );
+}
+
+function Toggle({ checked, onChange, label }: {
+  checked: boolean;
+  onChange: (v: boolean) => void;
+  label: string;
+}) {
+  return (
+    <label className="flex items-center gap-1.5 text-xs cursor-pointer" style={{ color: "#6B4E3D" }}>
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={(e) => onChange(e.target.checked)}
+        className="accent-amber-600"
+      />
+      {label}
+    </label>
+  );
+}
+
+// "Contains" tags — what the drawer's allergen filter and the AI read.
+function AllergenPicker({ value, onChange }: {
+  value: Allergen[];
+  onChange: (allergens: Allergen[]) => void;
+}) {
+  return (
+    <div className="w-full flex flex-wrap items-center gap-3">
+      <span className="text-xs" style={{ color: "#9A8A7A" }}>Contains</span>
+      {ALLERGENS.map((a) => (
+        <Toggle
+          key={a}
+          label={a}
+          checked={value.includes(a)}
+          onChange={(on) =>
+            onChange(on ? ALLERGENS.filter((x) => x === a || value.includes(x)) : value.filter((x) => x !== a))
+          }
+        />
+      ))}
+    </div>
+  );
+}
+
+// Per-drink size list — name, ounces and price, e.g. a 20oz Cold Brew.
+function SizeListEditor({ sizes, onChange }: {
+  sizes: SizeOption[];
+  onChange: (sizes: SizeOption[]) => void;
+}) {
+  const update = (i: number, patch: Partial<SizeOption>) =>
+    onChange(sizes.map((s, j) => (j === i ? { ...s, ...patch } : s)));
+
+  return (
+    <div className="w-full flex flex-wrap items-center gap-3">
+      {sizes.map((size, i) => (
+        <div key={i} className="flex items-center gap-1.5">
+          <TextInput
+            value={size.name}
+            onChange={(name) => update(i, { name })}
+            placeholder="Size"
+            className="w-20"
+          />
+          <NumberInput label="oz" step={1} value={size.oz} onChange={(oz) => update(i, { oz })} />
+          <NumberInput label="$" value={size.price} onChange={(price) => update(i, { price })} />
+          <button
+            type="button"
+            onClick={() => onChange(sizes.filter((_, j) => j !== i))}
+            disabled={sizes.length === 1}
+            className="p-0.5 rounded disabled:opacity-30"
+            style={{ color: "#9A8A7A" }}
+            aria-label={`Remove ${size.name || "size"}`}
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...sizes, { name: "", oz: 0, price: 0 }])}
+        className="flex items-center gap-1 text-xs font-medium px-2 py-0.5 rounded-md hover:bg-stone-50"
+        style={{ border: "1px solid rgba(44,26,18,0.15)", color: "#6B4E3D" }}
+      >
+        <Plus className="w-3 h-3" />
+        Size
+      </button>
+    </div>
+  );
+}
+
+// ── Editable row ──────────────────────────────────────────────────────────────
+// Holds a local draft of one item; Save is enabled once it differs
+// from what's stored.
+
+interface EditableRowProps<T extends { name: string; active?: boolean }> {
+  item: T;
+  save: (item: T) => Promise<T>;
+  onSaved: (item: T) => void;
+  /** Returns an error message, or null when the draft can be saved. */
+  validate: (item: T) => string | null;
+  children: (draft: T, set: (patch: Partial<T>) => void) => React.ReactNode;
+}
+
+function EditableRow<T extends { name: string; active?: boolean }>({
+  item,
+  save,
+  onSaved,
+  validate,
+  children,
+}: EditableRowProps<T>) {
+  const [draft, setDraft] = useState<T>(item);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [justSaved, setJustSaved] = useState(false);
+
+  const dirty = JSON.stringify(draft) !== JSON.stringify(item);
+  const set = (patch: Partial<T>) => {
+    setDraft((d) => ({ ...d, ...patch }));
+    setJustSaved(false);
+  };
+
+  async function handleSave() {
+    const problem = validate(draft);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      const saved = await save(draft);
+      setDraft(saved);
+      setJustSaved(true);
+      onSaved(saved);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Couldn't save.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div
+      className="px-5 py-3 flex flex-wrap items-center gap-3"
+      style={{ opacity: draft.active === false ? 0.55 : 1 }}
+    >
+      {children(draft, set)}
+
+      <div className="ml-auto flex items-center gap-3">
+        <Toggle
+          checked={draft.active !== false}
+          onChange={(v) => set({ active: v } as Partial<T>)}
+          label="Active"
+        />
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!dirty || saving}
+          className="text-xs font-semibold px-3 py-1.5 rounded-lg transition-opacity disabled:opacity-40"
+          style={{ backgroundColor: "#2C1A12", color: "#FAF3E8" }}
+        >
+          {saving ? "Saving…" : "Save"}
+        </button>
+        {justSaved && !dirty && <Check className="w-4 h-4" style={{ color: "#16A34A" }} />}
+      </div>
+
+      {error && (
+        <p className="w-full text-xs" style={{ color: "#DC2626" }}>{error}</p>
+      )}
+    </div>
+  );
+}
+
+// ── Validation ────────────────────────────────────────────────────────────────
+
+const validPrice = (n: number) => Number.isFinite(n) && n >= 0;
+
+function validateDrink(d: DrinkItem): string | null {
+  if (!d.name.trim()) return "Name is required.";
+  if (d.sizes.length === 0) return "Add at least one size.";
+  const names = d.sizes.map((s) => s.name.trim().toLowerCase());
+  if (names.some((n) => !n)) return "Every size needs a name.";
+  if (new Set(names).size !== names.length) return "Size names must be unique.";
+  if (d.sizes.some((s) => !(s.oz > 0))) return "Ounces must be more than 0.";
+  if (d.sizes.some((s) => !validPrice(s.price))) return "Prices must be $0 or more.";
+  if (d.temps.length === 0) return "Pick at least one temperature.";
+  return null;
+}
+
+function validatePastry(p: PastryItem): string | null {
+  if (!p.name.trim()) return "Name is required.";
+  return validPrice(p.price) ? null : "Price must be $0 or more.";
+}
+
+function validateMilk(m: MilkOptionItem): string | null {
+  if (!m.name.trim() || !m.label.trim()) return "Name and label are required.";
+  return validPrice(m.upcharge) ? null : "Upcharge must be $0 or more.";
+}
+
+function validateGroup(g: ModifierGroup): string | null {
+  if (!g.name.trim()) return "Name is required.";
+  if (!Number.isInteger(g.min) || !Number.isInteger(g.max) || g.min < 0) {
+    return "Min and max must be whole numbers.";
+  }
+  return g.max >= 1 && g.max >= g.min ? null : "Max must be at least 1 and at least the min.";
+}
+
+function validateAddOn(a: AddOn): string | null {
+  if (!a.name.trim()) return "Name is required.";
+  if (!a.group) return "Pick a modifier group.";
+  if (!validPrice(a.price)) return "Price must be $0 or more.";
+  return Number.isInteger(a.maxQty) && a.maxQty >= 1 ? null : "Max qty must be at least 1.";
+}
+
+const CLOCK = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function validatePriceRule(r: PriceRule): string | null {
+  if (!r.name.trim()) return "Name is required.";
+  if (!r.appliesTo.some((s) => s.trim())) return "Say what it applies to (drink, coffee, tea, pastry or item names).";
+  if (!(r.percentOff > 0 && r.percentOff <= 100)) return "Percent off must be between 0 and 100.";
+  if (r.days.length === 0) return "Pick at least one day.";
+  if (!CLOCK.test(r.startTime) || !CLOCK.test(r.endTime)) return "Start and end need a time.";
+  return r.startTime === r.endTime ? "Start and end can't be the same time." : null;
+}
+
+// ── Main page ─────────────────────────────────────────────────────────────────
+
+export default function MenuEditorPage() {
+  const [menu, setMenu] = useState<Menu | null>(null);
+
+  useEffect(() => {
+    fetchMenu({ includeInactive: true }).then(setMenu);
+  }, []);
+
+  /** Replace (or fill in) the item at `index` once it has been saved. */
+  function replaceAt<K extends keyof Menu>(section: K, index: number, item: Menu[K][number]) {
+    setMenu((m) =>
+      m && { ...m, [section]: m[section].map((x, i) => (i === index ? item : x)) }
+    );
+  }
+
+  function append<K extends keyof Menu>(section: K, item: Menu[K][number]) {
+    setMenu((m) => m && { ...m, [section]: [...m[section], item] });
+  }
+
+  // New items go to the end of their section.
+  const nextSort = (section: keyof Menu) => ((menu?.[section].length ?? 0) + 1) * 10;
+  const rowKey = (item: { id?: string }, i: number) => item.id ?? `new-${i}`;
+
+  return (
+    <div className="flex flex-col min-h-screen" style={{ backgroundColor: "#FAF7F2" }}>
+
+      {/* ── Header ──────────────────────────────────────────────────────────── */}
+      <header
+        className="shrink-0 flex items-center justify-between px-4 py-3"
+        style={{
+          backgroundColor: "#1C1210",
+          borderBottom: "1px solid rgba(255,255,255,0.08)",
+        }}
+      >
+        <div className="flex items-center gap-3">
+          <div className="flex items-center gap-2">
+            <Coffee className="w-5 h-5" style={{ color: "#D4943A" }} />
+            <span
+              className="font-serif-display text-xl leading-none"
+              style={{ color: "#FAF3E8" }}
+            >
+              NYC Coffee
+            </span>
+          </div>
+          <NavLinks />
+        </div>
+
+        <span
+          className="text-sm font-medium"
+          style={{ color: "#FAF3E8", opacity: 0.7 }}
+        >
+          Menu Editor
+        </span>
+      </header>
+
+      {/* ── Main content ────────────────────────────────────────────────────── */}
+      <main className="flex-1 overflow-y-auto">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 py-6 space-y-8">
+          {!menu ? (
+            <div className="bg-white rounded-xl p-5 card-shadow space-y-3">
+              <div className="h-4 w-64 rounded bg-gray-100 animate-pulse" />
+              <div className="h-4 w-48 rounded bg-gray-100 animate-pulse" />
+            </div>
+          ) : (
+            <>
+              {/* ── Drinks ───────────────────────────────────────────────────── */}
+              <section>
+                <SectionTitle onAdd={() => append("drinks", { ...BLANK_DRINK })}>
+                  Drinks
+                </SectionTitle>
+                <div className="bg-white rounded-xl card-shadow divide-y divide-stone-100">
+                  {menu.drinks.map((drink, i) => (
+                    <EditableRow
+                      key={rowKey(drink, i)}
+                      item={drink}
+                      save={(d) => saveDrink(d, d.id ? undefined : nextSort("drinks"))}
+                      onSaved={(d) => replaceAt("drinks", i, d)}
+                      validate={validateDrink}
+                    >
+                      {(d, set) => (
+                        <>
+                          <TextInput
+                            value={d.name}
+                            onChange={(name) => set({ name })}
+                            placeholder="Drink name"
+                            className="w-44"
+                          />
+                          <select
+                            value={d.category}
+                            onChange={(e) => set({ category: e.target.value as DrinkItem["category"] })}
+                            className={inputClass}
+                            style={inputStyle}
+                          >
+                            <option value="coffee">Coffee</option>
+                            <option value="tea">Tea</option>
+                          </select>
+                          {(["hot", "iced"] as Temperature[]).map((t) => (
+                            <Toggle
+                              key={t}
+                              label={t === "hot" ? "Hot" : "Iced"}
+                              checked={d.temps.includes(t)}
+                              onChange={(on) => {
+                                const temps = on
+                                  ? (["hot", "iced"] as Temperature[]).filter((x) => x === t || d.temps.includes(x))
+                                  : d.temps.filter((x) => x !== t);
+                                set({
+                                  temps,
+                                  defaultTemp: temps.includes(d.defaultTemp) ? d.defaultTemp : temps[0] ?? "hot",
+                                });
+                              }}
+                            />
+                          ))}
+                          {DRINK_FLAGS.map((f) => (
+                            <Toggle
+                              key={f.key}
+                              label={f.label}
+                              checked={d[f.key]}
+                              onChange={(v) => set({ [f.key]: v })}
+                            />
+                          ))}
+                          <div className="w-full flex flex-wrap items-center gap-3">
+                            <span className="text-xs" style={{ color: "#9A8A7A" }}>Modifiers</span>
+                            {menu.modifierGroups.filter((g) => g.id).map((g) => (
+                              <Toggle
+                                key={g.name}
+                                label={g.name}
+                                checked={d.modifierGroups.includes(g.name)}
+                                onChange={(on) =>
+                                  set({
+                                    modifierGroups: on
+                                      ? [...d.modifierGroups, g.name]
+                                      : d.modifierGroups.filter((n) => n !== g.name),
+                                  })
+                                }
+                              />
+                            ))}
+                          </div>
+                          <SizeListEditor sizes={d.sizes} onChange={(sizes) => set({ sizes })} />
+                          <AllergenPicker value={d.allergens} onChange={(allergens) => set({ allergens })} />
+                        </>
+                      )}
+                    </EditableRow>
+                  ))}
+                </div>
+              </section>
+
+              {/* ── Pastries ─────────────────────────────────────────────────── */}
+              <section>
+                <SectionTitle onAdd={() => append("pastries", { ...BLANK_PASTRY })}>
+                  Pastries
+                </SectionTitle>
+                <div className="bg-white rounded-xl card-shadow divide-y divide-stone-100">
+                  {menu.pastries.map((pastry, i) => (
+                    <EditableRow
+                      key={rowKey(pastry, i)}
+                      item={pastry}
+                      save={(p) => savePastry(p, p.id ? undefined : nextSort("pastries"))}
+                      onSaved={(p) => replaceAt("pastries", i, p)}
+                      validate={validatePastry}
+                    >
+                      {(p, set) => (
+                        <>
+                          <TextInput
+                            value={p.name}
+                            onChange={(name) => set({ name })}
+                            placeholder="Pastry name"
+                            className="w-52"
+                          />
+                          <NumberInput label="$" value={p.price} onChange={(price) => set({ price })} />
+                          <Toggle label="Taxed" checked={p.taxable} onChange={(taxable) => set({ taxable })} />
+                          <AllergenPicker value={p.allergens} onChange={(allergens) => set({ allergens })} />
+                        </>
+                      )}
+                    </EditableRow>
+                  ))}
+                </div>
+              </section>
+
+              {/* ── Milk options ─────────────────────────────────────────────── */}
+              <section>
+                <SectionTitle onAdd={() => append("milkOptions", { ...BLANK_MILK })}>
+                  Milk options
+                </SectionTitle>
+                <div className="bg-white rounded-xl card-shadow divide-y divide-stone-100">
+                  {menu.milkOptions.map((milk, i) => (
+                    <EditableRow
+                      key={rowKey(milk, i)}
+                      item={milk}
+                      save={(m) => saveMilkOption(m, m.id ? undefined : nextSort("milkOptions"))}
+                      onSaved={(m) => replaceAt("milkOptions", i, m)}
+                      validate={validateMilk}
+                    >
+                      {(m, set) => (
+                        <>
+                          <TextInput
+                            value={m.name}
+                            onChange={(name) => set({ name })}
+                            placeholder="Key (e.g. oat)"
+                            className="w-28"
+                          />
+                          <TextInput
+                            value={m.label}
+                            onChange={(label) => set({ label })}
+                            placeholder="Label (e.g. Oat Milk)"
+                            className="w-40"
+                          />
+                          <NumberInput label="+$" value={m.upcharge} onChange={(upcharge) => set({ upcharge })} />
+                          <AllergenPicker value={m.allergens} onChange={(allergens) => set({ allergens })} />
+                        </>
+                      )}
+                    </EditableRow>
+                  ))}
+                </div>
+              </section>
+
+              {/* ── Modifier groups ──────────────────────────────────────────── */}
+              {/* Names are fixed once saved — drinks refer to groups by name. */}
+              <section>
+                <SectionTitle onAdd={() => append("modifierGroups", { ...BLANK_GROUP })}>
+                  Modifier groups
+                </SectionTitle>
+                <div className="bg-white rounded-xl card-shadow divide-y divide-stone-100">
+                  {menu.modifierGroups.map((group, i) => (
+                    <EditableRow
+                      key={rowKey(group, i)}
+                      item={group}
+                      save={(g) => saveModifierGroup(g, g.id ? undefined : nextSort("modifierGroups"))}
+                      onSaved={(g) => replaceAt("modifierGroups", i, g)}
+                      validate={validateGroup}
+                    >
+                      {(g, set) => (
+                        <>
+                          <TextInput
+                            value={g.name}
+                            onChange={(name) => set({ name })}
+                            placeholder="Group (e.g. Toppings)"
+                            className="w-44"
+                            disabled={!!g.id}
+                          />
+                          <TextInput
+                            value={g.unit}
+                            onChange={(unit) => set({ unit })}
+                            placeholder="Unit (e.g. pump)"
+                            className="w-32"
+                          />
+                          <NumberInput label="Min" step={1} value={g.min} onChange={(min) => set({ min })} />
+                          <NumberInput label="Max" step={1} value={g.max} onChange={(max) => set({ max })} />
+                        </>
+                      )}
+                    </EditableRow>
+                  ))}
+                </div>
+              </section>
+
+              {/* ── Add-ons ──────────────────────────────────────────────────── */}
+              <section>
+                <SectionTitle onAdd={() => append("addOns", { ...BLANK_ADD_ON })}>
+                  Add-ons
+                </SectionTitle>
+                <div className="bg-white rounded-xl card-shadow divide-y divide-stone-100">
+                  {menu.addOns.map((addOn, i) => (
+                    <EditableRow
+                      key={rowKey(addOn, i)}
+                      item={addOn}
+                      save={(a) => saveAddOn(a, a.id ? undefined : nextSort("addOns"))}
+                      onSaved={(a) => replaceAt("addOns", i, a)}
+                      validate={validateAddOn}
+                    >
+                      {(a, set) => (
+                        <>
+                          <TextInput
+                            value={a.name}
+                            onChange={(name) => set({ name })}
+                            placeholder="Add-on name"
+                            className="w-48"
+                          />
+                          <NumberInput label="$" value={a.price} onChange={(price) => set({ price })} />
+                          <NumberInput
+                            label="Max"
+                            step={1}
+                            value={a.maxQty}
+                            onChange={(maxQty) => set({ maxQty })}
+                          />
+                          <select
+                            value={a.group}
+                            onChange={(e) => set({ group: e.target.value })}
+                            className={inputClass}
+                            style={inputStyle}
+                          >
+                            <option value="" disabled>Group…</option>
+                            {menu.modifierGroups
+                              .filter((g) => g.id)
+                              .map((g) => (
+                                <option key={g.name} value={g.name}>{g.name}</option>
+                              ))}
+                          </select>
+                          <AllergenPicker value={a.allergens} onChange={(allergens) => set({ allergens })} />
+                        </>
+                      )}
+                    </EditableRow>
+                  ))}
+                </div>
+              </section>
+
+              {/* ── Price rules ──────────────────────────────────────────────── */}
+              {/* Times are shop time; an end before the start runs past midnight. */}
+              <section className="pb-8">
+                <SectionTitle onAdd={() => append("priceRules", { ...BLANK_PRICE_RULE })}>
+                  Price rules
+                </SectionTitle>
+                <div className="bg-white rounded-xl card-shadow divide-y divide-stone-100">
+                  {menu.priceRules.map((rule, i) => (
+                    <EditableRow
+                      key={rowKey(rule, i)}
+                      item={rule}
+                      save={(r) => savePriceRule(r, r.id ? undefined : nextSort("priceRules"))}
+                      onSaved={(r) => replaceAt("priceRules", i, r)}
+                      validate={validatePriceRule}
+                    >
+                      {(r, set) => (
+                        <>
+                          <TextInput
+                            value={r.name}
+                            onChange={(name) => set({ name })}
+                            placeholder="Name (e.g. Happy hour)"
+                            className="w-40"
+                          />
+                          <TextInput
+                            value={r.appliesTo.join(",")}
+                            onChange={(v) => set({ appliesTo: v.split(",") })}
+                            placeholder="drink, pastry, Latte…"
+                            className="w-44"
+                          />
+                          <select
+                            value={r.temp ?? ""}
+                            onChange={(e) => set({ temp: (e.target.value || null) as Temperature | null })}
+                            className={inputClass}
+                            style={inputStyle}
+                          >
+                            <option value="">Hot or iced</option>
+                            <option value="hot">Hot only</option>
+                            <option value="iced">Iced only</option>
+                          </select>
+                          <NumberInput
+                            label="% off"
+                            step={5}
+                            value={r.percentOff}
+                            onChange={(percentOff) => set({ percentOff })}
+                          />
+                          <div className="w-full flex flex-wrap items-center gap-3">
+                            {DAY_LABELS.map((label, day) => (
+                              <Toggle
+                                key={label}
+                                label={label}
+                                checked={r.days.includes(day)}
+                                onChange={(on) =>
+                                  set({ days: on ? [...r.days, day].sort((a, b) => a - b) : r.days.filter((d) => d !== day) })
+                                }
+                              />
+                            ))}
+                            {(["startTime", "endTime"] as const).map((key) => (
+                              <input
+                                key={key}
+                                type="time"
+                                value={r[key]}
+                                onChange={(e) => set({ [key]: e.target.value })}
+                                className={inputClass}
+                                style={inputStyle}
+                                aria-label={key === "startTime" ? "Starts" : "Ends"}
+                              />
+                            ))}
+                          </div>
+                        </>
+                      )}
+                    </EditableRow>
+                  ))}
+                </div>
+              </section>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
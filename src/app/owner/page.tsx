@@ -5,8 +5,8 @@
 // Owner Dashboard — business insights across Day / Week / Month.
 // KPI cards with period comparison, 7-day trend, adaptive orders
 // chart (hourly ↔ daily), popular items, revenue by category,
-// customization stats, order status, Revenue by Day of Week
-// (month view only).
+// customization stats, order status, promotion cost, Revenue by
+// Day of Week (month view only), item prep times, order edit audit.
 // ============================================================
 
 import { useState, useEffect } from "react";
@@ -20,6 +20,8 @@ import {
   Coffee,
   ChevronLeft,
   ChevronRight,
+  Tag,
+  HandCoins,
 } from "lucide-react";
 import {
   BarChart,
@@ -50,6 +52,11 @@ import {
   fetchOrderStatusBreakdown,
   fetchSevenDayRevenue,
   fetchRevenueByDayOfWeek,
+  fetchOrderEdits,
+  fetchPromotionCosts,
+  fetchPriceRuleComparison,
+  fetchLoyaltySummary,
+  fetchItemPrepTimes,
 } from "@/lib/dashboard-service";
 import type {
   DateRange,
@@ -62,7 +69,14 @@ import type {
   StatusBreakdown,
   TrendDay,
   DayOfWeekRevenue,
+  OrderEdit,
+  PromotionCost,
+  PriceRuleComparison,
+  WindowSales,
+  LoyaltySummary,
+  ItemPrepTime,
 } from "@/lib/dashboard-service";
+import { formatOrderNumber } from "@/lib/order-numbering";
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 
@@ -305,6 +319,11 @@ export default function OwnerDashboard() {
   const [customStats, setCustomStats] = useState<CustomizationStats | null>(null);
   const [status,      setStatus]      = useState<StatusBreakdown | null>(null);
   const [dowRevenue,  setDowRevenue]  = useState<DayOfWeekRevenue[]>([]);
+  const [edits,       setEdits]       = useState<OrderEdit[]>([]);
+  const [promoCosts,  setPromoCosts]  = useState<PromotionCost[]>([]);
+  const [ruleSales,   setRuleSales]   = useState<PriceRuleComparison[]>([]);
+  const [loyalty,     setLoyalty]     = useState<LoyaltySummary | null>(null);
+  const [prepTimes,   setPrepTimes]   = useState<ItemPrepTime[]>([]);
 
   // SSR guard — recharts uses ResizeObserver which is unavailable server-side
   useEffect(() => { setMounted(true); }, []);
@@ -341,7 +360,7 @@ export default function OwnerDashboard() {
       }
 
       // ── Parallel fetches ────────────────────────────────────────────────────
-      const [s, pS, tr, h, db, i, c, cs, sb, dow] = await Promise.all([
+      const [s, pS, tr, h, db, i, c, cs, sb, dow, ed, pc, rs, ly, pt] = await Promise.all([
         fetchStats(currentRange),
         fetchStats(prevRange),
         fetchSevenDayRevenue(selectedDate),
@@ -354,6 +373,11 @@ export default function OwnerDashboard() {
         viewMode === "month"
           ? fetchRevenueByDayOfWeek(currentRange)
           : Promise.resolve([] as DayOfWeekRevenue[]),
+        fetchOrderEdits(currentRange),
+        fetchPromotionCosts(currentRange),
+        fetchPriceRuleComparison(currentRange),
+        fetchLoyaltySummary(currentRange),
+        fetchItemPrepTimes(currentRange),
       ]);
 
       if (cancelled) return;
@@ -367,6 +391,11 @@ export default function OwnerDashboard() {
       setCustomStats(cs);
       setStatus(sb);
       setDowRevenue(dow as DayOfWeekRevenue[]);
+      setEdits(ed);
+      setPromoCosts(pc);
+      setRuleSales(rs);
+      setLoyalty(ly);
+      setPrepTimes(pt);
       setLoading(false);
     }
 
@@ -592,7 +621,7 @@ export default function OwnerDashboard() {
           {/* ── KPI cards ───────────────────────────────────────────────────── */}
           <section>
             <SectionTitle>At a glance</SectionTitle>
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
               <KPICard
                 label="Total Revenue"
                 value={stats ? `$${stats.totalRevenue.toFixed(2)}` : "$0.00"}
@@ -625,6 +654,24 @@ export default function OwnerDashboard() {
                 change={aovChange}
                 compareLabel={compareLabel}
               />
+              <KPICard
+                label="Discount Cost"
+                value={stats ? `$${stats.discountCost.toFixed(2)}` : "$0.00"}
+                icon={<Tag className="w-8 h-8" style={{ color: "#2C1A12" }} />}
+                loading={loading}
+                compareLabel={
+                  stats && stats.discountedOrders > 0
+                    ? `${stats.discountedOrders} discounted order${stats.discountedOrders !== 1 ? "s" : ""}`
+                    : "no discounts"
+                }
+              />
+              <KPICard
+                label="Tips"
+                value={stats ? `$${stats.tipsTotal.toFixed(2)}` : "$0.00"}
+                icon={<HandCoins className="w-8 h-8" style={{ color: "#2C1A12" }} />}
+                loading={loading}
+                compareLabel={stats ? `not revenue · $${stats.taxCollected.toFixed(2)} sales tax held` : "not revenue"}
+              />
               <KPICard
                 label="Avg Fulfillment Time"
                 value={
@@ -1013,7 +1060,7 @@ export default function OwnerDashboard() {
             {!loading && !hasOrders ? (
               <EmptyState message="No data for this period." />
             ) : (
-              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
 
                 <div className="bg-white rounded-xl p-4 card-shadow">
                   <p className="text-xs mb-2" style={{ color: "#9A8A7A" }}>Most popular milk</p>
@@ -1082,6 +1129,31 @@ export default function OwnerDashboard() {
                   )}
                 </div>
 
+                <div className="bg-white rounded-xl p-4 card-shadow">
+                  <p className="text-xs mb-2" style={{ color: "#9A8A7A" }}>Decaf &amp; half-caf</p>
+                  {loading ? (
+                    <div className="h-6 w-24 rounded bg-gray-100 animate-pulse" />
+                  ) : customStats?.caffeineBreakdown.length ? (
+                    <>
+                      <p className="text-xl font-bold" style={{ color: "#2C1A12" }}>
+                        {customStats.decafPct}%
+                      </p>
+                      <p className="text-sm mt-0.5" style={{ color: "#6B4E3D" }}>
+                        of espresso drinks
+                      </p>
+                      {customStats.caffeineBreakdown
+                        .filter((c) => c.name !== "Regular")
+                        .map((c) => (
+                          <p key={c.name} className="text-xs mt-1" style={{ color: "#9A8A7A" }}>
+                            {c.name} · {c.count} ({c.pct}%)
+                          </p>
+                        ))}
+                    </>
+                  ) : (
+                    <p className="text-xl font-bold" style={{ color: "#9A8A7A" }}>—</p>
+                  )}
+                </div>
+
                 <div className="bg-white rounded-xl p-4 card-shadow">
                   <p className="text-xs mb-2" style={{ color: "#9A8A7A" }}>Hot vs Iced</p>
                   {loading ? (
@@ -1126,7 +1198,7 @@ export default function OwnerDashboard() {
           </section>
 
           {/* ── Order status breakdown ───────────────────────────────────────── */}
-          <section className="pb-8">
+          <section>
             <SectionTitle>Order status</SectionTitle>
             <div className="bg-white rounded-xl p-5 card-shadow">
               {loading ? (
@@ -1140,25 +1212,21 @@ export default function OwnerDashboard() {
                 </p>
               ) : (
                 <>
-                  <div className="grid grid-cols-3 gap-4 mb-5">
-                    <div className="text-center">
-                      <p className="text-2xl font-bold" style={{ color: "#2C1A12" }}>
-                        {status.new}
-                      </p>
-                      <p className="text-xs mt-1" style={{ color: "#9A8A7A" }}>New</p>
-                    </div>
-                    <div className="text-center">
-                      <p className="text-2xl font-bold" style={{ color: "#D97706" }}>
-                        {status.in_progress}
-                      </p>
-                      <p className="text-xs mt-1" style={{ color: "#9A8A7A" }}>In Progress</p>
-                    </div>
-                    <div className="text-center">
-                      <p className="text-2xl font-bold" style={{ color: "#16A34A" }}>
-                        {status.completed}
-                      </p>
-                      <p className="text-xs mt-1" style={{ color: "#9A8A7A" }}>Completed</p>
-                    </div>
+                  <div className="grid grid-cols-3 sm:grid-cols-5 gap-4 mb-5">
+                    {([
+                      ["New",         status.new,         "#2C1A12"],
+                      ["In Progress", status.in_progress, "#D97706"],
+                      ["Ready",       status.ready,       "#16A34A"],
+                      ["Picked Up",   status.picked_up,   "#6B4E3D"],
+                      ["Cancelled",   status.cancelled,   "#DC2626"],
+                    ] as const).map(([label, count, color]) => (
+                      <div key={label} className="text-center">
+                        <p className="text-2xl font-bold" style={{ color }}>
+                          {count}
+                        </p>
+                        <p className="text-xs mt-1" style={{ color: "#9A8A7A" }}>{label}</p>
+                      </div>
+                    ))}
                   </div>
 
                   <div>
@@ -1168,7 +1236,7 @@ export default function OwnerDashboard() {
                     >
                       <span>Completion rate</span>
                       <span className="font-medium" style={{ color: "#2C1A12" }}>
-                        {status.completedPct}% of {status.total} order{status.total !== 1 ? "s" : ""}
+                        {status.completedPct}% of {status.total - status.cancelled} order{status.total - status.cancelled !== 1 ? "s" : ""}
                       </span>
                     </div>
                     <div
@@ -1191,6 +1259,206 @@ export default function OwnerDashboard() {
             </div>
           </section>
 
+          {/* ── Price rules (revenue inside vs outside each window) ────────────── */}
+          <section>
+            <SectionTitle>Happy hour &amp; time-based prices</SectionTitle>
+            {loading ? (
+              <div className="bg-white rounded-xl p-5 card-shadow space-y-3">
+                <div className="h-4 w-64 rounded bg-gray-100 animate-pulse" />
+                <div className="h-4 w-48 rounded bg-gray-100 animate-pulse" />
+              </div>
+            ) : ruleSales.length === 0 ? (
+              <EmptyState message="No price rules are set up." />
+            ) : (
+              <div className="bg-white rounded-xl card-shadow divide-y divide-stone-100">
+                {ruleSales.map((r) => (
+                  <div key={r.rule} className="px-5 py-4">
+                    <p className="text-sm font-medium" style={{ color: "#2C1A12" }}>
+                      {r.rule}
+                      {!r.active && (
+                        <span className="ml-2 text-xs font-normal" style={{ color: "#9A8A7A" }}>
+                          (off)
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs mb-3" style={{ color: "#9A8A7A" }}>{r.schedule}</p>
+                    <div className="grid grid-cols-2 gap-4">
+                      {([["Inside window", r.inside], ["Outside window", r.outside]] as [string, WindowSales][]).map(
+                        ([label, w]) => (
+                          <div key={label}>
+                            <p className="text-xs uppercase tracking-wide mb-1" style={{ color: "#9A8A7A" }}>
+                              {label}
+                            </p>
+                            <p className="text-sm" style={{ color: "#2C1A12" }}>
+                              ${w.revenue.toFixed(2)} · {w.orders} order{w.orders !== 1 ? "s" : ""}
+                            </p>
+                            <p className="text-xs" style={{ color: "#6B4E3D" }}>
+                              ${w.avgTicket.toFixed(2)} avg ticket · ${w.revenuePerHour.toFixed(2)}/hr
+                            </p>
+                          </div>
+                        )
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+          {/* ── Promotions (discount cost per combo / code) ───────────────────── */}
+          <section>
+            <SectionTitle>Promotions</SectionTitle>
+            {loading ? (
+              <div className="bg-white rounded-xl p-5 card-shadow space-y-3">
+                <div className="h-4 w-64 rounded bg-gray-100 animate-pulse" />
+                <div className="h-4 w-48 rounded bg-gray-100 animate-pulse" />
+              </div>
+            ) : promoCosts.length === 0 ? (
+              <EmptyState message="No discounts were given in this period." />
+            ) : (
+              <div className="bg-white rounded-xl card-shadow divide-y divide-stone-100">
+                {promoCosts.map((p) => (
+                  <div key={p.promotionId} className="px-5 py-3 flex items-center gap-4">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium" style={{ color: "#2C1A12" }}>
+                        {p.label}
+                      </p>
+                      <p className="text-xs" style={{ color: "#9A8A7A" }}>
+                        {p.uses} order{p.uses !== 1 ? "s" : ""}
+                        {stats && stats.totalOrders > 0
+                          ? ` · ${Math.round((p.uses / stats.totalOrders) * 100)}% of orders`
+                          : ""}
+                      </p>
+                    </div>
+                    <p className="shrink-0 text-sm font-medium" style={{ color: "#DC2626" }}>
+                      −${p.cost.toFixed(2)}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+          {/* ── Loyalty card (free drinks given and what they cost) ───────────── */}
+          <section>
+            <SectionTitle>Loyalty card</SectionTitle>
+            {loading ? (
+              <div className="bg-white rounded-xl p-5 card-shadow space-y-3">
+                <div className="h-4 w-64 rounded bg-gray-100 animate-pulse" />
+                <div className="h-4 w-48 rounded bg-gray-100 animate-pulse" />
+              </div>
+            ) : !loyalty || loyalty.memberOrders === 0 ? (
+              <EmptyState message="No signed-in customers ordered in this period." />
+            ) : (
+              <div className="bg-white rounded-xl p-5 card-shadow grid grid-cols-2 sm:grid-cols-4 gap-4">
+                {([
+                  ["Members", `${loyalty.members}`, `${loyalty.memberOrders} order${loyalty.memberOrders !== 1 ? "s" : ""}`],
+                  ["Punches", `${loyalty.punches}`, "drinks toward a free one"],
+                  ["Redemptions", `${loyalty.redemptions}`, "free drinks given"],
+                  ["Cost", `−$${loyalty.cost.toFixed(2)}`, loyalty.redemptions > 0
+                    ? `$${(loyalty.cost / loyalty.redemptions).toFixed(2)} per free drink`
+                    : "nothing redeemed yet"],
+                ] as [string, string, string][]).map(([label, value, note]) => (
+                  <div key={label}>
+                    <p className="text-xs uppercase tracking-wide mb-1" style={{ color: "#9A8A7A" }}>
+                      {label}
+                    </p>
+                    <p
+                      className="text-lg font-semibold"
+                      style={{ color: label === "Cost" ? "#DC2626" : "#2C1A12" }}
+                    >
+                      {value}
+                    </p>
+                    <p className="text-xs" style={{ color: "#6B4E3D" }}>{note}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+          {/* ── Prep times (per item, from lines checked off on tickets) ──────── */}
+          <section>
+            <SectionTitle>Prep times</SectionTitle>
+            {loading ? (
+              <div className="bg-white rounded-xl p-5 card-shadow space-y-3">
+                <div className="h-4 w-64 rounded bg-gray-100 animate-pulse" />
+                <div className="h-4 w-48 rounded bg-gray-100 animate-pulse" />
+              </div>
+            ) : prepTimes.length === 0 ? (
+              <EmptyState message="No items were checked off on tickets in this period." />
+            ) : (
+              <div className="bg-white rounded-xl card-shadow divide-y divide-stone-100">
+                {prepTimes.map((p) => (
+                  <div key={p.name} className="px-5 py-3 flex items-center gap-4">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium" style={{ color: "#2C1A12" }}>
+                        {p.name}
+                      </p>
+                      <p className="text-xs" style={{ color: "#9A8A7A" }}>
+                        {p.made} made
+                      </p>
+                    </div>
+                    <p className="shrink-0 text-sm font-medium" style={{ color: "#2C1A12" }}>
+                      {p.avgMinutes.toFixed(1)} min
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+          {/* ── Order edits (audit of customer modifications) ────────────────── */}
+          <section className="pb-8">
+            <SectionTitle>Order edits</SectionTitle>
+            {loading ? (
+              <div className="bg-white rounded-xl p-5 card-shadow space-y-3">
+                <div className="h-4 w-64 rounded bg-gray-100 animate-pulse" />
+                <div className="h-4 w-48 rounded bg-gray-100 animate-pulse" />
+              </div>
+            ) : edits.length === 0 ? (
+              <EmptyState message="No orders were modified in this period." />
+            ) : (
+              <div className="bg-white rounded-xl card-shadow divide-y divide-stone-100">
+                {edits.map((e) => (
+                  <div key={e.id} className="px-5 py-3 flex gap-4">
+                    <div className="shrink-0 w-24">
+                      <p className="text-sm font-bold" style={{ color: "#2C1A12" }}>
+                        {formatOrderNumber(e.orderNumber)}
+                      </p>
+                      <p className="text-xs" style={{ color: "#9A8A7A" }}>
+                        {new Date(e.createdAt).toLocaleTimeString("en-US", {
+                          hour:   "numeric",
+                          minute: "2-digit",
+                        })}
+                      </p>
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      {e.changes.map((line, i) => (
+                        <p key={i} className="text-sm" style={{ color: "#2C1A12" }}>
+                          {line}
+                        </p>
+                      ))}
+                      <p className="text-xs mt-0.5" style={{ color: "#9A8A7A" }}>
+                        Revision {e.revision} · by {e.changedBy}
+                        {e.customerName ? ` (${e.customerName})` : ""}
+                      </p>
+                    </div>
+                    <p
+                      className="shrink-0 text-sm font-medium"
+                      style={{
+                        color:
+                          e.totalDelta > 0 ? "#16A34A" :
+                          e.totalDelta < 0 ? "#DC2626" : "#9A8A7A",
+                      }}
+                    >
+                      {e.totalDelta >= 0 ? "+" : "−"}${Math.abs(e.totalDelta).toFixed(2)}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
         </div>
       </main>
     </div>
@@ -0,0 +1,243 @@
+"use client";
+
+// src/app/pickup/page.tsx
+// ============================================================
+// Public Pickup Board — for the TV by the counter.
+// Two columns of order numbers + first names: Preparing (new and
+// in progress) and Ready. Same postgres_changes feed as the
+// barista page. Ready orders drop off after
+// NEXT_PUBLIC_PICKUP_READY_MINUTES (default 5) and are announced
+// with the ready chime once sound has been enabled.
+// ============================================================
+
+import { useState, useEffect, useRef } from "react";
+import { Coffee, Flame, CheckCircle, Volume2, VolumeX } from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import { fetchAllOrders } from "@/lib/barista-service";
+import { formatOrderNumber } from "@/lib/order-numbering";
+import { fulfilledAt } from "@/lib/order-status";
+import { isHeld } from "@/lib/scheduling";
+import { playReadySound } from "@/lib/sounds";
+import type { Order } from "@/lib/types";
+
+// ── Config ────────────────────────────────────────────────────────────────────
+
+const READY_EXPIRY_MIN =
+  Number(process.env.NEXT_PUBLIC_PICKUP_READY_MINUTES) || 5;
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/** First name only — the board is public. */
+function firstName(name: string | null): string {
+  return name?.trim().split(/\s+/)[0] ?? "";
+}
+
+// ── Board column ──────────────────────────────────────────────────────────────
+
+interface BoardColumnProps {
+  title: string;
+  icon: React.ReactNode;
+  accentColor: string;
+  orders: Order[];
+  emptyMessage: string;
+  highlight?: boolean;
+}
+
+function BoardColumn({
+  title,
+  icon,
+  accentColor,
+  orders,
+  emptyMessage,
+  highlight = false,
+}: BoardColumnProps) {
+  return (
+    <section className="flex flex-col min-h-0 min-w-0">
+      <div
+        className="flex items-center gap-3 pb-4 mb-6 shrink-0"
+        style={{ borderBottom: `3px solid ${accentColor}` }}
+      >
+        <span style={{ color: accentColor }}>{icon}</span>
+        <h2
+          className="font-serif-display text-4xl leading-none"
+          style={{ color: "#FAF3E8" }}
+        >
+          {title}
+        </h2>
+      </div>
+
+      {orders.length === 0 ? (
+        <p className="text-2xl" style={{ color: "#FAF3E8", opacity: 0.35 }}>
+          {emptyMessage}
+        </p>
+      ) : (
+        <ul className="grid grid-cols-2 gap-4 content-start overflow-hidden">
+          {orders.map((order) => (
+            <li
+              key={order.id}
+              className={`rounded-xl px-5 py-4 ${highlight ? "animate-card-in" : ""}`}
+              style={{
+                backgroundColor: highlight ? "rgba(34,197,94,0.15)" : "rgba(250,243,232,0.06)",
+              }}
+            >
+              <p
+                className="text-5xl font-bold tracking-tight leading-none"
+                style={{ color: highlight ? "#4ADE80" : "#FAF3E8" }}
+              >
+                {formatOrderNumber(order.order_number)}
+              </p>
+              {order.customer_name && (
+                <p
+                  className="text-2xl mt-2 truncate"
+                  style={{ color: "#FAF3E8", opacity: 0.75 }}
+                >
+                  {firstName(order.customer_name)}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+// ── PickupBoardPage ───────────────────────────────────────────────────────────
+
+export default function PickupBoardPage() {
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [soundOn, setSoundOn] = useState(false);
+  // Clock for ready-order expiry — ticks every 15 s.
+  const [now, setNow] = useState(() => Date.now());
+
+  const soundOnRef = useRef(false);
+  useEffect(() => { soundOnRef.current = soundOn; }, [soundOn]);
+
+  useEffect(() => {
+    const t = setInterval(() => setNow(Date.now()), 15_000);
+    return () => clearInterval(t);
+  }, []);
+
+  // ── Initial load ──────────────────────────────────────────────────────────
+
+  useEffect(() => {
+    fetchAllOrders().then((data) => setOrders(data));
+  }, []);
+
+  // ── Realtime subscription ─────────────────────────────────────────────────
+  // Only order rows matter here — items aren't shown on the board.
+
+  useEffect(() => {
+    const channel = supabase
+      .channel("pickup-board")
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "orders" },
+        (payload) => {
+          const incoming = payload.new as Order;
+          if (!incoming?.id) return;
+          setOrders((prev) =>
+            prev.some((o) => o.id === incoming.id) ? prev : [...prev, incoming]
+          );
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "orders" },
+        (payload) => {
+          const updated = payload.new as Order;
+          if (!updated?.id) return;
+          if (updated.status === "ready" && soundOnRef.current) playReadySound();
+          setNow(Date.now());
+          setOrders((prev) =>
+            prev.map((o) => (o.id === updated.id ? { ...o, ...updated } : o))
+          );
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  // ── Grouped ───────────────────────────────────────────────────────────────
+  // Preparing: oldest first; scheduled orders show once they're released.
+  // Ready: most recently finished first, hidden once they've been up
+  // longer than READY_EXPIRY_MIN.
+
+  const preparing = orders
+    .filter((o) => (o.status === "new" && !isHeld(o, now)) || o.status === "in_progress")
+    .sort((a, b) => a.order_number - b.order_number);
+
+  const ready = orders
+    .filter((o) => {
+      if (o.status !== "ready") return false;
+      const at = fulfilledAt(o);
+      return !at || now - new Date(at).getTime() < READY_EXPIRY_MIN * 60_000;
+    })
+    .sort((a, b) => (fulfilledAt(b) ?? "").localeCompare(fulfilledAt(a) ?? ""));
+
+  // ── Render ────────────────────────────────────────────────────────────────
+
+  return (
+    <div
+      className="flex flex-col h-[100dvh] overflow-hidden"
+      style={{ backgroundColor: "#1C1210" }}
+    >
+      {/* ── Header ──────────────────────────────────────────────────────── */}
+      <header
+        className="shrink-0 flex items-center justify-between px-8 py-5"
+        style={{ borderBottom: "1px solid rgba(255,255,255,0.08)" }}
+      >
+        <div className="flex items-center gap-3">
+          <Coffee className="w-8 h-8" style={{ color: "#D4943A" }} />
+          <span
+            className="font-serif-display text-3xl leading-none"
+            style={{ color: "#FAF3E8" }}
+          >
+            NYC Coffee
+          </span>
+        </div>
+
+        {/* Browsers block audio until the page is clicked once */}
+        <button
+          type="button"
+          onClick={() => {
+            const next = !soundOn;
+            setSoundOn(next);
+            if (next) playReadySound();
+          }}
+          className="flex items-center gap-2 text-sm px-3 py-1.5 rounded-lg transition-opacity hover:opacity-80"
+          style={{
+            color: "#FAF3E8",
+            opacity: soundOn ? 0.5 : 0.8,
+            border: "1px solid rgba(250,243,232,0.2)",
+          }}
+        >
+          {soundOn ? <Volume2 className="w-4 h-4" /> : <VolumeX className="w-4 h-4" />}
+          {soundOn ? "Sound on" : "Tap to enable sound"}
+        </button>
+      </header>
+
+      {/* ── Columns ─────────────────────────────────────────────────────── */}
+      <main className="flex-1 grid grid-cols-2 gap-12 px-8 py-8 min-h-0">
+        <BoardColumn
+          title="Preparing"
+          icon={<Flame className="w-8 h-8" />}
+          accentColor="#D4943A"
+          orders={preparing}
+          emptyMessage="No orders in the queue"
+        />
+        <BoardColumn
+          title="Ready"
+          icon={<CheckCircle className="w-8 h-8" />}
+          accentColor="#22C55E"
+          orders={ready}
+          emptyMessage="Nothing ready yet"
+          highlight
+        />
+      </main>
+    </div>
+  );
+}
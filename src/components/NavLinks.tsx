@@ -12,7 +12,9 @@ import { usePathname } from "next/navigation";
 const VIEWS = [
   { path: "/customer",  label: "Customer"  },
   { path: "/barista",   label: "Barista"   },
+  { path: "/pickup",    label: "Pickup"    },
   { path: "/owner",     label: "Dashboard" },
+  { path: "/owner/menu", label: "Menu"     },
 ] as const;
 
 interface NavLinksProps {
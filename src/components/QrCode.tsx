@@ -0,0 +1,52 @@
+"use client";
+
+// src/components/QrCode.tsx
+// ============================================================
+// QR code as an inline SVG — one path of dark modules, so it stays
+// sharp at any size and prints cleanly. Encoding is the `qrcode`
+// package; nothing is fetched.
+// ============================================================
+
+import { useMemo } from "react";
+import QRCode from "qrcode";
+
+interface QrCodeProps {
+  value: string;
+  /** Rendered width and height in px. */
+  size?: number;
+  color?: string;
+  className?: string;
+  /** Read by screen readers in place of the code. */
+  label?: string;
+}
+
+// Blank modules around the code — the spec asks for 4, 2 scans fine on screens.
+const QUIET_ZONE = 2;
+
+export function QrCode({ value, size = 120, color = "#2C1A12", className, label }: QrCodeProps) {
+  const { path, modules } = useMemo(() => {
+    const { modules } = QRCode.create(value, { errorCorrectionLevel: "M" });
+    let d = "";
+    for (let row = 0; row < modules.size; row++) {
+      for (let col = 0; col < modules.size; col++) {
+        if (modules.get(row, col)) d += `M${col + QUIET_ZONE} ${row + QUIET_ZONE}h1v1h-1z`;
+      }
+    }
+    return { path: d, modules: modules.size + QUIET_ZONE * 2 };
+  }, [value]);
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${modules} ${modules}`}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label={label ?? value}
+      className={className}
+    >
+      <rect width={modules} height={modules} fill="#FFFFFF" />
+      <path d={path} fill={color} />
+    </svg>
+  );
+}
@@ -0,0 +1,261 @@
+"use client";
+
+// src/components/chat/AccountDrawer.tsx
+// ============================================================
+// Customer account drawer, opened from the person icon in the
+// chat header. Slides in from the right like the MenuDrawer.
+// - Guests sign in with a one-time code sent to their phone or
+//   email (the email also has a magic link)
+// - Signed-in customers see their punch card and order history;
+//   "Order again" asks the cashier for the same items
+// Ordering never requires an account.
+// ============================================================
+
+import { useEffect, useState } from "react";
+import { X } from "lucide-react";
+import type { Menu } from "@/lib/menu";
+import { describeOrderItems, parseContact, type Contact } from "@/lib/customers";
+import { describeLoyalty } from "@/lib/loyalty";
+import {
+  sendSignInCode,
+  signOut,
+  verifySignInCode,
+  type Account,
+} from "@/lib/customer-client";
+import { formatOrderNumber } from "@/lib/order-numbering";
+import { formatBusinessDay } from "@/lib/business-time";
+import type { OrderWithItems } from "@/lib/types";
+
+interface AccountDrawerProps {
+  open: boolean;
+  account: Account | null;
+  menu: Menu;
+  onClose: () => void;
+  /** "Order again" on a past order. */
+  onReorder: (order: OrderWithItems) => void;
+}
+
+export function AccountDrawer({ open, account, menu, onClose, onReorder }: AccountDrawerProps) {
+  const [contactText, setContactText] = useState("");
+  /** Set once a code has been sent — the form then asks for the code. */
+  const [contact, setContact] = useState<Contact | null>(null);
+  const [code, setCode] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Close on Escape key
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handler);
+    return () => document.removeEventListener("keydown", handler);
+  }, [open, onClose]);
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong — try again.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function handleSendCode(e: React.FormEvent) {
+    e.preventDefault();
+    const parsed = parseContact(contactText);
+    if (!parsed) {
+      setError("Enter a phone number or an email address.");
+      return;
+    }
+    run(async () => {
+      await sendSignInCode(parsed);
+      setContact(parsed);
+    });
+  }
+
+  function handleVerify(e: React.FormEvent) {
+    e.preventDefault();
+    if (!contact) return;
+    // The account arrives through useCustomer once Supabase signs in.
+    run(async () => {
+      await verifySignInCode(contact, code);
+      setContact(null);
+      setCode("");
+    });
+  }
+
+  const sentTo = contact ? ("email" in contact ? contact.email : contact.phone) : "";
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        aria-hidden="true"
+        className={`fixed inset-0 z-40 bg-black/40 transition-opacity duration-300 ${
+          open ? "opacity-100 pointer-events-auto" : "opacity-0 pointer-events-none"
+        }`}
+        onClick={onClose}
+      />
+
+      {/* Drawer panel */}
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Your account"
+        className={`fixed top-0 right-0 z-50 h-full w-80 max-w-[90vw] bg-white shadow-2xl flex flex-col transition-transform duration-300 ease-in-out ${
+          open ? "translate-x-0" : "translate-x-full"
+        }`}
+      >
+        <div className="shrink-0 flex items-center justify-between px-5 py-4 border-b border-stone-200">
+          <h2 className="font-serif-display text-lg text-stone-900 leading-none">
+            {account ? "Your orders" : "Sign in"}
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close account"
+            className="flex items-center justify-center w-8 h-8 text-stone-400 hover:text-stone-700 rounded-md"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-5 space-y-5">
+          {account ? (
+            <>
+              {/* ---- Who's signed in ---- */}
+              <section className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-[15px] font-semibold text-stone-900 truncate">
+                    {account.customer.name ?? "Welcome back"}
+                  </p>
+                  <p className="text-[12px] text-stone-400 truncate">
+                    {account.customer.email ?? account.customer.phone}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => run(signOut)}
+                  className="shrink-0 text-[12px] text-stone-500 underline hover:text-stone-800"
+                >
+                  Sign out
+                </button>
+              </section>
+
+              {/* ---- Punch card ---- */}
+              <section className="rounded-lg bg-amber-50 px-3 py-2.5">
+                <p className="text-[11px] font-semibold uppercase tracking-widest text-amber-800">
+                  Loyalty card
+                </p>
+                <p className="text-[13px] text-stone-700 mt-1 leading-snug">
+                  {describeLoyalty(account.loyalty)}
+                </p>
+              </section>
+
+              <div className="border-t border-stone-100" />
+
+              {/* ---- Order history ---- */}
+              <section className="space-y-3">
+                {account.orders.length === 0 ? (
+                  <p className="text-[13px] text-stone-400">
+                    No orders yet — your orders will show up here.
+                  </p>
+                ) : (
+                  account.orders.map((order) => (
+                    <div key={order.id} className="rounded-lg border border-stone-200 px-3 py-2.5">
+                      <div className="flex items-baseline justify-between gap-2">
+                        <span className="text-[11px] font-semibold uppercase tracking-widest text-stone-400">
+                          {formatBusinessDay(new Date(order.created_at))} ·{" "}
+                          {formatOrderNumber(order.order_number)}
+                        </span>
+                        <span className="text-[13px] font-semibold text-stone-900">
+                          ${order.grand_total.toFixed(2)}
+                        </span>
+                      </div>
+                      <p className="text-[13px] text-stone-700 mt-1 leading-snug">
+                        {describeOrderItems(order, menu)}
+                      </p>
+                      <button
+                        type="button"
+                        onClick={() => onReorder(order)}
+                        className="mt-2 text-[12px] font-semibold text-amber-700 hover:text-amber-900"
+                      >
+                        Order again
+                      </button>
+                    </div>
+                  ))
+                )}
+              </section>
+            </>
+          ) : contact ? (
+            /* ---- Step 2: the code ---- */
+            <form onSubmit={handleVerify} className="space-y-3">
+              <p className="text-[13px] text-stone-600">
+                We sent a code to <span className="font-semibold">{sentTo}</span>.
+                {"email" in contact && " You can also tap the link in the email."}
+              </p>
+              <input
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="6-digit code"
+                className="w-full rounded-lg border border-stone-300 px-3 py-2 text-[15px] tracking-widest"
+              />
+              <button
+                type="submit"
+                disabled={busy || code.trim().length === 0}
+                className="w-full rounded-full bg-stone-900 py-2.5 text-[13px] font-semibold text-white disabled:opacity-50"
+              >
+                Sign in
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setContact(null);
+                  setCode("");
+                  setError(null);
+                }}
+                className="w-full text-[12px] text-stone-500 underline"
+              >
+                Use a different number or email
+              </button>
+            </form>
+          ) : (
+            /* ---- Step 1: phone or email ---- */
+            <form onSubmit={handleSendCode} className="space-y-3">
+              <p className="text-[13px] text-stone-600">
+                Sign in to see your past orders, collect loyalty punches and just ask Alex
+                for &ldquo;the usual&rdquo;.
+              </p>
+              <input
+                type="text"
+                autoComplete="email"
+                value={contactText}
+                onChange={(e) => setContactText(e.target.value)}
+                placeholder="Phone or email"
+                className="w-full rounded-lg border border-stone-300 px-3 py-2 text-[15px]"
+              />
+              <button
+                type="submit"
+                disabled={busy || contactText.trim().length === 0}
+                className="w-full rounded-full bg-stone-900 py-2.5 text-[13px] font-semibold text-white disabled:opacity-50"
+              >
+                Send code
+              </button>
+            </form>
+          )}
+
+          {error && <p className="text-[12px] text-red-600">{error}</p>}
+        </div>
+      </div>
+    </>
+  );
+}
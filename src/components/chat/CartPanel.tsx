@@ -0,0 +1,105 @@
+"use client";
+
+// src/components/chat/CartPanel.tsx
+// ============================================================
+// Live cart strip rendered above ChatInput.
+// Mirrors the server-side session cart — every add_item /
+// modify_item / remove_item the AI makes shows up here, so the
+// customer can see their order instead of trusting the recap.
+// Combo and promo-code discounts, tax and tip are listed under the items.
+// Tap the summary row to collapse it.
+// ============================================================
+
+import { useState } from "react";
+import { ShoppingBag, ChevronDown, ChevronUp } from "lucide-react";
+import { cartGrandTotal, cartTax, describeCartItem, type Cart } from "@/lib/cart";
+import type { Menu } from "@/lib/menu";
+
+interface CartPanelProps {
+  cart: Cart;
+  menu: Menu;
+}
+
+export function CartPanel({ cart, menu }: CartPanelProps) {
+  const [expanded, setExpanded] = useState(true);
+
+  const count = cart.items.length;
+  if (count === 0) return null;
+
+  return (
+    <div
+      className="shrink-0 border-t border-stone-200 px-4 py-2.5"
+      style={{ backgroundColor: "#FFFDF7" }}
+    >
+      {/* Summary row — always visible */}
+      <button
+        type="button"
+        onClick={() => setExpanded((e) => !e)}
+        aria-expanded={expanded}
+        className="w-full flex items-center gap-2 text-left"
+        style={{ color: "#2C1A12" }}
+      >
+        <ShoppingBag className="w-4 h-4 shrink-0" style={{ color: "#D4943A" }} />
+        <span className="text-[13px] font-semibold">
+          Your order · {count} {count === 1 ? "item" : "items"}
+        </span>
+        <span className="ml-auto text-[13px] font-bold">
+          ${cartGrandTotal(cart, menu).toFixed(2)}
+        </span>
+        {expanded ? (
+          <ChevronDown className="w-4 h-4 shrink-0" style={{ color: "#9A8A7A" }} />
+        ) : (
+          <ChevronUp className="w-4 h-4 shrink-0" style={{ color: "#9A8A7A" }} />
+        )}
+      </button>
+
+      {/* Line items */}
+      {expanded && (
+        <ul className="mt-2 space-y-1 max-h-32 overflow-y-auto">
+          {cart.items.map((item, i) => (
+            <li
+              key={i}
+              className="flex justify-between items-baseline gap-3 text-[12px]"
+            >
+              <span style={{ color: "#6B4E3D" }}>
+                {describeCartItem(item, menu)}
+                {item.price_rule && (
+                  <span style={{ color: "#16A34A" }}> · {item.price_rule}</span>
+                )}
+              </span>
+              <span className="shrink-0" style={{ color: "#9A8A7A" }}>
+                ${item.item_price.toFixed(2)}
+              </span>
+            </li>
+          ))}
+          {(cart.discounts ?? []).map((d, i) => (
+            <li
+              key={`discount-${i}`}
+              className="flex justify-between items-baseline gap-3 text-[12px]"
+              style={{ color: "#16A34A" }}
+            >
+              <span>{d.label}</span>
+              <span className="shrink-0">−${d.amount.toFixed(2)}</span>
+            </li>
+          ))}
+          <li
+            className="flex justify-between items-baseline gap-3 text-[12px]"
+            style={{ color: "#9A8A7A" }}
+          >
+            <span>Tax</span>
+            <span className="shrink-0">${cartTax(cart, menu).toFixed(2)}</span>
+          </li>
+          {cart.tip > 0 && (
+            <li
+              className="flex justify-between items-baseline gap-3 text-[12px]"
+              style={{ color: "#9A8A7A" }}
+            >
+              <span>Tip</span>
+              <span className="shrink-0">${cart.tip.toFixed(2)}</span>
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
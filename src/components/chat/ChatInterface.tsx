@@ -1,32 +1,46 @@
 "use client";
 
 import { useState, useRef, useEffect, useCallback } from "react";
-import { Coffee, Menu, Mic, Volume2, VolumeX } from "lucide-react";
+import { Coffee, Menu, Mic, UserRound, Volume2, VolumeX } from "lucide-react";
 import { NavLinks } from "@/components/NavLinks";
 import { MessageBubble, TypingIndicator } from "./MessageBubble";
 import { ChatInput } from "./ChatInput";
 import { ReceiptCard } from "./ReceiptCard";
 import { MenuDrawer } from "./MenuDrawer";
-import { saveOrder, updateOrder, type OrderReceipt } from "@/lib/order-service";
+import { AccountDrawer } from "./AccountDrawer";
+import { CartPanel } from "./CartPanel";
+import type { OrderReceipt } from "@/lib/order-service";
+import type { Cart } from "@/lib/cart";
+import { readChatEvents, type ChatMode } from "@/lib/chat-events";
+import {
+  submitOrder,
+  submitOrderUpdate,
+  OrderConflictError,
+  OrderRejectedError,
+} from "@/lib/order-client";
 import { useSpeechRecognition } from "@/hooks/useSpeechRecognition";
+import { useCustomer } from "@/hooks/useCustomer";
+import { authHeaders } from "@/lib/customer-client";
+import { describeOrderItems } from "@/lib/customers";
+import { formatBusinessDay } from "@/lib/business-time";
+import type { OrderWithItems } from "@/lib/types";
+import type { LoyaltyStatus } from "@/lib/loyalty";
 import { useTextToSpeech } from "@/hooks/useTextToSpeech";
+import { useMenu } from "@/hooks/useMenu";
 
 // ---- Types ----
 
 type ChatMessage = {
   id: string;
   role: "cashier" | "customer";
-  /** Text shown in the UI (receipt JSON is stripped out) */
+  /** Text shown in the UI and sent back as API history */
   content: string;
-  /**
-   * Original raw content including the JSON block.
-   * Used to reconstruct accurate API history after a receipt is generated.
-   */
-  rawContent?: string;
   receipt?: OrderReceipt;
   orderNumber?: number;
   /** Supabase order UUID — passed to ReceiptCard for realtime status */
   orderId?: string;
+  /** Punch card as of this order — signed-in customers only */
+  loyalty?: LoyaltyStatus;
   /** When the message was created — shown as a timestamp below the bubble */
   timestamp: Date;
 };
@@ -38,6 +52,13 @@ type ApiMessage = { role: "user" | "assistant"; content: string };
 const GREETING_TEXT =
   "Hey there! I'm Alex, your cashier at NYC Coffee. You can check out our menu with the 'View Menu' button above, or just tell me what you're in the mood for — I'm happy to help you pick something out!";
 
+/** Signed-in customers are welcomed back by name. */
+function greetingText(name?: string | null): string {
+  return name
+    ? `Welcome back, ${name}! Want your usual, or something different today?`
+    : GREETING_TEXT;
+}
+
 function makeGreeting(): ChatMessage {
   return {
     id: "greeting",
@@ -47,40 +68,11 @@ function makeGreeting(): ChatMessage {
   };
 }
 
-// Regex to detect and extract the JSON receipt block the AI emits.
-const RECEIPT_REGEX = /```json\s*(\{[\s\S]*?\})\s*```/;
-
 // ---- Helpers ----
 
-/**
- * Parses an order receipt block (order_complete or order_update) from
- * the AI response text. Returns null if no valid block is found.
- */
-function parseReceipt(text: string): OrderReceipt | null {
-  const match = text.match(RECEIPT_REGEX);
-  if (!match) return null;
-  try {
-    const data = JSON.parse(match[1]) as OrderReceipt;
-    if (
-      (data.type === "order_complete" || data.type === "order_update") &&
-      Array.isArray(data.items)
-    ) {
-      return data;
-    }
-    return null;
-  } catch {
-    return null;
-  }
-}
-
-function stripReceiptBlock(text: string): string {
-  return text.replace(RECEIPT_REGEX, "").trim();
-}
-
 /**
  * Converts internal ChatMessage history to the API format.
  * - Excludes the hardcoded greeting (shown in UI only).
- * - For receipt messages, uses rawContent so the AI sees the original JSON.
  * - Ensures the array starts with a user message (Anthropic requirement).
  */
 function toApiMessages(messages: ChatMessage[]): ApiMessage[] {
@@ -90,7 +82,7 @@ function toApiMessages(messages: ChatMessage[]): ApiMessage[] {
       role: (m.role === "cashier" ? "assistant" : "user") as
         | "user"
         | "assistant",
-      content: m.rawContent ?? m.content,
+      content: m.content,
     }));
 
   while (mapped.length > 0 && mapped[0].role === "assistant") {
@@ -116,7 +108,17 @@ export function ChatInterface() {
   ]);
   const [isTyping, setIsTyping] = useState(false);
   const [isResponding, setIsResponding] = useState(false);
+  const menu = useMenu();
   const [menuOpen, setMenuOpen] = useState(false);
+  const { account, refresh: refreshAccount } = useCustomer();
+  const [accountOpen, setAccountOpen] = useState(false);
+  /** The greeting bubble follows sign-in, so it's rendered from here, not stored. */
+  const greeting = greetingText(account?.customer.name);
+  /**
+   * Latest server-side cart for this session, rendered above ChatInput.
+   * null once the order is placed (the receipt card takes over).
+   */
+  const [cart, setCart] = useState<Cart | null>(null);
 
   // ── Splash / first-interaction gate ──────────────────────────────────────────
   /**
@@ -165,6 +167,11 @@ export function ChatInterface() {
    * Used to find and update the existing receipt in state.
    */
   const modifyingReceiptMsgIdRef = useRef<string | null>(null);
+  /**
+   * Chat session id — the server keys its cart by this. Generated lazily
+   * on the first send and cleared by "Start New Order".
+   */
+  const sessionIdRef = useRef<string | null>(null);
 
   useEffect(() => { voiceModeRef.current = voiceMode; }, [voiceMode]);
   useEffect(() => { isMutedRef.current = isMuted; }, [isMuted]);
@@ -235,8 +242,8 @@ export function ChatInterface() {
   const handleBegin = useCallback(() => {
     setHasStarted(true);
     // Inside a click handler → browser allows audio from here on
-    speakMessage("greeting", GREETING_TEXT).catch(() => {});
-  }, [speakMessage]);
+    speakMessage("greeting", greeting).catch(() => {});
+  }, [speakMessage, greeting]);
 
   const handleBeginText = useCallback(() => {
     setHasStarted(true);
@@ -252,13 +259,15 @@ export function ChatInterface() {
     ttsEndedWhileRespondingRef.current = false;
     modifyingOrderIdRef.current = null;
     modifyingReceiptMsgIdRef.current = null;
+    sessionIdRef.current = null;
+    setCart(null);
     setMessages([makeGreeting()]);
     setIsTyping(false);
     setIsResponding(false);
     isRespondingRef.current = false;
     // User has already interacted — TTS is unblocked; play fresh greeting
-    speakMessage("greeting", GREETING_TEXT).catch(() => {});
-  }, [stop, clearAutoListenTimer, speakMessage]);
+    speakMessage("greeting", greeting).catch(() => {});
+  }, [stop, clearAutoListenTimer, speakMessage, greeting]);
 
   // ── Modify order handler ──────────────────────────────────────────────────────
   /**
@@ -267,12 +276,23 @@ export function ChatInterface() {
    * message, and activates the mic / TTS.
    */
   const handleModifyOrder = useCallback(
-    (receiptMsgId: string, orderId: string) => {
+    (receiptMsgId: string, orderId: string, receipt: OrderReceipt) => {
       // Reopen the order flow
       orderCompleteRef.current = false;
       ttsEndedWhileRespondingRef.current = false;
       modifyingOrderIdRef.current = orderId;
       modifyingReceiptMsgIdRef.current = receiptMsgId;
+      // The session cart still holds the placed items — show them again
+      setCart({
+        items: receipt.items,
+        customer_name: receipt.customer_name ?? null,
+        promo_code: receipt.promo_code ?? null,
+        discounts: receipt.discounts ?? [],
+        tip: receipt.tip ?? 0,
+        tip_percent: null,
+        free_drink: receipt.free_drink ?? false,
+        pickup_at: receipt.pickup_at ?? null,
+      });
 
       const modMsg: ChatMessage = {
         id: `cashier-${Date.now()}`,
@@ -288,6 +308,27 @@ export function ChatInterface() {
     [speakMessage]
   );
 
+  /**
+   * Called by ReceiptCard when the barista marks the order ready.
+   * Posts the announcement as a cashier message and speaks it — even in
+   * text mode, like a barista calling out the name; only mute silences it.
+   */
+  const handleOrderReady = useCallback(
+    (announcement: string) => {
+      const readyMsg: ChatMessage = {
+        id: `cashier-ready-${Date.now()}`,
+        role: "cashier",
+        content: `${announcement}!`,
+        timestamp: new Date(),
+      };
+      setMessages((prev) => [...prev, readyMsg]);
+      if (!isMutedRef.current) {
+        speakMessage(readyMsg.id, readyMsg.content).catch(() => {});
+      }
+    },
+    [speakMessage]
+  );
+
   // ── Main send handler ────────────────────────────────────────────────────────
   const handleSend = useCallback(
     async (text: string) => {
@@ -313,28 +354,50 @@ export function ChatInterface() {
 
       const apiMessages = toApiMessages(historySnapshot);
 
+      if (!sessionIdRef.current) sessionIdRef.current = crypto.randomUUID();
+
+      const mode: ChatMode = modifyingOrderIdRef.current
+        ? "modify"
+        : orderCompleteRef.current
+        ? "placed"
+        : "new";
+
       try {
         const response = await fetch("/api/chat", {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ messages: apiMessages }),
+          headers: { "Content-Type": "application/json", ...(await authHeaders()) },
+          body: JSON.stringify({
+            messages: apiMessages,
+            sessionId: sessionIdRef.current,
+            mode,
+            orderId: modifyingOrderIdRef.current,
+          }),
         });
 
         if (!response.ok) throw new Error(`API returned ${response.status}`);
         if (!response.body) throw new Error("No response body");
 
-        const reader = response.body.getReader();
-        const decoder = new TextDecoder();
         let fullContent = "";
+        let receipt: OrderReceipt | null = null;
         let streamingId: string | null = null;
         const streamingTimestamp = new Date();
 
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
+        for await (const event of readChatEvents(response.body)) {
+          if (event.type === "cart") {
+            setCart(event.cart);
+            continue;
+          }
+          if (event.type === "receipt") {
+            receipt = event.receipt;
+            continue;
+          }
+          if (event.type === "tool") {
+            if (!event.ok) console.warn(`[ChatInterface] ${event.name}:`, event.message);
+            continue;
+          }
 
-          const chunk = decoder.decode(value, { stream: true });
-          fullContent += chunk;
+          fullContent +=
+            event.type === "text" ? event.text : `\n\n${event.message}`;
 
           if (!streamingId) {
             streamingId = `cashier-${Date.now()}`;
@@ -355,7 +418,6 @@ export function ChatInterface() {
               )
             );
           }
-
         }
 
         if (!streamingId) {
@@ -373,28 +435,65 @@ export function ChatInterface() {
         }
 
         // ── Receipt handling ──────────────────────────────────────────────────
-        const receipt = parseReceipt(fullContent);
-        const displayContent = receipt
-          ? stripReceiptBlock(fullContent)
-          : fullContent;
+        const displayContent = fullContent.trim();
+
+        /**
+         * Tell the customer why their order didn't go through. The note is
+         * part of the assistant turn so the AI sees it next time.
+         */
+        const showNote = (note: string) => {
+          setMessages((prev) =>
+            prev.map((m) =>
+              m.id === streamingId
+                ? {
+                    ...m,
+                    content: `${displayContent}\n\n${note}`.trim(),
+                  }
+                : m
+            )
+          );
+          if (voiceModeRef.current && !isMutedRef.current) {
+            speakMessage(streamingId!, note);
+          }
+        };
+
+        /**
+         * The server re-prices every receipt and refuses anything that isn't
+         * on the menu. Keep the order open and say why.
+         */
+        const showRejection = (err: OrderRejectedError) =>
+          showNote(`Sorry, I can't ring that up — ${err.message} What would you like instead?`);
 
         if (receipt?.type === "order_update" &&
             modifyingOrderIdRef.current &&
             modifyingReceiptMsgIdRef.current) {
-          // ── UPDATE existing order in Supabase ─────────────────────────────
+          // ── UPDATE existing order via /api/orders/:id ─────────────────────
           const savedModReceiptMsgId = modifyingReceiptMsgIdRef.current;
+          let pricedReceipt = receipt;
 
           try {
-            await updateOrder(
+            ({ receipt: pricedReceipt } = await submitOrderUpdate(
               modifyingOrderIdRef.current,
-              receipt.items,
-              receipt.total_price
-            );
+              receipt
+            ));
           } catch (err) {
-            console.error("[ChatInterface] updateOrder failed:", err);
+            // Nothing was saved: the order stays in "modifying" mode and the
+            // receipt card keeps showing the order as it stands.
+            if (err instanceof OrderRejectedError) {
+              showRejection(err);
+            } else if (err instanceof OrderConflictError) {
+              showNote(
+                "Sorry — the barista's already started on your order, so it can't be changed anymore. Ask at the counter if you need something different."
+              );
+            } else {
+              console.error("[ChatInterface] submitOrderUpdate failed:", err);
+              showNote("Sorry, I couldn't save that change — your order is still as it was. Want to try again?");
+            }
+            return;
           }
 
           // Clear modification state + lock out auto-listen
+          setCart(null);
           modifyingOrderIdRef.current = null;
           modifyingReceiptMsgIdRef.current = null;
           orderCompleteRef.current = true;
@@ -405,27 +504,37 @@ export function ChatInterface() {
           setMessages((prev) =>
             prev.map((m) => {
               if (m.id === streamingId) {
-                return { ...m, content: displayContent, rawContent: fullContent };
+                return { ...m, content: displayContent };
               }
               if (m.id === savedModReceiptMsgId) {
-                return { ...m, receipt };
+                return { ...m, receipt: pricedReceipt };
               }
               return m;
             })
           );
         } else if (receipt?.type === "order_complete") {
-          // ── SAVE new order to Supabase ────────────────────────────────────
+          // ── SAVE new order via /api/orders ────────────────────────────────
           let orderNumber = 0;
           let savedOrderId: string | undefined;
+          let loyalty: LoyaltyStatus | undefined;
+          let pricedReceipt = receipt;
           try {
-            const saved = await saveOrder(receipt);
-            orderNumber = saved.order_number;
-            savedOrderId = saved.id;
+            const saved = await submitOrder(receipt);
+            orderNumber = saved.order.order_number;
+            savedOrderId = saved.order.id;
+            pricedReceipt = saved.receipt;
+            loyalty = saved.loyalty ?? undefined;
+            refreshAccount();
           } catch (err) {
-            console.error("[ChatInterface] saveOrder failed:", err);
+            if (err instanceof OrderRejectedError) {
+              showRejection(err);
+              return;
+            }
+            console.error("[ChatInterface] submitOrder failed:", err);
           }
 
           // Order complete — stop listening and lock out auto-listen
+          setCart(null);
           orderCompleteRef.current = true;
           clearAutoListenTimer();
           stopListeningRef.current();
@@ -436,10 +545,10 @@ export function ChatInterface() {
                 ? {
                     ...m,
                     content: displayContent,
-                    rawContent: fullContent,
-                    receipt,
+                    receipt: pricedReceipt,
                     orderNumber,
                     orderId: savedOrderId,
+                    loyalty,
                   }
                 : m
             )
@@ -483,7 +592,7 @@ export function ChatInterface() {
         }
       }
     },
-    [messages, speakMessage, stop, clearAutoListenTimer, activateMic]
+    [messages, speakMessage, stop, clearAutoListenTimer, activateMic, refreshAccount]
   );
 
   // ── Menu item selection ───────────────────────────────────────────────────────
@@ -495,6 +604,16 @@ export function ChatInterface() {
     [handleSend]
   );
 
+  // ── "Order again" from the account drawer ─────────────────────────────────────
+  const handleReorder = useCallback(
+    (order: OrderWithItems) => {
+      setAccountOpen(false);
+      const day = formatBusinessDay(new Date(order.created_at)).toLowerCase();
+      handleSend(`Same as my order from ${day}, please: ${describeOrderItems(order, menu)}`);
+    },
+    [handleSend, menu]
+  );
+
   // ── Speech recognition ───────────────────────────────────────────────────────
   const onFinalSpeech = useCallback(
     (text: string) => {
@@ -553,9 +672,17 @@ export function ChatInterface() {
     >
       <MenuDrawer
         open={menuOpen}
+        menu={menu}
         onClose={() => setMenuOpen(false)}
         onSelectItem={handleSelectItem}
       />
+      <AccountDrawer
+        open={accountOpen}
+        account={account}
+        menu={menu}
+        onClose={() => setAccountOpen(false)}
+        onReorder={handleReorder}
+      />
 
       {/* ── Welcome / splash overlay ───────────────────────────────────────────
           Shown until the user's first tap. The click handler counts as a browser
@@ -676,6 +803,20 @@ export function ChatInterface() {
             )}
           </button>
 
+          {/* Account — sign in / order history */}
+          <button
+            type="button"
+            onClick={() => setAccountOpen(true)}
+            aria-label={account ? "Your account" : "Sign in"}
+            className="flex items-center gap-1.5 h-9 px-2 rounded-lg text-sm transition-opacity hover:opacity-70"
+            style={{ color: "#FAF3E8", opacity: account ? 0.9 : 0.6 }}
+          >
+            <UserRound className="w-5 h-5" />
+            {account?.customer.name && (
+              <span className="hidden sm:inline">{account.customer.name}</span>
+            )}
+          </button>
+
           {/* View Menu */}
           <button
             type="button"
@@ -718,29 +859,33 @@ export function ChatInterface() {
                   <ReceiptCard
                     receipt={msg.receipt}
                     orderNumber={msg.orderNumber ?? 0}
+                    menu={menu}
                     orderId={msg.orderId}
+                    loyalty={msg.loyalty}
                     onNewOrder={handleNewOrder}
                     onModifyOrder={
                       msg.orderId
-                        ? () => handleModifyOrder(msg.id, msg.orderId!)
+                        ? () => handleModifyOrder(msg.id, msg.orderId!, msg.receipt!)
                         : undefined
                     }
+                    onReady={handleOrderReady}
                   />
                 </div>
               </div>
             );
           }
 
+          const content = msg.id === "greeting" ? greeting : msg.content;
           return (
             <MessageBubble
               key={msg.id}
               role={msg.role}
-              content={msg.content}
+              content={content}
               timestamp={msg.timestamp}
               isSpeaking={speakingMessageId === msg.id && isSpeaking}
               onReplay={
                 msg.role === "cashier" && voiceMode && !isMuted
-                  ? () => speakMessage(msg.id, msg.content)
+                  ? () => speakMessage(msg.id, content)
                   : undefined
               }
             />
@@ -751,6 +896,9 @@ export function ChatInterface() {
         <div ref={messagesEndRef} />
       </div>
 
+      {/* Live cart */}
+      {cart && <CartPanel cart={cart} menu={menu} />}
+
       {/* Input bar */}
       <ChatInput
         onSend={handleSend}
@@ -4,29 +4,80 @@
 // ============================================================
 // Collapsible menu drawer triggered by the "View Menu" button.
 // Slides in from the right as an overlay panel.
-// Pulls all data from src/lib/menu.ts — nothing hardcoded.
+// Renders the live menu passed in by ChatInterface (useMenu) —
+// nothing hardcoded.
 // Each drink / pastry is tappable: fires onSelectItem(name).
+// Sold-out (86'd) entries are greyed out and can't be tapped.
+// Items show their allergens and calories; the "Avoid" chips hide
+// anything that can't be made without the chosen allergens.
+// Price rules running now (happy hour) get a banner and a tag on
+// each drink or pastry they cover.
 // ============================================================
 
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { X } from "lucide-react";
 import {
-  DRINKS,
-  PASTRIES,
-  MILK_OPTIONS,
-  ADD_ONS,
+  ALLERGENS,
   SWEETNESS_LEVELS,
   ICE_LEVELS,
+  formatAddOnPrice,
+  formatGroupRange,
+  groupAddOns,
+  shortSizeLabel,
+  type Allergen,
+  type DrinkItem,
+  type Menu,
+  type PastryItem,
+  type PriceRule,
 } from "@/lib/menu";
+import { isAvailable } from "@/lib/availability";
+import { drinkAllergenFit, drinkAllergens } from "@/lib/nutrition";
+import {
+  activePriceRules,
+  applyPriceRule,
+  bestPriceRule,
+  describePriceRuleItems,
+} from "@/lib/price-rules";
+import { formatClock } from "@/lib/business-time";
 
 interface MenuDrawerProps {
   open: boolean;
+  menu: Menu;
   onClose: () => void;
   /** Called with the item name when a customer taps a drink or pastry. */
   onSelectItem?: (itemName: string) => void;
 }
 
-export function MenuDrawer({ open, onClose, onSelectItem }: MenuDrawerProps) {
+/** "190–250 cal" across a drink's sizes, or null without data. */
+function calorieRange(drink: DrinkItem): string | null {
+  const cals = drink.sizes.map((s) => s.nutrition?.calories);
+  if (cals.length === 0 || cals.some((c) => c === undefined)) return null;
+  const min = Math.min(...(cals as number[]));
+  const max = Math.max(...(cals as number[]));
+  return min === max ? `${min} cal` : `${min}–${max} cal`;
+}
+
+/** Running rules that cover a drink, with the temp each one needs when it doesn't cover them all. */
+function drinkDeals(drink: DrinkItem, rules: PriceRule[]): { rule: PriceRule; temp: string | null }[] {
+  const best = drink.temps.map((t) => bestPriceRule(rules, { drink }, t));
+  const covered = best.filter((r): r is PriceRule => r !== undefined);
+  return [...new Set(covered)].map((rule) => ({
+    rule,
+    temp: best.every((r) => r === rule) ? null : drink.temps[best.indexOf(rule)],
+  }));
+}
+
+export function MenuDrawer({ open, menu, onClose, onSelectItem }: MenuDrawerProps) {
+  const [avoid, setAvoid] = useState<Allergen[]>([]);
+  // Clock for price rules — ticks once a minute while the drawer is open.
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    if (!open) return;
+    const timer = setInterval(() => setNow(new Date()), 60_000);
+    return () => clearInterval(timer);
+  }, [open]);
+
   // Close on Escape key
   useEffect(() => {
     if (!open) return;
@@ -45,8 +96,18 @@ export function MenuDrawer({ open, onClose, onSelectItem }: MenuDrawerProps) {
     };
   }, [open]);
 
-  const coffeeDrinks = DRINKS.filter((d) => d.category === "coffee");
-  const teaDrinks = DRINKS.filter((d) => d.category === "tea");
+  const toggleAvoid = (a: Allergen) =>
+    setAvoid((prev) => (prev.includes(a) ? prev.filter((x) => x !== a) : [...prev, a]));
+
+  // Drinks that fit the allergen filter, with the milk swap that makes them fit.
+  const fittingDrinks = menu.drinks.flatMap((drink) => {
+    const fit = drinkAllergenFit(drink, avoid, menu);
+    return fit.ok ? [{ drink, swapTo: fit.swapTo }] : [];
+  });
+  const coffeeDrinks = fittingDrinks.filter(({ drink }) => drink.category === "coffee");
+  const teaDrinks = fittingDrinks.filter(({ drink }) => drink.category === "tea");
+  const pastries = menu.pastries.filter((p) => !p.allergens.some((a) => avoid.includes(a)));
+  const rules = activePriceRules(menu, now);
 
   /** Close drawer then notify parent — order matters so the drawer animates out. */
   const handleSelect = (name: string) => {
@@ -58,8 +119,93 @@ export function MenuDrawer({ open, onClose, onSelectItem }: MenuDrawerProps) {
   const tappableRow =
     "w-full text-left flex justify-between items-start gap-3 px-2 -mx-2 py-1.5 rounded-lg transition-colors " +
     (onSelectItem
-      ? "cursor-pointer hover:bg-amber-50 active:bg-amber-100"
-      : "");
+      ? "cursor-pointer hover:bg-amber-50 active:bg-amber-100 "
+      : "") +
+    "disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent";
+
+  const soldOutLabel = (
+    <span className="ml-1.5 text-[10px] font-semibold uppercase tracking-wide text-red-600">
+      Sold out
+    </span>
+  );
+
+  const allergenBadges = (allergens: Allergen[]) =>
+    allergens.length > 0 && (
+      <span className="flex flex-wrap gap-1 mt-1">
+        {allergens.map((a) => (
+          <span
+            key={a}
+            className="text-[10px] leading-none px-1.5 py-0.5 rounded-full bg-amber-50 text-amber-800 border border-amber-200"
+          >
+            {a}
+          </span>
+        ))}
+      </span>
+    );
+
+  const dealTag = (text: string) => (
+    <span className="inline-block mt-1 mr-1 text-[10px] leading-none px-1.5 py-0.5 rounded-full bg-emerald-50 text-emerald-700 border border-emerald-200">
+      {text}
+    </span>
+  );
+
+  // Struck-through regular price above the rule price when one applies.
+  const pastryPrice = (pastry: PastryItem) => {
+    const rule = bestPriceRule(rules, { pastry });
+    if (!rule) return <span className="text-stone-600">${pastry.price.toFixed(2)}</span>;
+    return (
+      <>
+        <span className="text-stone-400 line-through">${pastry.price.toFixed(2)}</span>
+        <br />
+        <span className="text-emerald-700">${applyPriceRule(pastry.price, rule).toFixed(2)}</span>
+      </>
+    );
+  };
+
+  const emptyNote = (
+    <p className="text-[12px] text-stone-400 italic">Nothing here without those allergens.</p>
+  );
+
+  const renderDrink = ({ drink, swapTo }: (typeof fittingDrinks)[number]) => {
+    const calories = calorieRange(drink);
+    return (
+      <button
+        key={drink.name}
+        type="button"
+        onClick={() => handleSelect(drink.name)}
+        disabled={!isAvailable(drink)}
+        className={tappableRow}
+        aria-label={isAvailable(drink) ? `Order ${drink.name}` : `${drink.name} — sold out`}
+      >
+        <div className="flex-1 min-w-0">
+          <p className="text-[14px] text-stone-800 font-medium leading-snug">
+            {drink.name}
+            {!isAvailable(drink) && soldOutLabel}
+          </p>
+          <p className="text-[12px] text-stone-400 mt-0.5 capitalize">
+            {drink.temps.join(" · ")}
+            {drink.isBlended ? " · blended" : ""}
+            {calories ? ` · ${calories}` : ""}
+          </p>
+          {swapTo ? (
+            <p className="text-[11px] text-emerald-700 mt-0.5">Ask for {swapTo.label}</p>
+          ) : (
+            allergenBadges(drinkAllergens(drink, menu))
+          )}
+          {drinkDeals(drink, rules).map(({ rule, temp }) => (
+            <span key={rule.name}>{dealTag(`${rule.percentOff}% off${temp ? ` ${temp}` : ""}`)}</span>
+          ))}
+        </div>
+        <div className="text-right shrink-0">
+          {drink.sizes.map((size) => (
+            <p key={size.name} className="text-[13px] text-stone-600" title={`${size.oz}oz`}>
+              {shortSizeLabel(size.name)}&nbsp;&nbsp;${size.price.toFixed(2)}
+            </p>
+          ))}
+        </div>
+      </button>
+    );
+  };
 
   return (
     <>
@@ -99,40 +245,56 @@ export function MenuDrawer({ open, onClose, onSelectItem }: MenuDrawerProps) {
         {/* Scrollable menu content */}
         <div className="flex-1 overflow-y-auto px-5 py-5 space-y-6">
 
-          {/* ---- Coffee ---- */}
+          {/* ---- Price rules running now ---- */}
+          {rules.length > 0 && (
+            <section className="rounded-lg bg-emerald-50 border border-emerald-200 px-3 py-2.5 space-y-1">
+              {rules.map((rule) => (
+                <p key={rule.name} className="text-[13px] text-emerald-800">
+                  <span className="font-semibold">{rule.name}</span>
+                  {" — "}
+                  {describePriceRuleItems(rule)} {rule.percentOff}% off until {formatClock(rule.endTime)}
+                </p>
+              ))}
+            </section>
+          )}
+
+          {/* ---- Allergen filter ---- */}
           <section>
-            <p className="text-[10px] font-semibold uppercase tracking-widest text-stone-400 mb-3">
-              Coffee
+            <p className="text-[10px] font-semibold uppercase tracking-widest text-stone-400 mb-2">
+              Avoid
             </p>
-            <div className="space-y-1">
-              {coffeeDrinks.map((drink) => (
+            <div className="flex flex-wrap gap-1.5">
+              {ALLERGENS.map((a) => (
                 <button
-                  key={drink.name}
+                  key={a}
                   type="button"
-                  onClick={() => handleSelect(drink.name)}
-                  className={tappableRow}
-                  aria-label={`Order ${drink.name}`}
+                  onClick={() => toggleAvoid(a)}
+                  aria-pressed={avoid.includes(a)}
+                  className={`text-[12px] px-2.5 py-1 rounded-full border transition-colors ${
+                    avoid.includes(a)
+                      ? "bg-stone-900 text-white border-stone-900"
+                      : "bg-white text-stone-600 border-stone-200 hover:border-stone-400"
+                  }`}
                 >
-                  <div className="flex-1 min-w-0">
-                    <p className="text-[14px] text-stone-800 font-medium leading-snug">
-                      {drink.name}
-                    </p>
-                    <p className="text-[12px] text-stone-400 mt-0.5 capitalize">
-                      {drink.temps.join(" · ")}
-                      {drink.isBlended ? " · blended" : ""}
-                    </p>
-                  </div>
-                  <div className="text-right shrink-0">
-                    <p className="text-[13px] text-stone-600">
-                      S&nbsp;&nbsp;${drink.sizes.small.toFixed(2)}
-                    </p>
-                    <p className="text-[13px] text-stone-600">
-                      L&nbsp;&nbsp;${drink.sizes.large.toFixed(2)}
-                    </p>
-                  </div>
+                  {a}
                 </button>
               ))}
             </div>
+            <p className="text-[11px] text-stone-400 mt-2">
+              Shared equipment — we can&apos;t rule out cross-contact.
+            </p>
+          </section>
+
+          <div className="border-t border-stone-100" />
+
+          {/* ---- Coffee ---- */}
+          <section>
+            <p className="text-[10px] font-semibold uppercase tracking-widest text-stone-400 mb-3">
+              Coffee
+            </p>
+            <div className="space-y-1">
+              {coffeeDrinks.length > 0 ? coffeeDrinks.map(renderDrink) : emptyNote}
+            </div>
           </section>
 
           <div className="border-t border-stone-100" />
@@ -143,32 +305,7 @@ export function MenuDrawer({ open, onClose, onSelectItem }: MenuDrawerProps) {
               Tea
             </p>
             <div className="space-y-1">
-              {teaDrinks.map((drink) => (
-                <button
-                  key={drink.name}
-                  type="button"
-                  onClick={() => handleSelect(drink.name)}
-                  className={tappableRow}
-                  aria-label={`Order ${drink.name}`}
-                >
-                  <div className="flex-1 min-w-0">
-                    <p className="text-[14px] text-stone-800 font-medium leading-snug">
-                      {drink.name}
-                    </p>
-                    <p className="text-[12px] text-stone-400 mt-0.5 capitalize">
-                      {drink.temps.join(" · ")}
-                    </p>
-                  </div>
-                  <div className="text-right shrink-0">
-                    <p className="text-[13px] text-stone-600">
-                      S&nbsp;&nbsp;${drink.sizes.small.toFixed(2)}
-                    </p>
-                    <p className="text-[13px] text-stone-600">
-                      L&nbsp;&nbsp;${drink.sizes.large.toFixed(2)}
-                    </p>
-                  </div>
-                </button>
-              ))}
+              {teaDrinks.length > 0 ? teaDrinks.map(renderDrink) : emptyNote}
             </div>
           </section>
 
@@ -180,16 +317,27 @@ export function MenuDrawer({ open, onClose, onSelectItem }: MenuDrawerProps) {
               Pastries
             </p>
             <div className="space-y-1">
-              {PASTRIES.map((item) => (
+              {pastries.length === 0 && emptyNote}
+              {pastries.map((item) => (
                 <button
                   key={item.name}
                   type="button"
                   onClick={() => handleSelect(item.name)}
+                  disabled={!isAvailable(item)}
                   className={tappableRow}
-                  aria-label={`Order ${item.name}`}
+                  aria-label={isAvailable(item) ? `Order ${item.name}` : `${item.name} — sold out`}
                 >
-                  <p className="text-[14px] text-stone-800">{item.name}</p>
-                  <p className="text-[13px] text-stone-600">${item.price.toFixed(2)}</p>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-[14px] text-stone-800">
+                      {item.name}
+                      {!isAvailable(item) && soldOutLabel}
+                    </p>
+                    {item.nutrition && (
+                      <p className="text-[12px] text-stone-400 mt-0.5">{item.nutrition.calories} cal</p>
+                    )}
+                    {allergenBadges(item.allergens)}
+                  </div>
+                  <p className="text-[13px] text-right">{pastryPrice(item)}</p>
                 </button>
               ))}
             </div>
@@ -203,9 +351,18 @@ export function MenuDrawer({ open, onClose, onSelectItem }: MenuDrawerProps) {
               Milk Options
             </p>
             <div className="space-y-2">
-              {MILK_OPTIONS.map((m) => (
-                <div key={m.name} className="flex justify-between items-center gap-3">
-                  <p className="text-[14px] text-stone-800">{m.label}</p>
+              {menu.milkOptions.map((m) => (
+                <div
+                  key={m.name}
+                  className={`flex justify-between items-center gap-3 ${isAvailable(m) ? "" : "opacity-40"}`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="text-[14px] text-stone-800">
+                      {m.label}
+                      {!isAvailable(m) && soldOutLabel}
+                    </p>
+                    {allergenBadges(m.allergens)}
+                  </div>
                   <p className="text-[13px] text-stone-500">
                     {m.upcharge === 0 ? "free" : `+$${m.upcharge.toFixed(2)}`}
                   </p>
@@ -221,18 +378,39 @@ export function MenuDrawer({ open, onClose, onSelectItem }: MenuDrawerProps) {
             <p className="text-[10px] font-semibold uppercase tracking-widest text-stone-400 mb-3">
               Add-Ons
             </p>
-            <div className="space-y-2">
-              {ADD_ONS.map((addon) => (
-                <div key={addon.name} className="flex justify-between items-center gap-3">
-                  <div className="flex-1">
-                    <p className="text-[14px] text-stone-800">{addon.name}</p>
-                    <p className="text-[12px] text-stone-400">max {addon.maxQty}</p>
+            <div className="space-y-4">
+              {menu.modifierGroups.map((group) => {
+                const addOns = groupAddOns(group, menu);
+                if (group.active === false || addOns.length === 0) return null;
+                return (
+                  <div key={group.name} className="space-y-2">
+                    <p className="text-[12px] text-stone-500">
+                      <span className="font-medium text-stone-700">{group.name}</span>
+                      {" · "}choose {formatGroupRange(group)}
+                    </p>
+                    {addOns.map((addon) => (
+                      <div
+                        key={addon.name}
+                        className={`flex justify-between items-center gap-3 ${isAvailable(addon) ? "" : "opacity-40"}`}
+                      >
+                        <div className="flex-1">
+                          <p className="text-[14px] text-stone-800">
+                            {addon.name}
+                            {!isAvailable(addon) && soldOutLabel}
+                          </p>
+                          {addon.maxQty < group.max && (
+                            <p className="text-[12px] text-stone-400">max {addon.maxQty}</p>
+                          )}
+                          {allergenBadges(addon.allergens)}
+                        </div>
+                        <p className="text-[13px] text-stone-600 shrink-0">
+                          +{formatAddOnPrice(addon, group)}
+                        </p>
+                      </div>
+                    ))}
                   </div>
-                  <p className="text-[13px] text-stone-600 shrink-0">
-                    +${addon.price.toFixed(2)} each
-                  </p>
-                </div>
-              ))}
+                );
+              })}
             </div>
           </section>
 
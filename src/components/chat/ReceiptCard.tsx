@@ -5,14 +5,49 @@
 // Paper-receipt styled order card.
 // - Plays a confirmation chime on first mount
 // - Subscribes to Supabase realtime for live order status
-// - Shows "Modify order" link while status is still "new"
+// - Announces "ready" with a louder chime, a background-tab
+//   notification and onReady (spoken by ChatInterface)
+// - Shows "Modify order" and "Cancel" while status is still "new"
+// - "Pay now" step — card, pay-online link or cash at the counter
+//   (see src/lib/payments.ts); payment status is kept live too
+// - Loyalty punch card for signed-in customers (src/lib/loyalty.ts)
+// - QR code / link to /order/[id], which keeps tracking the order
+//   after this tab is closed
 // ============================================================
 
-import { useEffect, useState } from "react";
-import { RotateCcw, Clock, Flame, CheckCircle } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import {
+  RotateCcw,
+  Clock,
+  Flame,
+  CheckCircle,
+  XCircle,
+  CreditCard,
+  Globe,
+  Banknote,
+} from "lucide-react";
 import { createClient } from "@supabase/supabase-js";
 import type { OrderReceipt, ReceiptItem } from "@/lib/order-service";
-import { playOrderSound } from "@/lib/sounds";
+import type { Order, OrderStatus, PaymentMethod } from "@/lib/types";
+import { ORDER_TRANSITIONS } from "@/lib/order-status";
+import {
+  cancelOrder,
+  orderTrackingUrl,
+  payOrder,
+  PaymentDeclinedError,
+} from "@/lib/order-client";
+import { QrCode } from "@/components/QrCode";
+import { PAYMENT_METHOD_LABELS, paymentDue } from "@/lib/payments";
+import { playOrderSound, playReadySound } from "@/lib/sounds";
+import { buildReadyMessage } from "@/lib/notifier";
+import { shortSizeLabel, type Menu } from "@/lib/menu";
+import {
+  notifyIfHidden,
+  requestNotificationPermission,
+} from "@/lib/browser-notifications";
+import { formatOrderNumber } from "@/lib/order-numbering";
+import { PUNCHES_PER_REWARD, type LoyaltyStatus } from "@/lib/loyalty";
+import { formatPickupTime } from "@/lib/scheduling";
 
 // Lightweight Supabase client for realtime subscription
 const db = createClient(
@@ -22,31 +57,38 @@ const db = createClient(
 
 // ── Types ────────────────────────────────────────────────────────────────────
 
-type OrderStatus = "new" | "in_progress" | "completed";
-
 interface ReceiptCardProps {
   receipt: OrderReceipt;
   orderNumber: number;
+  menu: Menu;
   /** Supabase order UUID — used for realtime status updates and modify link */
   orderId?: string;
+  /** Punch card after this order — omitted for guests. */
+  loyalty?: LoyaltyStatus;
   onNewOrder: () => void;
   /**
    * Called when the customer taps "Modify order".
    * Only rendered when status is "new" and orderId is set.
    */
   onModifyOrder?: () => void;
+  /**
+   * Called once when the barista marks the order ready, with the
+   * announcement text ("Sarah, your large iced latte is ready").
+   */
+  onReady?: (announcement: string) => void;
 }
 
 // ── Helpers ──────────────────────────────────────────────────────────────────
 
 function itemLabel(item: ReceiptItem): string {
-  const size = item.size === "large" ? "Lg" : "Sm";
+  const size = shortSizeLabel(item.size);
   const temp = item.temp === "iced" ? " Iced" : "";
   return `${size}${temp} ${item.item_name}`;
 }
 
 function itemMods(item: ReceiptItem): string {
   const parts: string[] = [];
+  if (item.caffeine && item.caffeine !== "regular") parts.push(item.caffeine);
   if (item.milk && item.milk !== "whole") parts.push(`${item.milk} milk`);
   if (item.sweetness && item.sweetness !== "regular") parts.push(item.sweetness);
   if (item.ice_level && item.ice_level !== "regular" && item.temp === "iced") {
@@ -59,6 +101,66 @@ function itemMods(item: ReceiptItem): string {
 
 const DASHES = "- - - - - - - - - - - - - - - - - - - - - - -";
 
+type PaymentFields = Pick<
+  Order,
+  "payment_status" | "payment_method" | "amount_paid" | "grand_total"
+>;
+
+const PAYMENT_ICONS: Record<PaymentMethod, React.FC<{ className?: string }>> = {
+  card_terminal: CreditCard,
+  online: Globe,
+  cash: Banknote,
+};
+
+/** One circle per punch; filled ones are earned. */
+function PunchCard({ loyalty }: { loyalty: LoyaltyStatus }) {
+  const toGo = PUNCHES_PER_REWARD - loyalty.punches;
+  return (
+    <div className="mt-3 text-center">
+      <p className="text-[10px] uppercase tracking-widest mb-2">Loyalty card</p>
+      <div
+        className="flex justify-center gap-1.5"
+        role="img"
+        aria-label={`${loyalty.punches} of ${PUNCHES_PER_REWARD} punches`}
+      >
+        {Array.from({ length: PUNCHES_PER_REWARD }, (_, i) => (
+          <span
+            key={i}
+            className="w-3.5 h-3.5 rounded-full border"
+            style={{
+              borderColor: "#2C1A12",
+              backgroundColor: i < loyalty.punches ? "#2C1A12" : "transparent",
+            }}
+          />
+        ))}
+      </div>
+      <p className="text-[10px] mt-2" style={{ color: loyalty.freeDrinks > 0 ? "#16A34A" : "#9A8A7A" }}>
+        {loyalty.freeDrinks > 0
+          ? "Free drink ready — just ask Alex to use it next time"
+          : `${toGo} more drink${toGo === 1 ? "" : "s"} to a free one`}
+      </p>
+    </div>
+  );
+}
+
+/** The payment line under the total while the order is live. */
+function paymentNote(payment: PaymentFields, due: number): string {
+  if (due <= 0 && payment.payment_status === "paid") return "Paid — thank you!";
+  const amount = `$${due.toFixed(2)}`;
+  if (payment.payment_status === "paid") return `${amount} still due after your changes`;
+  if (payment.payment_status === "pending") {
+    switch (payment.payment_method) {
+      case "cash":
+        return `Pay ${amount} in cash at the counter`;
+      case "online":
+        return "Finish paying in the checkout tab";
+      case "card_terminal":
+        return `Tap your card on the reader to pay ${amount}`;
+    }
+  }
+  return "Pay now, or at the counter when you pick up";
+}
+
 // ── Status config ─────────────────────────────────────────────────────────────
 
 interface StatusConfig {
@@ -78,11 +180,27 @@ const STATUS_CONFIG: Record<OrderStatus, StatusConfig> = {
     colorClass: "text-orange-600",
     Icon: ({ className }) => <Flame className={`${className ?? ""} animate-pulse`} />,
   },
+  ready: {
+    label: "Ready for pickup!",
+    colorClass: "text-emerald-600",
+    Icon: ({ className }) => <CheckCircle className={className} />,
+  },
+  picked_up: {
+    label: "Picked up — enjoy!",
+    colorClass: "text-stone-500",
+    Icon: ({ className }) => <CheckCircle className={className} />,
+  },
+  // Legacy terminal state — treated like ready
   completed: {
     label: "Ready for pickup!",
     colorClass: "text-emerald-600",
     Icon: ({ className }) => <CheckCircle className={className} />,
   },
+  cancelled: {
+    label: "Order cancelled",
+    colorClass: "text-red-600",
+    Icon: ({ className }) => <XCircle className={className} />,
+  },
 };
 
 // ── Component ─────────────────────────────────────────────────────────────────
@@ -90,17 +208,95 @@ const STATUS_CONFIG: Record<OrderStatus, StatusConfig> = {
 export function ReceiptCard({
   receipt,
   orderNumber,
+  menu,
   orderId,
+  loyalty,
   onNewOrder,
   onModifyOrder,
+  onReady,
 }: ReceiptCardProps) {
   const [status, setStatus] = useState<OrderStatus>("new");
+  const [payment, setPayment] = useState<PaymentFields>(() => ({
+    payment_status: "unpaid",
+    payment_method: null,
+    amount_paid: 0,
+    grand_total: receipt.grand_total ?? receipt.total_price,
+  }));
+  const [paying, setPaying] = useState(false);
+  const [payError, setPayError] = useState<string | null>(null);
+  const [checkoutUrl, setCheckoutUrl] = useState<string | null>(null);
+  const due = paymentDue({ status, ...payment });
+
+  async function handlePay(method: PaymentMethod) {
+    if (!orderId || paying) return;
+    setPaying(true);
+    setPayError(null);
+    try {
+      const result = await payOrder(orderId, method);
+      setPayment(result.order);
+      setCheckoutUrl(result.checkoutUrl);
+    } catch (err) {
+      setPayError(
+        err instanceof PaymentDeclinedError
+          ? err.message
+          : "Couldn't start the payment — you can still pay at the counter."
+      );
+    } finally {
+      setPaying(false);
+    }
+  }
+
+  // Double-tap Cancel guard (same pattern as the barista Complete button).
+  const [confirmingCancel, setConfirmingCancel] = useState(false);
+  const [cancelError, setCancelError] = useState<string | null>(null);
+  const confirmTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  useEffect(() => {
+    return () => {
+      if (confirmTimer.current) clearTimeout(confirmTimer.current);
+    };
+  }, []);
 
-  // Play confirmation chime once on mount
+  async function handleCancel() {
+    if (!orderId) return;
+    if (!confirmingCancel) {
+      setConfirmingCancel(true);
+      confirmTimer.current = setTimeout(() => setConfirmingCancel(false), 3000);
+      return;
+    }
+    if (confirmTimer.current) clearTimeout(confirmTimer.current);
+    setConfirmingCancel(false);
+    try {
+      const result = await cancelOrder(orderId);
+      setStatus("cancelled");
+      setPayment(result.order);
+    } catch {
+      setCancelError("Couldn't cancel — it may already be in progress. Please ask at the counter.");
+    }
+  }
+
+  // Play confirmation chime once on mount; ask now so the ready
+  // notification can reach a backgrounded tab later.
   useEffect(() => {
     playOrderSound();
+    requestNotificationPermission();
   }, []);
 
+  // "Your order is ready" moment — fires once per card.
+  const announcedRef = useRef(false);
+  useEffect(() => {
+    if (status !== "ready" || announcedRef.current) return;
+    announcedRef.current = true;
+
+    const message = buildReadyMessage(
+      { customer_name: receipt.customer_name ?? null, order_number: orderNumber },
+      receipt.items,
+      menu
+    );
+    playReadySound();
+    notifyIfHidden("Your order is ready", message, orderId ? `order-${orderId}` : undefined);
+    onReady?.(message);
+  }, [status, receipt, orderNumber, menu, orderId, onReady]);
+
   // Subscribe to realtime status updates for this order
   useEffect(() => {
     if (!orderId) return;
@@ -116,9 +312,18 @@ export function ReceiptCard({
           filter: `id=eq.${orderId}`,
         },
         (payload) => {
-          const next = (payload.new as { status?: string })?.status;
-          if (next === "new" || next === "in_progress" || next === "completed") {
-            setStatus(next);
+          const row = payload.new as Partial<Order> | undefined;
+          const next = row?.status;
+          if (next && next in ORDER_TRANSITIONS) {
+            setStatus(next as OrderStatus);
+          }
+          if (row?.payment_status) {
+            setPayment({
+              payment_status: row.payment_status,
+              payment_method: row.payment_method ?? null,
+              amount_paid: row.amount_paid ?? 0,
+              grand_total: row.grand_total ?? 0,
+            });
           }
         }
       )
@@ -130,8 +335,7 @@ export function ReceiptCard({
   }, [orderId]);
 
   const { label, colorClass, Icon } = STATUS_CONFIG[status];
-  const orderNum =
-    orderNumber > 0 ? String(orderNumber).padStart(3, "0") : "---";
+  const orderNum = orderNumber > 0 ? formatOrderNumber(orderNumber) : "#---";
 
   return (
     <div
@@ -148,19 +352,42 @@ export function ReceiptCard({
           {label}
         </span>
 
-        {/* Modify order link — only visible when the order hasn't started yet */}
-        {status === "new" && onModifyOrder && (
-          <button
-            type="button"
-            onClick={onModifyOrder}
-            className="ml-auto text-sm underline"
-            style={{ color: "#2C1A12", opacity: 0.6 }}
-          >
-            Modify order
-          </button>
+        {/* Modify / cancel — only visible when the order hasn't started yet */}
+        {status === "new" && (onModifyOrder || orderId) && (
+          <div className="ml-auto flex items-center gap-3">
+            {onModifyOrder && (
+              <button
+                type="button"
+                onClick={onModifyOrder}
+                className="text-sm underline"
+                style={{ color: "#2C1A12", opacity: 0.6 }}
+              >
+                Modify order
+              </button>
+            )}
+            {orderId && (
+              <button
+                type="button"
+                onClick={handleCancel}
+                className="text-sm underline"
+                style={{ color: confirmingCancel ? "#DC2626" : "#2C1A12", opacity: confirmingCancel ? 1 : 0.6 }}
+              >
+                {confirmingCancel ? "Tap again to cancel" : "Cancel"}
+              </button>
+            )}
+          </div>
         )}
       </div>
 
+      {cancelError && status !== "cancelled" && (
+        <p
+          className="px-4 pt-2 text-[11px]"
+          style={{ color: "#DC2626" }}
+        >
+          {cancelError}
+        </p>
+      )}
+
       {/* ── Paper receipt body ────────────────────────────────────────────── */}
       <div className="px-5 py-4 font-mono" style={{ color: "#2C1A12" }}>
         {/* Shop header */}
@@ -185,7 +412,7 @@ export function ReceiptCard({
 
         {/* Order number — large and centred so customers can spot it instantly */}
         <div className="text-center mb-2">
-          <p className="text-2xl font-bold tracking-wider">#{orderNum}</p>
+          <p className="text-2xl font-bold tracking-wider">{orderNum}</p>
           {receipt.customer_name && (
             <p
               className="text-[11px] mt-0.5"
@@ -225,6 +452,11 @@ export function ReceiptCard({
                     {mods}
                   </p>
                 )}
+                {item.price_rule && (
+                  <p className="text-[10px] mt-0.5 leading-snug" style={{ color: "#16A34A" }}>
+                    {item.price_rule} price
+                  </p>
+                )}
               </div>
             );
           })}
@@ -237,13 +469,39 @@ export function ReceiptCard({
           {DASHES}
         </p>
 
+        {/* Subtotal, discounts, tax and tip — in order so the math reads top to bottom */}
+        <div className="space-y-1 mb-2">
+          <div className="flex justify-between items-baseline">
+            <span className="text-[11px] uppercase tracking-wider">Subtotal</span>
+            <span className="text-[12px]">
+              ${(receipt.subtotal ?? receipt.items.reduce((s, i) => s + i.item_price, 0)).toFixed(2)}
+            </span>
+          </div>
+          {(receipt.discounts ?? []).map((d, i) => (
+            <div key={i} className="flex justify-between items-baseline gap-2">
+              <span className="text-[11px] leading-snug">{d.label}</span>
+              <span className="text-[12px] shrink-0">−${d.amount.toFixed(2)}</span>
+            </div>
+          ))}
+          <div className="flex justify-between items-baseline">
+            <span className="text-[11px] uppercase tracking-wider">Tax</span>
+            <span className="text-[12px]">${(receipt.tax ?? 0).toFixed(2)}</span>
+          </div>
+          {(receipt.tip ?? 0) > 0 && (
+            <div className="flex justify-between items-baseline">
+              <span className="text-[11px] uppercase tracking-wider">Tip</span>
+              <span className="text-[12px]">${receipt.tip!.toFixed(2)}</span>
+            </div>
+          )}
+        </div>
+
         {/* Total */}
         <div className="flex justify-between items-baseline mb-4">
           <span className="text-[12px] font-bold tracking-wider uppercase">
             Total
           </span>
           <span className="text-[16px] font-bold">
-            ${receipt.total_price.toFixed(2)}
+            ${(receipt.grand_total ?? receipt.total_price).toFixed(2)}
           </span>
         </div>
 
@@ -252,11 +510,101 @@ export function ReceiptCard({
           className="text-[10px] text-center leading-relaxed mb-1"
           style={{ color: "#9A8A7A" }}
         >
-          Ready in ~3–5 min
-          <br />
-          Pay at the counter when you pick up
+          {status === "cancelled" ? (
+            payment.payment_status === "refunded" ? (
+              "This order was cancelled — your payment was refunded"
+            ) : payment.payment_status === "paid" ? (
+              "This order was cancelled — ask at the counter for your refund"
+            ) : (
+              "This order was cancelled — you won't be charged"
+            )
+          ) : (
+            <>
+              {receipt.pickup_at
+                ? `Pickup at ${formatPickupTime(receipt.pickup_at)} — we'll have it ready`
+                : "Ready in ~3–5 min"}
+              <br />
+              <span style={due <= 0 ? { color: "#16A34A" } : undefined}>
+                {paymentNote(payment, due)}
+              </span>
+            </>
+          )}
         </p>
 
+        {/* Pay now — until nothing is due */}
+        {orderId && status !== "cancelled" && due > 0 && (
+          <div className="mt-3">
+            <p className="text-[10px] uppercase tracking-widest text-center mb-2">
+              Pay ${due.toFixed(2)} now
+            </p>
+            <div className="flex gap-2">
+              {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map((method) => {
+                const MethodIcon = PAYMENT_ICONS[method];
+                const chosen = payment.payment_method === method && payment.payment_status === "pending";
+                return (
+                  <button
+                    key={method}
+                    type="button"
+                    disabled={paying}
+                    onClick={() => handlePay(method)}
+                    className="flex-1 flex items-center justify-center gap-1.5 py-2 rounded-full border text-[11px] font-semibold transition-opacity active:opacity-70 disabled:opacity-50"
+                    style={{
+                      borderColor: "#2C1A12",
+                      backgroundColor: chosen ? "#2C1A12" : "transparent",
+                      color: chosen ? "#FFFDF7" : "#2C1A12",
+                    }}
+                  >
+                    <MethodIcon className="w-3 h-3" />
+                    {PAYMENT_METHOD_LABELS[method]}
+                  </button>
+                );
+              })}
+            </div>
+            {checkoutUrl && payment.payment_method === "online" && (
+              <a
+                href={checkoutUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="block text-center text-[11px] underline mt-2"
+              >
+                Open checkout
+              </a>
+            )}
+            {payError && (
+              <p className="text-[10px] text-center mt-2" style={{ color: "#DC2626" }}>
+                {payError}
+              </p>
+            )}
+          </div>
+        )}
+
+        {loyalty && status !== "cancelled" && <PunchCard loyalty={loyalty} />}
+
+        {/* Track from another device, or after closing this tab */}
+        {orderId && (status === "new" || status === "in_progress") && (
+          <div className="mt-4 flex items-center gap-3">
+            <QrCode
+              value={orderTrackingUrl(orderId)}
+              size={72}
+              label="QR code for your order tracking page"
+              className="shrink-0"
+            />
+            <p className="text-[10px] leading-relaxed" style={{ color: "#9A8A7A" }}>
+              Scan to follow your order on your phone, or{" "}
+              <a
+                href={`/order/${orderId}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="underline"
+                style={{ color: "#2C1A12" }}
+              >
+                open the tracking page
+              </a>
+              .
+            </p>
+          </div>
+        )}
+
         <p
           className="text-[9px] tracking-widest text-center mt-3 mb-4 overflow-hidden"
           style={{ color: "#C9B9A9" }}
@@ -0,0 +1,322 @@
+"use client";
+
+// src/components/order/OrderTracker.tsx
+// ============================================================
+// Customer order tracking — the page behind /order/[id] and the QR
+// code on the receipt. Works without the chat tab: shows the
+// receipt, live status, place in line and an estimated ready time.
+// - Same postgres_changes approach as ReceiptCard: this order's row
+//   for status and payment, any order row for the queue, and
+//   order_revisions for a modified order's new items
+// - Place in line comes from src/lib/order-tracking.ts; the estimate
+//   from src/lib/wait-time.ts, with prep times loaded once
+// ============================================================
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { CalendarClock, CheckCircle, Clock, Flame, XCircle } from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import { fetchOrderWithItems, fetchPrepTimes, fetchQueue } from "@/lib/barista-service";
+import { describeCartItem } from "@/lib/cart";
+import { formatOrderNumber } from "@/lib/order-numbering";
+import { businessClock, formatClock } from "@/lib/business-time";
+import { estimateReadyAt, ordersAhead, type QueuedOrder } from "@/lib/order-tracking";
+import { PAYMENT_METHOD_LABELS, paymentDue } from "@/lib/payments";
+import { formatPickupTime, isHeld } from "@/lib/scheduling";
+import { NO_HISTORY, type PrepTimes } from "@/lib/wait-time";
+import { useMenu } from "@/hooks/useMenu";
+import type { Order, OrderRevision, OrderWithItems } from "@/lib/types";
+
+const DASHES = "- - - - - - - - - - - - - - - - - - - - - - -";
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/** Headline, detail line and icon for where the order is. */
+function describeProgress(
+  order: OrderWithItems,
+  queue: QueuedOrder[],
+  now: number
+): { headline: string; detail: string | null; color: string; Icon: typeof Clock } {
+  switch (order.status) {
+    case "new": {
+      if (isHeld(order, now)) {
+        return {
+          headline: `Scheduled for ${formatPickupTime(order.pickup_at!)}`,
+          detail: "We'll start it shortly before you arrive.",
+          color: "#4F46E5",
+          Icon: CalendarClock,
+        };
+      }
+      const ahead = ordersAhead(order, queue, now) ?? 0;
+      return {
+        headline: "Order received",
+        detail:
+          ahead === 0
+            ? "You're next in line."
+            : `${ahead} order${ahead === 1 ? "" : "s"} ahead of you.`,
+        color: "#B45309",
+        Icon: Clock,
+      };
+    }
+    case "in_progress":
+      return {
+        headline: "Being prepared…",
+        detail: "The barista is making it now.",
+        color: "#EA580C",
+        Icon: Flame,
+      };
+    case "ready":
+    case "completed":
+      return {
+        headline: "Ready for pickup!",
+        detail: "Come grab it at the counter.",
+        color: "#059669",
+        Icon: CheckCircle,
+      };
+    case "picked_up":
+      return { headline: "Picked up — enjoy!", detail: null, color: "#78716C", Icon: CheckCircle };
+    case "cancelled":
+      return {
+        headline: "Order cancelled",
+        detail:
+          order.payment_status === "refunded"
+            ? "Your payment was refunded."
+            : order.payment_status === "paid"
+            ? "Ask at the counter for your refund."
+            : "You won't be charged.",
+        color: "#DC2626",
+        Icon: XCircle,
+      };
+  }
+}
+
+/** "Ready around 8:42am · about 6 min" */
+function describeEstimate(readyAt: number, now: number): string {
+  const at = formatClock(businessClock(new Date(readyAt)).time);
+  const minutes = Math.max(1, Math.round((readyAt - now) / 60_000));
+  return `Ready around ${at} · about ${minutes} min`;
+}
+
+// ── Component ─────────────────────────────────────────────────────────────────
+
+export function OrderTracker({ orderId }: { orderId: string }) {
+  /** undefined while loading, null if there's no such order. */
+  const [order, setOrder] = useState<OrderWithItems | null | undefined>(undefined);
+  const [queue, setQueue] = useState<QueuedOrder[]>([]);
+  const [prep, setPrep] = useState<PrepTimes>(NO_HISTORY);
+  // Clock for the estimate and scheduled release — ticks every 30 s.
+  const [now, setNow] = useState(() => Date.now());
+  const menu = useMenu({ includeInactive: true });
+
+  useEffect(() => {
+    const t = setInterval(() => setNow(Date.now()), 30_000);
+    return () => clearInterval(t);
+  }, []);
+
+  // ── Initial load ──────────────────────────────────────────────────────────
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([fetchOrderWithItems(orderId), fetchQueue(), fetchPrepTimes()]).then(
+      ([o, q, p]) => {
+        if (cancelled) return;
+        setOrder(o);
+        setQueue(q);
+        setPrep(p);
+        setNow(Date.now());
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [orderId]);
+
+  // ── Realtime subscription ─────────────────────────────────────────────────
+
+  useEffect(() => {
+    const refreshQueue = () =>
+      fetchQueue().then((q) => {
+        setQueue(q);
+        setNow(Date.now());
+      });
+
+    const channel = supabase
+      .channel(`order-track-${orderId}`)
+      // This order — status, payment and pickup time
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "orders", filter: `id=eq.${orderId}` },
+        (payload) => {
+          const row = payload.new as Order;
+          if (!row?.id) return;
+          setOrder((prev) => (prev ? { ...prev, ...row } : prev));
+        }
+      )
+      // Any order joining or leaving the line moves our place in it
+      .on("postgres_changes", { event: "*", schema: "public", table: "orders" }, () => {
+        refreshQueue();
+      })
+      // Modified from the chat — the revision row lands after the new items
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "order_revisions",
+          filter: `order_id=eq.${orderId}`,
+        },
+        async (payload) => {
+          if (!(payload.new as OrderRevision)?.order_id) return;
+          const incoming = await fetchOrderWithItems(orderId);
+          if (incoming) setOrder(incoming);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [orderId]);
+
+  // ── Render ────────────────────────────────────────────────────────────────
+
+  if (order === undefined || order === null) {
+    return (
+      <main
+        className="min-h-[100dvh] flex items-center justify-center px-6 text-center"
+        style={{ backgroundColor: "#FAF7F2", color: "#2C1A12" }}
+      >
+        {order === undefined ? (
+          <p className="text-sm" style={{ color: "#9A8A7A" }}>
+            Loading your order…
+          </p>
+        ) : (
+          <div>
+            <p className="text-lg font-semibold mb-1.5">We couldn&apos;t find that order.</p>
+            <Link href="/customer" className="text-sm underline" style={{ color: "#9A8A7A" }}>
+              Start a new order
+            </Link>
+          </div>
+        )}
+      </main>
+    );
+  }
+
+  const { headline, detail, color, Icon } = describeProgress(order, queue, now);
+  const readyAt = estimateReadyAt(order, queue, prep, now);
+  const due = paymentDue(order);
+  const method = order.payment_method ? PAYMENT_METHOD_LABELS[order.payment_method] : null;
+
+  return (
+    <main
+      className="min-h-[100dvh] flex justify-center px-4 py-8"
+      style={{ backgroundColor: "#FAF7F2" }}
+    >
+      <div
+        className="w-full max-w-sm self-start rounded-2xl overflow-hidden shadow-md border border-stone-100"
+        style={{ backgroundColor: "#FFFDF7", color: "#2C1A12" }}
+      >
+        {/* ── Status ───────────────────────────────────────────────────────── */}
+        <div className="px-5 py-4" style={{ borderBottom: "1px dashed #D9CFC4" }}>
+          <div className="flex items-center gap-2" style={{ color }}>
+            <Icon className={`w-4 h-4 shrink-0 ${order.status === "in_progress" ? "animate-pulse" : ""}`} />
+            <span className="text-[13px] font-semibold tracking-widest uppercase">{headline}</span>
+          </div>
+          {detail && <p className="text-[13px] mt-1.5">{detail}</p>}
+          {readyAt !== null && (
+            <p className="text-[12px] mt-0.5" style={{ color: "#9A8A7A" }}>
+              {order.pickup_at && isHeld(order, now)
+                ? `Pickup at ${formatPickupTime(order.pickup_at)}`
+                : describeEstimate(readyAt, now)}
+            </p>
+          )}
+        </div>
+
+        {/* ── Receipt ──────────────────────────────────────────────────────── */}
+        <div className="px-5 py-4 font-mono">
+          <div className="text-center mb-3">
+            <p className="text-[13px] font-bold tracking-widest uppercase">NYC Coffee</p>
+            <p className="text-[10px] tracking-wide mt-0.5" style={{ color: "#9A8A7A" }}>
+              512 West 43rd Street · NYC
+            </p>
+          </div>
+
+          <div className="text-center mb-2">
+            <p className="text-2xl font-bold tracking-wider">{formatOrderNumber(order.order_number)}</p>
+            {order.customer_name && (
+              <p className="text-[11px] mt-0.5" style={{ color: "#9A8A7A" }}>
+                For {order.customer_name}
+              </p>
+            )}
+          </div>
+
+          <p className="text-[9px] tracking-widest text-center my-3 overflow-hidden" style={{ color: "#C9B9A9" }}>
+            {DASHES}
+          </p>
+
+          <div className="space-y-2 mb-3">
+            {order.order_items.map((item) => (
+              <div key={item.id} className="flex justify-between items-baseline gap-2">
+                <span className="text-[12px] leading-snug">{describeCartItem(item, menu)}</span>
+                <span className="text-[12px] shrink-0">${item.item_price.toFixed(2)}</span>
+              </div>
+            ))}
+          </div>
+
+          <p className="text-[9px] tracking-widest text-center mb-3 overflow-hidden" style={{ color: "#C9B9A9" }}>
+            {DASHES}
+          </p>
+
+          <div className="space-y-1 mb-2">
+            <div className="flex justify-between items-baseline">
+              <span className="text-[11px] uppercase tracking-wider">Subtotal</span>
+              <span className="text-[12px]">${order.subtotal.toFixed(2)}</span>
+            </div>
+            {(order.discounts ?? []).map((d, i) => (
+              <div key={i} className="flex justify-between items-baseline gap-2">
+                <span className="text-[11px] leading-snug">{d.label}</span>
+                <span className="text-[12px] shrink-0">−${d.amount.toFixed(2)}</span>
+              </div>
+            ))}
+            <div className="flex justify-between items-baseline">
+              <span className="text-[11px] uppercase tracking-wider">Tax</span>
+              <span className="text-[12px]">${order.tax.toFixed(2)}</span>
+            </div>
+            {order.tip > 0 && (
+              <div className="flex justify-between items-baseline">
+                <span className="text-[11px] uppercase tracking-wider">Tip</span>
+                <span className="text-[12px]">${order.tip.toFixed(2)}</span>
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-between items-baseline mb-3">
+            <span className="text-[12px] font-bold tracking-wider uppercase">Total</span>
+            <span className="text-[16px] font-bold">${order.grand_total.toFixed(2)}</span>
+          </div>
+
+          {order.status !== "cancelled" && (
+            <p
+              className="text-[10px] text-center"
+              style={{ color: due > 0 ? "#9A8A7A" : "#16A34A" }}
+            >
+              {due > 0
+                ? `$${due.toFixed(2)} to pay at the counter`
+                : `Paid${method ? ` · ${method}` : ""} — thank you!`}
+            </p>
+          )}
+        </div>
+
+        <div className="px-5 pb-5">
+          <Link
+            href="/customer"
+            className="block w-full py-2.5 rounded-full border text-center text-[12px] font-semibold tracking-wide"
+            style={{ borderColor: "#2C1A12", color: "#2C1A12" }}
+          >
+            Place another order
+          </Link>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/lib/supabase";
+import { fetchAccount, type Account } from "@/lib/customer-client";
+
+/**
+ * The signed-in customer's account and order history, or null for a
+ * guest. Follows Supabase Auth — signing in (code or magic link) and
+ * out update it; call refresh() after placing an order.
+ */
+export function useCustomer(): { account: Account | null; refresh: () => void } {
+  const [account, setAccount] = useState<Account | null>(null);
+
+  const load = useCallback((accessToken: string) => {
+    fetchAccount(accessToken)
+      .then(setAccount)
+      .catch((err) => console.error("[useCustomer] fetchAccount failed:", err));
+  }, []);
+
+  useEffect(() => {
+    const { data } = supabase.auth.onAuthStateChange((event, session) => {
+      if (!session) {
+        setAccount(null);
+        return;
+      }
+      if (event === "INITIAL_SESSION" || event === "SIGNED_IN") {
+        // Supabase calls back while holding its auth lock — fetch after it's released.
+        setTimeout(() => load(session.access_token), 0);
+      }
+    });
+    return () => data.subscription.unsubscribe();
+  }, [load]);
+
+  const refresh = useCallback(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      if (data.session) load(data.session.access_token);
+    });
+  }, [load]);
+
+  return { account, refresh };
+}
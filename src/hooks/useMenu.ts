@@ -0,0 +1,47 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { supabase } from "@/lib/supabase";
+import { DEFAULT_MENU, type Menu } from "@/lib/menu";
+import { fetchMenu } from "@/lib/menu-service";
+
+const MENU_TABLES = [
+  "menu_drinks",
+  "menu_pastries",
+  "menu_milk_options",
+  "menu_modifier_groups",
+  "menu_add_ons",
+  "menu_price_rules",
+];
+
+/**
+ * The live menu for client components. Starts from DEFAULT_MENU so
+ * the first render has something to show, then swaps in the
+ * Supabase menu once it loads and again whenever a menu row changes
+ * (a barista 86-ing an item, an owner edit).
+ */
+export function useMenu({ includeInactive = false }: { includeInactive?: boolean } = {}): Menu {
+  const [menu, setMenu] = useState<Menu>(DEFAULT_MENU);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () =>
+      fetchMenu({ includeInactive }).then((m) => {
+        if (!cancelled) setMenu(m);
+      });
+    load();
+
+    const channel = supabase.channel(`menu-${includeInactive ? "all" : "active"}`);
+    MENU_TABLES.forEach((table) =>
+      channel.on("postgres_changes", { event: "*", schema: "public", table }, load)
+    );
+    channel.subscribe();
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [includeInactive]);
+
+  return menu;
+}
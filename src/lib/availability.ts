@@ -0,0 +1,114 @@
+// src/lib/availability.ts
+// ============================================================
+// Sold-out ("86'd") menu items and what to offer instead.
+// Baristas flip `available` from the barista page; validation
+// rejects sold-out lines with a substitute, and the system prompt
+// lists the same substitutes so the AI suggests them up front.
+// ============================================================
+
+import {
+  MENU_SECTIONS,
+  type AddOn,
+  type DrinkItem,
+  type Menu,
+  type MenuSection,
+  type MilkOptionItem,
+  type PastryItem,
+} from "./menu";
+
+export function isAvailable(item: { available?: boolean; active?: boolean }): boolean {
+  return item.available !== false && item.active !== false;
+}
+
+/** Lowest-scoring available candidate, or undefined when nothing is left. */
+function closest<T extends { available?: boolean; active?: boolean }>(
+  candidates: T[],
+  exclude: T,
+  score: (c: T) => number
+): T | undefined {
+  return candidates
+    .filter((c) => c !== exclude && isAvailable(c))
+    .sort((a, b) => score(a) - score(b))[0];
+}
+
+// Price of the smallest size — what "nearest price" compares.
+const basePrice = (d: DrinkItem) => Math.min(...d.sizes.map((s) => s.price));
+
+// Same category first, then matching character (milk, espresso,
+// matcha, blended), then nearest price.
+function drinkSubstitute(drink: DrinkItem, menu: Menu): DrinkItem | undefined {
+  return closest(menu.drinks, drink, (d) =>
+    (d.category !== drink.category ? 100 : 0) +
+    (d.hasMilk !== drink.hasMilk ? 10 : 0) +
+    (d.hasEspresso !== drink.hasEspresso ? 10 : 0) +
+    (d.hasMatcha !== drink.hasMatcha ? 10 : 0) +
+    (d.isBlended !== drink.isBlended ? 10 : 0) +
+    Math.abs(basePrice(d) - basePrice(drink))
+  );
+}
+
+function pastrySubstitute(pastry: PastryItem, menu: Menu): PastryItem | undefined {
+  return closest(menu.pastries, pastry, (p) => Math.abs(p.price - pastry.price));
+}
+
+// Nearest upcharge keeps plant milks together (oat ↔ almond).
+function milkSubstitute(milk: MilkOptionItem, menu: Menu): MilkOptionItem | undefined {
+  return closest(menu.milkOptions, milk, (m) => Math.abs(m.upcharge - milk.upcharge));
+}
+
+// Only add-ons from the same modifier group — a syrup for a syrup.
+function addOnSubstitute(addOn: AddOn, menu: Menu): AddOn | undefined {
+  return closest(
+    menu.addOns.filter((a) => a.group === addOn.group),
+    addOn,
+    (a) => Math.abs(a.price - addOn.price)
+  );
+}
+
+/** Display name of the suggested substitute, e.g. "Almond Milk". */
+export function suggestSubstitute(
+  section: MenuSection,
+  item: DrinkItem | PastryItem | MilkOptionItem | AddOn,
+  menu: Menu
+): string | null {
+  switch (section) {
+    case "drinks":
+      return drinkSubstitute(item as DrinkItem, menu)?.name ?? null;
+    case "pastries":
+      return pastrySubstitute(item as PastryItem, menu)?.name ?? null;
+    case "milkOptions":
+      return milkSubstitute(item as MilkOptionItem, menu)?.label ?? null;
+    case "addOns":
+      return addOnSubstitute(item as AddOn, menu)?.name ?? null;
+  }
+}
+
+/** "Sorry, we're out of Oat Milk right now — how about Almond Milk?" */
+export function soldOutMessage(
+  section: MenuSection,
+  item: DrinkItem | PastryItem | MilkOptionItem | AddOn,
+  menu: Menu
+): string {
+  const name = section === "milkOptions" ? (item as MilkOptionItem).label : item.name;
+  const sub = suggestSubstitute(section, item, menu);
+  return sub
+    ? `Sorry, we're out of ${name} right now — how about ${sub}?`
+    : `Sorry, we're out of ${name} right now.`;
+}
+
+/**
+ * Sold-out items and their substitutes for the system prompt,
+ * one per line. Empty string when everything is available.
+ */
+export function formatSoldOutForPrompt(menu: Menu): string {
+  const lines: string[] = [];
+  MENU_SECTIONS.forEach((section) => {
+    for (const item of menu[section]) {
+      if (item.available !== false || item.active === false) continue;
+      const name = section === "milkOptions" ? (item as MilkOptionItem).label : item.name;
+      const sub = suggestSubstitute(section, item, menu);
+      lines.push(`  • ${name}${sub ? ` → suggest ${sub}` : ""}`);
+    }
+  });
+  return lines.join("\n");
+}
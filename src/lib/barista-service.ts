@@ -1,12 +1,18 @@
 // src/lib/barista-service.ts
 // ============================================================
-// Barista-facing data access: fetch today's orders and update status.
-// Called from the barista view page.
+// Barista-facing data access: fetch today's orders, update status and
+// check items off. Fetches are called from the barista view page and
+// the customer's order tracking page; status changes go through the
+// /api/orders/:id/status, /cancel and /items/:itemId routes.
 // ============================================================
 
 import { createClient } from "@supabase/supabase-js";
 import { supabase } from "./supabase";
-import type { OrderWithItems, OrderStatus } from "./types";
+import { startOfBusinessDay } from "./business-time";
+import { STATUS_TIMESTAMPS, canTransition, statusesBefore } from "./order-status";
+import type { QueuedOrder } from "./order-tracking";
+import { NO_HISTORY, learnPrepTimes, type PrepTimes, type TimedOrder } from "./wait-time";
+import type { ItemStatus, Order, OrderItem, OrderWithItems, OrderStatus } from "./types";
 
 // Plain (non-generic) client for writes — avoids Supabase v2 generic
 // resolution issues with hand-written Database types (same pattern as
@@ -17,17 +23,15 @@ const db = createClient(
 );
 
 /**
- * Fetch all orders (with items) created today (UTC midnight → now).
+ * Fetch all orders (with items and revisions) created today — since
+ * midnight in BUSINESS_TIMEZONE, wherever the screen is.
  * Ordered oldest-first so baristas work through the queue in order.
  */
 export async function fetchAllOrders(): Promise<OrderWithItems[]> {
-  const startOfToday = new Date();
-  startOfToday.setHours(0, 0, 0, 0);
-
   const { data, error } = await supabase
     .from("orders")
-    .select("*, order_items(*)")
-    .gte("created_at", startOfToday.toISOString())
+    .select("*, order_items(*), order_revisions(*)")
+    .gte("created_at", startOfBusinessDay().toISOString())
     .order("created_at", { ascending: true });
 
   if (error) {
@@ -39,23 +43,175 @@ export async function fetchAllOrders(): Promise<OrderWithItems[]> {
 }
 
 /**
- * Update an order's status in Supabase.
- * Errors are logged and not re-thrown — caller relies on optimistic UI.
+ * Fetch one order with its items and revisions — used by realtime
+ * handlers once all of an order's rows have been committed.
+ */
+export async function fetchOrderWithItems(
+  orderId: string
+): Promise<OrderWithItems | null> {
+  const { data, error } = await supabase
+    .from("orders")
+    .select("*, order_items(*), order_revisions(*)")
+    .eq("id", orderId)
+    .single();
+
+  if (error) {
+    console.error("[barista-service] fetchOrderWithItems error:", error);
+    return null;
+  }
+
+  return data as unknown as OrderWithItems;
+}
+
+/**
+ * Every order from today still waiting or being made, with just
+ * what's needed for a customer's place in line (see order-tracking.ts).
+ * Same day as the barista board, so one left open yesterday doesn't
+ * hold up the line.
+ */
+export async function fetchQueue(): Promise<QueuedOrder[]> {
+  const { data, error } = await supabase
+    .from("orders")
+    .select("id, status, created_at, pickup_at, started_at, order_items(item_name)")
+    .in("status", ["new", "in_progress"])
+    .gte("created_at", startOfBusinessDay().toISOString());
+
+  if (error) {
+    console.error("[barista-service] fetchQueue error:", error);
+    return [];
+  }
+
+  return (data as unknown as QueuedOrder[]) ?? [];
+}
+
+// How far back prep times are learned from, and at most how many orders.
+const PREP_HISTORY_DAYS = 14;
+const PREP_HISTORY_LIMIT = 500;
+
+/**
+ * Per-item prep times learned from recently finished orders (see
+ * wait-time.ts). Falls back to the default when there's no history
+ * or the fetch fails.
+ */
+export async function fetchPrepTimes(): Promise<PrepTimes> {
+  const since = new Date(Date.now() - PREP_HISTORY_DAYS * 86_400_000);
+
+  const { data, error } = await supabase
+    .from("orders")
+    .select("started_at, ready_at, completed_at, order_items(item_name, done_at)")
+    .not("started_at", "is", null)
+    .gte("created_at", since.toISOString())
+    .order("created_at", { ascending: false })
+    .limit(PREP_HISTORY_LIMIT);
+
+  if (error) {
+    console.error("[barista-service] fetchPrepTimes error:", error);
+    return NO_HISTORY;
+  }
+
+  return learnPrepTimes((data as unknown as TimedOrder[]) ?? []);
+}
+
+/**
+ * Move an order to a new status, stamping the matching timestamp.
+ * The update only matches rows whose current status may transition to
+ * `newStatus` (see ORDER_TRANSITIONS), so an invalid or stale move is a
+ * no-op rather than a race. Pass `expected` to narrow that further —
+ * the customer cancel route only allows cancelling a "new" order.
+ *
+ * Returns the updated row, or null if the transition was refused or the
+ * update failed. Errors are logged and not re-thrown.
  */
 export async function updateOrderStatus(
   orderId: string,
-  newStatus: OrderStatus
-): Promise<void> {
+  newStatus: OrderStatus,
+  expected?: OrderStatus
+): Promise<Order | null> {
+  const from = expected
+    ? [expected].filter((s) => canTransition(s, newStatus))
+    : statusesBefore(newStatus);
+
+  if (from.length === 0) {
+    console.error(
+      `[barista-service] updateOrderStatus: no transition from ${expected ?? "any status"} to ${newStatus}`
+    );
+    return null;
+  }
+
   const update: Record<string, unknown> = { status: newStatus };
-  if (newStatus === "in_progress") update.started_at   = new Date().toISOString();
-  if (newStatus === "completed")   update.completed_at = new Date().toISOString();
+  const stamp = STATUS_TIMESTAMPS[newStatus];
+  if (stamp) update[stamp] = new Date().toISOString();
 
-  const { error } = await db
+  const { data, error } = await db
     .from("orders")
     .update(update)
-    .eq("id", orderId);
+    .eq("id", orderId)
+    .in("status", from)
+    .select()
+    .maybeSingle();
 
   if (error) {
     console.error("[barista-service] updateOrderStatus error:", error);
+    return null;
+  }
+
+  if (!data) {
+    console.warn(
+      `[barista-service] updateOrderStatus: order ${orderId} can't move to ${newStatus} from its current status`
+    );
+    return null;
   }
+
+  return data as Order;
+}
+
+/**
+ * Check one item off an in-progress ticket, or uncheck it. Refused
+ * (null) unless the order is being made. `allDone` says whether every
+ * item on the order is done now — the route then marks it ready.
+ * Errors are logged and not re-thrown.
+ */
+export async function updateItemStatus(
+  orderId: string,
+  itemId: string,
+  status: ItemStatus
+): Promise<{ item: OrderItem; allDone: boolean } | null> {
+  const { data: order, error: orderError } = await db
+    .from("orders")
+    .select("status")
+    .eq("id", orderId)
+    .maybeSingle();
+
+  if (orderError || order?.status !== "in_progress") {
+    if (orderError) console.error("[barista-service] updateItemStatus error:", orderError);
+    return null;
+  }
+
+  const { data: item, error } = await db
+    .from("order_items")
+    .update({ status, done_at: status === "done" ? new Date().toISOString() : null })
+    .eq("id", itemId)
+    .eq("order_id", orderId)
+    .select()
+    .maybeSingle();
+
+  if (error || !item) {
+    if (error) console.error("[barista-service] updateItemStatus error:", error);
+    return null;
+  }
+
+  const { data: items, error: itemsError } = await db
+    .from("order_items")
+    .select("status")
+    .eq("order_id", orderId);
+
+  if (itemsError) {
+    console.error("[barista-service] updateItemStatus error:", itemsError);
+    return { item: item as OrderItem, allDone: false };
+  }
+
+  return {
+    item: item as OrderItem,
+    allDone: (items ?? []).every((i) => i.status === "done"),
+  };
 }
@@ -0,0 +1,35 @@
+// src/lib/browser-notifications.ts
+// ============================================================
+// System notifications for the customer tab.
+// Only shown when the tab is in the background — if the customer
+// is looking at the receipt, the chime and voice are enough.
+// Silently no-ops where the Notification API is unavailable.
+// ============================================================
+
+/** Ask once, after an order is placed. Never throws. */
+export function requestNotificationPermission(): void {
+  try {
+    if (typeof Notification === "undefined") return;
+    if (Notification.permission !== "default") return;
+    Notification.requestPermission().catch(() => {});
+  } catch {
+    // Older Safari: requestPermission is callback-only — skip it.
+  }
+}
+
+/** Show a system notification if the tab is hidden and permission was granted. */
+export function notifyIfHidden(title: string, body: string, tag?: string): void {
+  try {
+    if (typeof Notification === "undefined") return;
+    if (document.visibilityState !== "hidden") return;
+    if (Notification.permission !== "granted") return;
+
+    const notification = new Notification(title, { body, tag });
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+    };
+  } catch {
+    // Some mobile browsers only allow notifications from a service worker.
+  }
+}
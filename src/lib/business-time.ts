@@ -0,0 +1,97 @@
+// src/lib/business-time.ts
+// ============================================================
+// Business clock — shop time, whatever timezone the server or kiosk
+// runs in. Promotion and price-rule windows ("2–4pm weekdays"),
+// pickup times, the business day and order history labels all read
+// it.
+//
+//   NEXT_PUBLIC_BUSINESS_TIMEZONE = IANA zone for the business day
+//
+// NEXT_PUBLIC_ so client components see the same day and times as
+// the server.
+// ============================================================
+
+export const BUSINESS_TIMEZONE =
+  process.env.NEXT_PUBLIC_BUSINESS_TIMEZONE || "UTC";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const clockFormat = new Intl.DateTimeFormat("en-US", {
+  timeZone: BUSINESS_TIMEZONE,
+  weekday: "short",
+  hour: "2-digit",
+  minute: "2-digit",
+  hourCycle: "h23",
+});
+
+/** Day of week (0 = Sunday) and "HH:MM" time in BUSINESS_TIMEZONE. */
+export function businessClock(date: Date): { day: number; time: string } {
+  const parts = clockFormat.formatToParts(date);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+  return { day: WEEKDAYS.indexOf(part("weekday")), time: `${part("hour")}:${part("minute")}` };
+}
+
+const dateTimeFormat = new Intl.DateTimeFormat("en-US", {
+  timeZone: BUSINESS_TIMEZONE,
+  year: "numeric",
+  month: "numeric",
+  day: "numeric",
+  hour: "numeric",
+  minute: "numeric",
+  hourCycle: "h23",
+});
+
+/** How far BUSINESS_TIMEZONE's wall clock is ahead of UTC at `date`, in ms. */
+function zoneOffset(date: Date): number {
+  const parts = dateTimeFormat.formatToParts(date);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const wall = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"));
+  return wall - Math.floor(date.getTime() / 60_000) * 60_000;
+}
+
+/** "HH:MM" in BUSINESS_TIMEZONE on the business day of `now`, as an instant. */
+export function atBusinessTime(hhmm: string, now = new Date()): Date {
+  const [h, m] = hhmm.split(":").map(Number);
+  const parts = dateTimeFormat.formatToParts(now);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const wall = Date.UTC(part("year"), part("month") - 1, part("day"), h, m);
+  // Offset at the target time, not now — they differ across a DST change.
+  const guess = wall - zoneOffset(now);
+  return new Date(wall - zoneOffset(new Date(guess)));
+}
+
+/** Midnight in BUSINESS_TIMEZONE starting the business day of `now`. */
+export function startOfBusinessDay(now = new Date()): Date {
+  return atBusinessTime("00:00", now);
+}
+
+/** "14:00" → "2pm", "10:30" → "10:30am" */
+export function formatClock(hhmm: string): string {
+  const [h, m] = hhmm.split(":").map(Number);
+  const suffix = h < 12 ? "am" : "pm";
+  const hour = h % 12 === 0 ? 12 : h % 12;
+  return m ? `${hour}:${String(m).padStart(2, "0")}${suffix}` : `${hour}${suffix}`;
+}
+
+/** Is "HH:MM" inside [start, end)? A window like 22:00–02:00 wraps past midnight. */
+export function inClockWindow(time: string, start: string, end: string): boolean {
+  return start <= end ? time >= start && time < end : time >= start || time < end;
+}
+
+const dayFormat = new Intl.DateTimeFormat("en-US", {
+  timeZone: BUSINESS_TIMEZONE,
+  weekday: "short",
+  month: "short",
+  day: "numeric",
+});
+
+/**
+ * "Today", "Yesterday" or "Mon, Oct 12" for `date` as seen from `now`,
+ * both in BUSINESS_TIMEZONE — for order history.
+ */
+export function formatBusinessDay(date: Date, now = new Date()): string {
+  const label = dayFormat.format(date);
+  if (label === dayFormat.format(now)) return "Today";
+  if (label === dayFormat.format(new Date(now.getTime() - 86_400_000))) return "Yesterday";
+  return label;
+}
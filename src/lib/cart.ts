@@ -0,0 +1,151 @@
+// src/lib/cart.ts
+// ============================================================
+// The customer's in-progress order.
+// Mutated only by the chat tools (src/lib/chat-tools.ts), so the
+// cart — not the model's memory — is the source of truth for
+// "what do I have so far?" and for the final receipt.
+// ============================================================
+
+import type { OrderReceipt, ReceiptItem } from "./order-service";
+import type { Menu } from "./menu";
+import type { DiscountLine } from "./types";
+import { findPastry } from "./pricing";
+import { formatNutrition, itemAllergens, itemNutrition } from "./nutrition";
+import { discountTotal } from "./promotions";
+import { calculateTax, formatTaxRate } from "./tax";
+import { formatPickupTime, SCHEDULED_LEAD_MINUTES } from "./scheduling";
+
+export interface Cart {
+  items: ReceiptItem[];
+  customer_name: string | null;
+  /** Code given via apply_promo_code, kept even while it doesn't apply yet. */
+  promo_code: string | null;
+  /** Recomputed by the chat tools after every change. */
+  discounts: DiscountLine[];
+  /** Tip in dollars, via set_tip. */
+  tip: number;
+  /** Set when the tip was a percentage — it follows the total as items change. */
+  tip_percent: number | null;
+  /** Loyalty free drink asked for via use_free_drink. */
+  free_drink: boolean;
+  /** Order-ahead pickup time (ISO) via set_pickup_time; null = as soon as possible. */
+  pickup_at: string | null;
+}
+
+export function emptyCart(): Cart {
+  return {
+    items: [],
+    customer_name: null,
+    promo_code: null,
+    discounts: [],
+    tip: 0,
+    tip_percent: null,
+    free_drink: false,
+    pickup_at: null,
+  };
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export function cartSubtotal(cart: Cart): number {
+  return round2(cart.items.reduce((s, i) => s + i.item_price, 0));
+}
+
+/** After discounts, before tax and tip. */
+export function cartTotal(cart: Cart): number {
+  return round2(cartSubtotal(cart) - discountTotal(cart.discounts ?? []));
+}
+
+export function cartTax(cart: Cart, menu: Menu): number {
+  return calculateTax(cart.items, discountTotal(cart.discounts ?? []), menu);
+}
+
+/** What the customer pays — total, tax and tip. */
+export function cartGrandTotal(cart: Cart, menu: Menu): number {
+  return round2(cartTotal(cart) + cartTax(cart, menu) + (cart.tip ?? 0));
+}
+
+export function cartToReceipt(
+  cart: Cart,
+  type: OrderReceipt["type"]
+): OrderReceipt {
+  return {
+    type,
+    customer_name: cart.customer_name,
+    items: cart.items,
+    promo_code: cart.promo_code ?? null,
+    free_drink: cart.free_drink ?? false,
+    pickup_at: cart.pickup_at ?? null,
+    total_price: cartTotal(cart),
+    tip: cart.tip ?? 0,
+  };
+}
+
+/** Fields describeCartItem reads — cart lines and stored order_items rows both fit. */
+type DescribableItem = Omit<ReceiptItem, "add_ons"> & {
+  add_ons: { name: string; qty: number }[];
+};
+
+/** Short one-line description, e.g. "Large iced Latte (oat milk, +2 Caramel Syrup)". */
+export function describeCartItem(item: DescribableItem, menu: Menu): string {
+  if (findPastry(item.item_name, menu)) {
+    return item.special_instructions
+      ? `${item.item_name} (${item.special_instructions})`
+      : item.item_name;
+  }
+
+  const mods: string[] = [];
+  if (item.caffeine && item.caffeine !== "regular") mods.push(item.caffeine);
+  if (item.milk) mods.push(`${item.milk} milk`);
+  if (item.sweetness && item.sweetness !== "regular") mods.push(item.sweetness);
+  if (item.temp === "iced" && item.ice_level && item.ice_level !== "regular") {
+    mods.push(item.ice_level);
+  }
+  item.add_ons.forEach((a) => mods.push(`+${a.qty} ${a.name}`));
+  if (item.special_instructions) mods.push(item.special_instructions);
+
+  const size = item.size.charAt(0).toUpperCase() + item.size.slice(1);
+  const head = `${size} ${item.temp} ${item.item_name}`;
+  return mods.length > 0 ? `${head} (${mods.join(", ")})` : head;
+}
+
+/**
+ * Cart rendered for the system prompt. Indexes are what the model
+ * passes to modify_item / remove_item. Each line carries its own
+ * nutrition total and allergens for "how many calories is that?".
+ */
+export function formatCartForPrompt(cart: Cart, menu: Menu): string {
+  if (cart.items.length === 0) return "The cart is empty.";
+
+  const lines = cart.items.map((item, i) => {
+    const nutrition = itemNutrition(item, menu);
+    const allergens = itemAllergens(item, menu);
+    return [
+      `  [${i}] ${describeCartItem(item, menu)} — $${item.item_price.toFixed(2)}` +
+        (item.price_rule ? ` (${item.price_rule} price)` : ""),
+      nutrition ? formatNutrition(nutrition) : "no nutrition data",
+      allergens.length > 0 ? `contains ${allergens.join(", ")}` : "no major allergens",
+    ].join(" — ");
+  });
+  lines.push(`  Subtotal: $${cartSubtotal(cart).toFixed(2)}`);
+  cart.discounts?.forEach((d) => lines.push(`  ${d.label}: −$${d.amount.toFixed(2)}`));
+  if (cart.promo_code && !cart.discounts?.some((d) => d.code === cart.promo_code)) {
+    lines.push(`  Promo code ${cart.promo_code} given but not applying yet`);
+  }
+  if (cart.free_drink && !cart.discounts?.some((d) => d.loyalty)) {
+    lines.push("  Free drink asked for but there's no drink to take it off");
+  }
+  lines.push(`  Tax (${formatTaxRate()}): $${cartTax(cart, menu).toFixed(2)}`);
+  if (cart.tip) {
+    const pct = cart.tip_percent !== null ? ` (${cart.tip_percent}%)` : "";
+    lines.push(`  Tip${pct}: $${cart.tip.toFixed(2)}`);
+  }
+  lines.push(`  Total: $${cartGrandTotal(cart, menu).toFixed(2)}`);
+  if (cart.customer_name) lines.push(`  Name on order: ${cart.customer_name}`);
+  lines.push(
+    cart.pickup_at
+      ? `  Pickup: ${formatPickupTime(cart.pickup_at)} (scheduled — made about ${SCHEDULED_LEAD_MINUTES} min before)`
+      : "  Pickup: as soon as it's ready"
+  );
+  return lines.join("\n");
+}
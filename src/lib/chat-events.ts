@@ -0,0 +1,59 @@
+// src/lib/chat-events.ts
+// ============================================================
+// Typed event protocol for POST /api/chat.
+// The route streams newline-delimited JSON (one ChatEvent per
+// line) so the client gets text deltas, tool activity, cart
+// updates and the final receipt over the same response.
+// ============================================================
+
+import type { Cart } from "./cart";
+import type { OrderReceipt } from "./order-service";
+
+/**
+ * Where the conversation is in the order lifecycle.
+ *   "new"    — building a fresh order
+ *   "modify" — editing an order that was already submitted
+ *   "placed" — order is in; tools are disabled, small talk only
+ */
+export type ChatMode = "new" | "modify" | "placed";
+
+export type ChatEvent =
+  /** Streamed assistant text. */
+  | { type: "text"; text: string }
+  /** A cart tool ran; `message` is what the model was told. */
+  | { type: "tool"; name: string; ok: boolean; message: string }
+  /** Cart after the latest batch of tool calls. */
+  | { type: "cart"; cart: Cart }
+  /** submit_order succeeded — a priced, validated receipt ready to save. */
+  | { type: "receipt"; receipt: OrderReceipt }
+  /** The model call failed mid-stream. */
+  | { type: "error"; message: string };
+
+export function encodeEvent(event: ChatEvent): string {
+  return JSON.stringify(event) + "\n";
+}
+
+/** Parse an NDJSON response body into ChatEvents as they arrive. */
+export async function* readChatEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ChatEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    let newline = buffer.indexOf("\n");
+    while (newline !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line) yield JSON.parse(line) as ChatEvent;
+      newline = buffer.indexOf("\n");
+    }
+  }
+
+  if (buffer.trim()) yield JSON.parse(buffer) as ChatEvent;
+}
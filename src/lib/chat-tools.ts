@@ -0,0 +1,522 @@
+// src/lib/chat-tools.ts
+// ============================================================
+// Anthropic tool definitions for the AI cashier, plus the
+// server-side reducer that applies each tool call to the cart.
+// Schemas are built from the live menu on every request so the
+// model can only name drinks, milks and add-ons that exist today.
+// Called server-side only (API route).
+// ============================================================
+
+import type Anthropic from "@anthropic-ai/sdk";
+import { sizeNames, SWEETNESS_LEVELS, ICE_LEVELS, CAFFEINE_LEVELS, type Menu } from "./menu";
+import { findDrink, findPastry, type PricingOptions } from "./pricing";
+import { checkReceipt } from "./validation";
+import { cartGrandTotal, cartToReceipt, cartTotal, describeCartItem, type Cart } from "./cart";
+import { tipFromPercent } from "./tax";
+import { freeDrinkDiscount } from "./loyalty";
+import { formatPickupTime, parsePickupTime } from "./scheduling";
+import {
+  applyPromotions,
+  describePromotion,
+  findPromoCode,
+  promotionUnavailable,
+  type Promotion,
+} from "./promotions";
+import type { ChatMode } from "./chat-events";
+import type { OrderReceipt, ReceiptItem } from "./order-service";
+
+// ── Schemas ───────────────────────────────────────────────────────────────────
+
+function itemProperties(menu: Menu) {
+  return {
+    item_name: {
+      type: "string",
+      enum: [...menu.drinks.map((d) => d.name), ...menu.pastries.map((p) => p.name)],
+      description: "Exact menu name. Do not embed the temperature (use `temp`).",
+    },
+    size: {
+      type: "string",
+      enum: sizeNames(menu),
+      description: "Sizes vary by drink — only use one listed for this drink on the menu.",
+    },
+    temp: { type: "string", enum: ["hot", "iced"] },
+    milk: {
+      type: ["string", "null"],
+      enum: [...menu.milkOptions.map((m) => m.name), null],
+      description: "null for drinks served without milk.",
+    },
+    sweetness: { type: "string", enum: SWEETNESS_LEVELS },
+    ice_level: {
+      type: "string",
+      enum: ICE_LEVELS,
+      description: "Only meaningful for iced, non-blended drinks — otherwise \"regular\".",
+    },
+    caffeine: {
+      type: "string",
+      enum: CAFFEINE_LEVELS,
+      description: "\"half-caf\" or \"decaf\" only for drinks the menu lists under CAFFEINE — otherwise \"regular\".",
+    },
+    add_ons: {
+      type: "array",
+      description:
+        "Replaces the full add-on list for the item. Use [] for none. Only add-ons from the drink's modifier groups on the menu; qty is pumps, shots or units.",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string", enum: menu.addOns.map((a) => a.name) },
+          qty: { type: "integer", minimum: 1, maximum: Math.max(1, ...menu.addOns.map((a) => a.maxQty)) },
+        },
+        required: ["name", "qty"],
+      },
+    },
+    special_instructions: { type: ["string", "null"] },
+  };
+}
+
+export function buildChatTools(menu: Menu): Anthropic.Tool[] {
+  const itemProps = itemProperties(menu);
+  return [
+    {
+      name: "add_item",
+      description:
+        "Add a fully confirmed item to the cart. Call once the size, temperature, milk, sweetness and ice level are settled (and caffeine, if they asked for decaf or half-caf). Pastries only need item_name.",
+      input_schema: {
+        type: "object",
+        properties: {
+          ...itemProps,
+          quantity: { type: "integer", minimum: 1, maximum: 10, description: "Identical copies to add. Defaults to 1." },
+        },
+        required: ["item_name"],
+      },
+    },
+    {
+      name: "modify_item",
+      description:
+        "Change an item already in the cart. Pass only the fields that change; everything else is kept.",
+      input_schema: {
+        type: "object",
+        properties: {
+          index: { type: "integer", minimum: 0, description: "Cart index shown in CURRENT CART." },
+          ...itemProps,
+        },
+        required: ["index"],
+      },
+    },
+    {
+      name: "remove_item",
+      description: "Remove one item from the cart.",
+      input_schema: {
+        type: "object",
+        properties: {
+          index: { type: "integer", minimum: 0, description: "Cart index shown in CURRENT CART." },
+        },
+        required: ["index"],
+      },
+    },
+    {
+      name: "apply_promo_code",
+      description:
+        "Apply a promo code the customer gives (e.g. \"MORNING10\"), or pass null to remove it. Combo deals apply automatically — no code needed.",
+      input_schema: {
+        type: "object",
+        properties: {
+          code: { type: ["string", "null"], description: "Exactly as the customer said it; case doesn't matter." },
+        },
+        required: ["code"],
+      },
+    },
+    {
+      name: "set_tip",
+      description:
+        "Set the tip when the customer asks to leave one — a percentage or a dollar amount, never both. Pass both null to remove it.",
+      input_schema: {
+        type: "object",
+        properties: {
+          percent: { type: ["number", "null"], minimum: 0, maximum: 100, description: "e.g. 15 for 15% of the total before tax." },
+          amount: { type: ["number", "null"], minimum: 0, description: "Dollars, e.g. 2." },
+        },
+        required: ["percent", "amount"],
+      },
+    },
+    {
+      name: "use_free_drink",
+      description:
+        "Redeem the signed-in customer's loyalty free drink when they ask (\"use my free drink\"), or pass false to put it back. It comes off the priciest drink in the cart.",
+      input_schema: {
+        type: "object",
+        properties: {
+          use: { type: "boolean" },
+        },
+        required: ["use"],
+      },
+    },
+    {
+      name: "set_pickup_time",
+      description:
+        "Schedule the order for pickup later today when the customer gives a time (\"I'll grab it at 8:15\"). Pass null for as soon as possible.",
+      input_schema: {
+        type: "object",
+        properties: {
+          time: {
+            type: ["string", "null"],
+            description: "24-hour shop time \"HH:MM\", e.g. \"08:15\" or \"17:30\". Use SHOP TIME NOW to tell am from pm.",
+          },
+        },
+        required: ["time"],
+      },
+    },
+    {
+      name: "submit_order",
+      description:
+        "Place the order (or save the modification) once the customer has given a name or declined to. Prices are computed server-side.",
+      input_schema: {
+        type: "object",
+        properties: {
+          customer_name: { type: ["string", "null"], description: "null if the customer skipped it." },
+        },
+        required: ["customer_name"],
+      },
+    },
+  ];
+}
+
+// ── Reducer ───────────────────────────────────────────────────────────────────
+
+export interface ToolOutcome {
+  cart: Cart;
+  /** Sent back to the model as the tool_result content. */
+  result: string;
+  isError: boolean;
+  /** Set by a successful submit_order. */
+  receipt?: OrderReceipt;
+}
+
+type ItemInput = Partial<Omit<ReceiptItem, "add_ons" | "item_price">> & {
+  add_ons?: { name: string; qty: number }[];
+  quantity?: number;
+  index?: number;
+};
+
+/** Defaults for a freshly added item, taken from the menu entry. */
+function newItem(itemName: string, menu: Menu): ReceiptItem | null {
+  const drink = findDrink(itemName, menu);
+  if (drink) {
+    return {
+      item_name: drink.name,
+      size: "",
+      temp: drink.defaultTemp,
+      milk: drink.hasMilk ? "whole" : null,
+      sweetness: "regular",
+      ice_level: "regular",
+      caffeine: "regular",
+      add_ons: [],
+      item_price: 0,
+      special_instructions: null,
+    };
+  }
+
+  // Pastries are stored as small/hot rows, same as the seed data.
+  const pastry = findPastry(itemName, menu);
+  if (pastry) {
+    return {
+      item_name: pastry.name,
+      size: "small",
+      temp: "hot",
+      milk: null,
+      sweetness: "regular",
+      ice_level: "regular",
+      caffeine: "regular",
+      add_ons: [],
+      item_price: pastry.price,
+      special_instructions: null,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Apply field overrides, then re-price and validate the single line —
+ * at the price rules running at `now` (the original order time when
+ * modifying).
+ */
+function finishItem(
+  base: ReceiptItem,
+  input: ItemInput,
+  menu: Menu,
+  { now }: PricingOptions = {}
+): ReceiptItem | string {
+  const item: ReceiptItem = {
+    ...base,
+    ...(input.size !== undefined && { size: input.size }),
+    ...(input.temp !== undefined && { temp: input.temp }),
+    ...(input.milk !== undefined && { milk: input.milk }),
+    ...(input.sweetness !== undefined && { sweetness: input.sweetness }),
+    ...(input.ice_level !== undefined && { ice_level: input.ice_level }),
+    ...(input.caffeine !== undefined && { caffeine: input.caffeine }),
+    ...(input.special_instructions !== undefined && {
+      special_instructions: input.special_instructions,
+    }),
+    ...(input.add_ons !== undefined && {
+      add_ons: input.add_ons.map((a) => ({ name: a.name, qty: a.qty, price: 0 })),
+    }),
+  };
+
+  // Hot and blended drinks store "regular" — there's no ice to adjust.
+  const drink = findDrink(item.item_name, menu);
+  if (drink && (item.temp !== "iced" || drink.isBlended) && input.ice_level === undefined) {
+    item.ice_level = "regular";
+  }
+
+  if (drink && !item.size) {
+    const offered = drink.sizes.map((s) => `${s.name} (${s.oz}oz)`).join(", ");
+    return `Ask the customer what size they want for the ${drink.name}: ${offered}.`;
+  }
+
+  const checked = checkReceipt(
+    { type: "order_complete", items: [item], total_price: 0 },
+    menu,
+    [],
+    { now }
+  );
+  if (!checked.ok) {
+    return [
+      ...checked.issues.filter((i) => i.severity === "rejected"),
+      ...checked.violations,
+    ]
+      .map((i) => i.message)
+      .join(" ");
+  }
+  return checked.receipt.items[0];
+}
+
+function indexError(cart: Cart, index: number | undefined): string | null {
+  if (index === undefined || !Number.isInteger(index) || index < 0 || index >= cart.items.length) {
+    return `No cart item at index ${index}. The cart has ${cart.items.length} item(s).`;
+  }
+  return null;
+}
+
+/**
+ * Cart with its discounts recomputed for the current items, code and
+ * free drink, and a percentage tip re-applied to the new total.
+ */
+function withDiscounts(
+  cart: Cart,
+  menu: Menu,
+  promotions: Promotion[],
+  options: PricingOptions
+): Cart {
+  const { discounts } = applyPromotions(cart.items, cart.promo_code, promotions, menu, options);
+  if (cart.free_drink && (options.freeDrinks ?? 0) > 0) {
+    const line = freeDrinkDiscount(cart.items, cartTotal({ ...cart, discounts }), menu);
+    if (line) discounts.push(line);
+  }
+  const next = { ...cart, discounts };
+  return cart.tip_percent !== null
+    ? { ...next, tip: tipFromPercent(cartTotal(next), cart.tip_percent) }
+    : next;
+}
+
+/**
+ * Apply one tool call to the cart. Never throws — problems are returned
+ * as error results so the model can explain them to the customer.
+ * Discounts (and a percentage tip) are recomputed after every change
+ * to the items or code.
+ */
+export function runCartTool(
+  cart: Cart,
+  name: string,
+  rawInput: unknown,
+  mode: ChatMode,
+  menu: Menu,
+  promotions: Promotion[] = [],
+  options: PricingOptions = {}
+): ToolOutcome {
+  const input = (rawInput ?? {}) as ItemInput;
+  const fail = (result: string): ToolOutcome => ({ cart, result, isError: true });
+  const priced = (c: Cart) => withDiscounts(c, menu, promotions, options);
+
+  switch (name) {
+    case "add_item": {
+      const base = newItem(input.item_name ?? "", menu);
+      if (!base) return fail(`"${input.item_name}" is not on the menu.`);
+
+      const item = finishItem(base, input, menu, options);
+      if (typeof item === "string") return fail(item);
+
+      // The schema says integer, but the model doesn't always listen.
+      const qty = Math.min(Math.max(Math.floor(input.quantity ?? 1) || 1, 1), 10);
+      const items = [...cart.items, ...Array.from({ length: qty }, () => ({ ...item }))];
+      return {
+        cart: priced({ ...cart, items }),
+        result: `Added ${qty > 1 ? `${qty}x ` : ""}${describeCartItem(item, menu)} at $${item.item_price.toFixed(2)} each.`,
+        isError: false,
+      };
+    }
+
+    case "modify_item": {
+      const err = indexError(cart, input.index);
+      if (err) return fail(err);
+
+      const current = cart.items[input.index!];
+      // Switching drinks starts from the new drink's defaults.
+      const base =
+        input.item_name && input.item_name !== current.item_name
+          ? newItem(input.item_name, menu)
+          : current;
+      if (!base) return fail(`"${input.item_name}" is not on the menu.`);
+
+      const item = finishItem(
+        base === current ? base : { ...base, size: current.size },
+        input,
+        menu,
+        options
+      );
+      if (typeof item === "string") return fail(item);
+
+      const items = cart.items.map((it, i) => (i === input.index ? item : it));
+      return {
+        cart: priced({ ...cart, items }),
+        result: `Item ${input.index} is now ${describeCartItem(item, menu)} at $${item.item_price.toFixed(2)}.`,
+        isError: false,
+      };
+    }
+
+    case "remove_item": {
+      const err = indexError(cart, input.index);
+      if (err) return fail(err);
+
+      const removed = cart.items[input.index!];
+      const items = cart.items.filter((_, i) => i !== input.index);
+      return {
+        cart: priced({ ...cart, items }),
+        result: `Removed ${describeCartItem(removed, menu)}.`,
+        isError: false,
+      };
+    }
+
+    case "apply_promo_code": {
+      const code = (rawInput as { code?: string | null })?.code?.trim();
+      if (!code) {
+        return {
+          cart: priced({ ...cart, promo_code: null }),
+          result: "Promo code removed.",
+          isError: false,
+        };
+      }
+
+      const promo = findPromoCode(code, promotions);
+      if (!promo) return fail(`${code.toUpperCase()} isn't a valid promo code.`);
+      const unavailable = promotionUnavailable(promo, options);
+      if (unavailable) return fail(unavailable);
+
+      // Kept on the cart even if it doesn't apply yet — it kicks in
+      // once the order qualifies.
+      const { codeError } = applyPromotions(cart.items, promo.code, promotions, menu, options);
+      const next = priced({ ...cart, promo_code: promo.code });
+      return {
+        cart: next,
+        result: codeError
+          ? `Saved ${promo.code} (${describePromotion(promo)}), but it doesn't apply yet: ${codeError}`
+          : `Applied ${promo.code} (${describePromotion(promo)}) — total is now $${cartTotal(next).toFixed(2)}.`,
+        isError: false,
+      };
+    }
+
+    case "set_tip": {
+      const { percent, amount } = (rawInput ?? {}) as { percent?: number | null; amount?: number | null };
+      if (percent != null && amount != null) return fail("Give a percentage or an amount, not both.");
+      if ((percent != null && !(percent >= 0 && percent <= 100)) || (amount != null && !(amount >= 0))) {
+        return fail("The tip can't be negative (and a percentage tops out at 100).");
+      }
+
+      const next: Cart =
+        percent != null
+          ? { ...cart, tip_percent: percent, tip: tipFromPercent(cartTotal(cart), percent) }
+          : { ...cart, tip_percent: null, tip: Math.round((amount ?? 0) * 100) / 100 };
+      return {
+        cart: next,
+        result: next.tip > 0
+          ? `Tip set to $${next.tip.toFixed(2)} — total is now $${cartGrandTotal(next, menu).toFixed(2)}.`
+          : `Tip removed — total is $${cartGrandTotal(next, menu).toFixed(2)}.`,
+        isError: false,
+      };
+    }
+
+    case "use_free_drink": {
+      const use = (rawInput as { use?: boolean })?.use !== false;
+      if (!use) {
+        return {
+          cart: priced({ ...cart, free_drink: false }),
+          result: "Free drink put back on the loyalty card.",
+          isError: false,
+        };
+      }
+      if ((options.freeDrinks ?? 0) <= 0) {
+        return fail("There's no free drink on the customer's loyalty card — they need to be signed in with a full card.");
+      }
+
+      const next = priced({ ...cart, free_drink: true });
+      const line = next.discounts.find((d) => d.loyalty);
+      return {
+        cart: next,
+        result: line
+          ? `Free drink applied — $${line.amount.toFixed(2)} off, total is now $${cartTotal(next).toFixed(2)}.`
+          : "Saved the free drink, but there's no drink in the cart yet — it comes off once they add one.",
+        isError: false,
+      };
+    }
+
+    case "set_pickup_time": {
+      const time = (rawInput as { time?: string | null })?.time;
+      if (!time) {
+        return {
+          cart: { ...cart, pickup_at: null },
+          result: "Pickup set to as soon as it's ready.",
+          isError: false,
+        };
+      }
+      const at = parsePickupTime(time);
+      if (typeof at === "string") return fail(at);
+
+      const pickupAt = at.toISOString();
+      return {
+        cart: { ...cart, pickup_at: pickupAt },
+        result: `Pickup scheduled for ${formatPickupTime(pickupAt)}.`,
+        isError: false,
+      };
+    }
+
+    case "submit_order": {
+      if (cart.items.length === 0) return fail("The cart is empty — nothing to submit.");
+
+      const named: Cart = {
+        ...cart,
+        customer_name: (rawInput as { customer_name?: string | null })?.customer_name ?? null,
+      };
+      const checked = checkReceipt(
+        cartToReceipt(named, mode === "modify" ? "order_update" : "order_complete"),
+        menu,
+        promotions,
+        options
+      );
+      if (!checked.ok) {
+        return fail(
+          [...checked.issues.filter((i) => i.severity === "rejected"), ...checked.violations]
+            .map((i) => i.message)
+            .join(" ")
+        );
+      }
+      return {
+        cart: { ...named, items: checked.receipt.items, discounts: checked.receipt.discounts ?? [] },
+        result: `Order submitted — total $${(checked.receipt.grand_total ?? checked.receipt.total_price).toFixed(2)} with tax${checked.receipt.tip ? " and tip" : ""}. Confirm it to the customer in one short line.`,
+        isError: false,
+        receipt: checked.receipt,
+      };
+    }
+
+    default:
+      return fail(`Unknown tool "${name}".`);
+  }
+}
@@ -0,0 +1,64 @@
+// src/lib/customer-client.ts
+// ============================================================
+// Browser-side customer sign-in and account calls.
+//
+// Sign-in is Supabase Auth: a one-time code by text or email. The
+// email also carries a magic link back to /customer, which signs
+// the customer in on arrival. supabase-js keeps the session in
+// localStorage; authHeaders() hands its access token to our API
+// routes, which look the customer up with customerFromRequest().
+// ============================================================
+
+import { supabase } from "./supabase";
+import type { Contact } from "./customers";
+import type { LoyaltyStatus } from "./loyalty";
+import type { Customer, OrderWithItems } from "./types";
+
+export interface Account {
+  customer: Customer;
+  /** Newest first, cancelled orders left out. */
+  orders: OrderWithItems[];
+  loyalty: LoyaltyStatus;
+}
+
+export async function sendSignInCode(contact: Contact): Promise<void> {
+  const { error } =
+    "email" in contact
+      ? await supabase.auth.signInWithOtp({
+          email: contact.email,
+          options: { emailRedirectTo: `${window.location.origin}/customer` },
+        })
+      : await supabase.auth.signInWithOtp({ phone: contact.phone });
+  if (error) throw new Error(error.message);
+}
+
+export async function verifySignInCode(contact: Contact, code: string): Promise<void> {
+  const token = code.trim();
+  const { error } =
+    "email" in contact
+      ? await supabase.auth.verifyOtp({ email: contact.email, token, type: "email" })
+      : await supabase.auth.verifyOtp({ phone: contact.phone, token, type: "sms" });
+  if (error) throw new Error(error.message);
+}
+
+export async function signOut(): Promise<void> {
+  const { error } = await supabase.auth.signOut();
+  if (error) throw new Error(error.message);
+}
+
+/** Authorization header for the signed-in customer; empty for a guest. */
+export async function authHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/** The account behind an access token; null if the token is no good. */
+export async function fetchAccount(accessToken: string): Promise<Account | null> {
+  const res = await fetch("/api/customer", {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+  if (res.status === 401) return null;
+  if (!res.ok) throw new Error(`API returned ${res.status}: ${await res.text()}`);
+  return res.json();
+}
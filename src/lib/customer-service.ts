@@ -0,0 +1,132 @@
+// src/lib/customer-service.ts
+// ============================================================
+// Customer accounts, server side. The customer UI sends its
+// Supabase Auth access token as "Authorization: Bearer …" with
+// /api/chat and /api/orders calls; customerFromRequest() checks it
+// and returns the matching customers row, creating it on first use.
+// Requests without a valid token are guests (null) — signing in is
+// never required to order.
+//
+// Uses a plain (non-generic) Supabase client — same pattern as
+// order-service.ts.
+// ============================================================
+
+import { createClient } from "@supabase/supabase-js";
+import { RECENT_ORDER_COUNT } from "./customers";
+import { loyaltyStatus, type LoyaltyStatus, type PunchedOrder } from "./loyalty";
+import type { Menu } from "./menu";
+import type { Customer, OrderWithItems } from "./types";
+
+const db = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+function bearerToken(req: Request): string | null {
+  const header = req.headers.get("authorization");
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * The signed-in customer behind a request, or null for a guest.
+ * An expired or forged token is treated as a guest, not an error.
+ */
+export async function customerFromRequest(req: Request): Promise<Customer | null> {
+  const token = bearerToken(req);
+  if (!token) return null;
+
+  const { data, error } = await db.auth.getUser(token);
+  if (error || !data.user) return null;
+  const user = data.user;
+
+  const existing = await db.from("customers").select("*").eq("id", user.id).maybeSingle();
+  if (existing.error) {
+    console.error("[customer-service] load customer error:", existing.error);
+    return null;
+  }
+  if (existing.data) return existing.data as Customer;
+
+  const created = await db
+    .from("customers")
+    .upsert({ id: user.id, email: user.email ?? null, phone: user.phone || null })
+    .select()
+    .single();
+  if (created.error) {
+    console.error("[customer-service] create customer error:", created.error);
+    return null;
+  }
+  return created.data as Customer;
+}
+
+/** One customer by id, or null if there's no such row (or it can't be loaded). */
+export async function fetchCustomer(customerId: string): Promise<Customer | null> {
+  const { data, error } = await db.from("customers").select("*").eq("id", customerId).maybeSingle();
+  if (error) {
+    console.error("[customer-service] fetchCustomer error:", error);
+    return null;
+  }
+  return (data as Customer | null) ?? null;
+}
+
+/** The customer's latest orders with items, newest first. Cancelled orders are left out. */
+export async function fetchCustomerOrders(
+  customerId: string,
+  limit = RECENT_ORDER_COUNT
+): Promise<OrderWithItems[]> {
+  const { data, error } = await db
+    .from("orders")
+    .select("*, order_items(*)")
+    .eq("customer_id", customerId)
+    .neq("status", "cancelled")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error("[customer-service] fetchCustomerOrders error:", error);
+    return [];
+  }
+  return (data as unknown as OrderWithItems[]) ?? [];
+}
+
+/**
+ * The customer's punch card, counted from every order they haven't
+ * cancelled. `excludeOrderId` leaves one out — the order being
+ * modified, which can't pay for its own free drink. An empty card if
+ * the orders can't be loaded — a free drink is then simply not offered.
+ */
+export async function fetchLoyalty(
+  customerId: string,
+  menu: Menu,
+  { excludeOrderId }: { excludeOrderId?: string } = {}
+): Promise<LoyaltyStatus> {
+  let query = db
+    .from("orders")
+    .select("discounts, order_items(item_name)")
+    .eq("customer_id", customerId)
+    .neq("status", "cancelled");
+  if (excludeOrderId) query = query.neq("id", excludeOrderId);
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("[customer-service] fetchLoyalty error:", error);
+    return { punches: 0, freeDrinks: 0 };
+  }
+  return loyaltyStatus((data as unknown as PunchedOrder[]) ?? [], menu);
+}
+
+/** Keep the name on file in step with the one given on their latest order. */
+export async function rememberCustomerName(
+  customer: Customer,
+  name: string | null | undefined
+): Promise<void> {
+  const trimmed = name?.trim();
+  if (!trimmed || trimmed === customer.name) return;
+
+  const { error } = await db
+    .from("customers")
+    .update({ name: trimmed, updated_at: new Date().toISOString() })
+    .eq("id", customer.id);
+  if (error) console.error("[customer-service] rememberCustomerName error:", error);
+}
@@ -0,0 +1,108 @@
+// src/lib/customers.ts
+// ============================================================
+// Customer accounts — the parts shared by the sign-in form, the
+// account drawer and the chat route: telling a phone number from
+// an email, and turning a customer's recent orders into context
+// for the AI cashier so "the usual" and "same as yesterday" work.
+//
+// Sign-in itself is Supabase Auth (customer-client.ts); the
+// account row and order history are loaded by customer-service.ts.
+// ============================================================
+
+import { describeCartItem } from "./cart";
+import type { Menu } from "./menu";
+import { formatOrderNumber } from "./order-numbering";
+import { formatBusinessDay } from "./business-time";
+import type { Customer, OrderWithItems } from "./types";
+
+/** How many past orders the cashier is told about. */
+export const RECENT_ORDER_COUNT = 5;
+
+// ── Contact ───────────────────────────────────────────────────────────────────
+
+export type Contact = { email: string } | { phone: string };
+
+/**
+ * An email address, or a phone number as E.164 ("+12125551234").
+ * Ten-digit numbers are taken as US. null if it's neither.
+ */
+export function parseContact(raw: string): Contact | null {
+  const value = raw.trim();
+  if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) return { email: value.toLowerCase() };
+
+  const digits = value.replace(/[\s().-]/g, "");
+  if (/^\d{10}$/.test(digits)) return { phone: `+1${digits}` };
+  if (/^\+\d{8,15}$/.test(digits)) return { phone: digits };
+  return null;
+}
+
+// ── Order history ─────────────────────────────────────────────────────────────
+
+/** "Large iced Latte (oat milk), Croissant" */
+export function describeOrderItems(order: OrderWithItems, menu: Menu): string {
+  return order.order_items.map((item) => describeCartItem(item, menu)).join(", ");
+}
+
+/**
+ * The order the customer has placed more than once, most recent
+ * first on a tie. undefined when nothing repeats — "the usual" is
+ * then ambiguous and the cashier should ask.
+ */
+export function findUsualOrder(
+  orders: OrderWithItems[],
+  menu: Menu
+): OrderWithItems | undefined {
+  const counts = new Map<string, { order: OrderWithItems; count: number }>();
+  for (const order of orders) {
+    const key = order.order_items
+      .map((item) => describeCartItem(item, menu))
+      .sort()
+      .join("|");
+    const seen = counts.get(key);
+    if (seen) seen.count += 1;
+    else counts.set(key, { order, count: 1 });
+  }
+  // Map keeps insertion order and `orders` is newest first, so the
+  // first entry with the top count is the most recent.
+  let best: { order: OrderWithItems; count: number } | undefined;
+  for (const entry of counts.values()) {
+    if (entry.count > 1 && entry.count > (best?.count ?? 0)) best = entry;
+  }
+  return best?.order;
+}
+
+/**
+ * The signed-in customer for the system prompt: their name and
+ * recent orders (newest first), plus which one is "the usual".
+ */
+export function formatCustomerForPrompt(
+  customer: Customer,
+  orders: OrderWithItems[],
+  menu: Menu,
+  now = new Date()
+): string {
+  const lines = [
+    customer.name
+      ? `  Name: ${customer.name}`
+      : "  Name: not given yet — ask for it as usual",
+  ];
+
+  if (orders.length === 0) {
+    lines.push("  No past orders yet — this is their first order with an account.");
+    return lines.join("\n");
+  }
+
+  lines.push("  Recent orders, newest first:");
+  orders.forEach((order) => {
+    const day = formatBusinessDay(new Date(order.created_at), now);
+    lines.push(`  • ${day}, ${formatOrderNumber(order.order_number)}: ${describeOrderItems(order, menu)}`);
+  });
+
+  const usual = findUsualOrder(orders, menu);
+  lines.push(
+    usual
+      ? `  THE USUAL: ${describeOrderItems(usual, menu)}`
+      : "  THE USUAL: no repeat order yet — ask which past order they mean."
+  );
+  return lines.join("\n");
+}
@@ -6,8 +6,16 @@
 // ============================================================
 
 import { supabase } from "./supabase";
-import type { Order, OrderItem, AddOnLineItem } from "./types";
-import { DRINKS, PASTRIES, MILK_OPTIONS } from "./menu";
+import type { Order, OrderItem, OrderRevision, AddOnLineItem, DiscountLine } from "./types";
+import type { Menu } from "./menu";
+import { fetchMenu } from "./menu-service";
+import { findDrink, findPastry } from "./pricing";
+import { describeRevision } from "./order-revisions";
+import { FULFILLED_STATUSES, fulfilledAt } from "./order-status";
+import { describePriceRule, inPriceRuleWindow } from "./price-rules";
+import { isFreeDrinkLine } from "./loyalty";
+import { promisedAt } from "./scheduling";
+import { itemPrepMinutes } from "./wait-time";
 
 // ── Helpers ───────────────────────────────────────────────────────────────────
 
@@ -76,35 +84,32 @@ export function formatHourLabel(h: number): string {
 }
 
 // ── Menu-based item classification ────────────────────────────────────────────
-// Sort DRINKS by name length descending so "Matcha Latte" (12 chars) is tested
-// before "Latte" (5 chars), preventing wrong category matches.
+// Includes retired items so old orders still land in the right bucket.
 
-const DRINKS_BY_LENGTH = [...DRINKS].sort((a, b) => b.name.length - a.name.length);
+const loadMenu = () => fetchMenu({ includeInactive: true });
 
-function findDrink(itemName: string): typeof DRINKS[0] | undefined {
-  const n = itemName.toLowerCase();
-  return DRINKS_BY_LENGTH.find((d) => n.includes(d.name.toLowerCase()));
-}
-
-function isPastry(itemName: string): boolean {
-  const n = itemName.toLowerCase();
-  return PASTRIES.some((p) => n.includes(p.name.toLowerCase()));
+function isPastry(itemName: string, menu: Menu): boolean {
+  return findPastry(itemName, menu) !== undefined;
 }
 
 // ── Typed query helpers ───────────────────────────────────────────────────────
 // Supabase's generic type inference with partial select strings can collapse
 // to `never`. These thin helpers cast to the known row shapes.
+// Cancelled orders are excluded unless asked for — they never made money.
 
 async function queryOrders<K extends keyof Order>(
   cols: string,
   start: string,
-  end: string
+  end: string,
+  includeCancelled = false
 ): Promise<Pick<Order, K>[]> {
-  const { data } = await supabase
+  let query = supabase
     .from("orders")
     .select(cols)
     .gte("created_at", start)
     .lte("created_at", end);
+  if (!includeCancelled) query = query.neq("status", "cancelled");
+  const { data } = await query;
   return (data ?? []) as Pick<Order, K>[];
 }
 
@@ -123,9 +128,17 @@ async function queryOrderItems<K extends keyof OrderItem>(
 // ── Exported types ─────────────────────────────────────────────────────────────
 
 export interface DailyStats {
+  /** Sales after discounts — tax and tips are kept out. */
   totalRevenue: number;
   totalOrders: number;
   avgOrderValue: number;
+  /** Revenue given up to combos and promo codes. */
+  discountCost: number;
+  discountedOrders: number;
+  /** Collected on the state's and city's behalf — not revenue. */
+  taxCollected: number;
+  /** Paid through to staff — not revenue. */
+  tipsTotal: number;
   /** null = no completed orders with timestamps in range */
   avgFulfillmentTime: number | null;
 }
@@ -159,6 +172,10 @@ export interface CustomizationStats {
   sizeBreakdown: { name: string; count: number; pct: number }[];
   tempBreakdown: { name: string; count: number; pct: number }[];
   topAddOn: { name: string; totalQty: number } | null;
+  /** Among drinks that can be made decaf — Regular / Half-caf / Decaf. */
+  caffeineBreakdown: { name: string; count: number; pct: number }[];
+  /** Share of decaf-eligible drinks ordered half-caf or decaf. */
+  decafPct: number;
   hotPct: number;
   icedPct: number;
 }
@@ -166,8 +183,12 @@ export interface CustomizationStats {
 export interface StatusBreakdown {
   new: number;
   in_progress: number;
-  completed: number;
+  ready: number;
+  /** picked_up plus legacy "completed" rows */
+  picked_up: number;
+  cancelled: number;
   total: number;
+  /** Share of non-cancelled orders that are ready or picked up. */
   completedPct: number;
 }
 
@@ -182,38 +203,111 @@ export interface DayOfWeekRevenue {
   revenue: number;
 }
 
+export interface PromotionCost {
+  promotionId: string;
+  label: string;
+  uses: number;   // orders that got it
+  cost: number;   // dollars off across those orders
+}
+
+export interface WindowSales {
+  orders: number;
+  revenue: number;
+  avgTicket: number;
+  revenuePerHour: number;  // per trading hour — see fetchPriceRuleComparison
+}
+
+export interface PriceRuleComparison {
+  rule: string;
+  schedule: string;        // describePriceRule, e.g. "iced drinks 20% off, Mon–Fri 2pm–4pm"
+  active: boolean;
+  inside: WindowSales;
+  outside: WindowSales;
+}
+
+export interface LoyaltySummary {
+  members: number;      // signed-in customers who ordered
+  memberOrders: number;
+  punches: number;      // drinks that earned a punch
+  redemptions: number;  // free drinks given
+  cost: number;         // dollars of free drinks
+}
+
+export interface ItemPrepTime {
+  name: string;
+  made: number;        // items checked off on a ticket
+  avgMinutes: number;
+}
+
+export interface OrderEdit {
+  id: string;
+  orderNumber: number;
+  customerName: string | null;
+  revision: number;
+  changedBy: string;
+  createdAt: string;
+  totalDelta: number;  // new_total − previous_total
+  changes: string[];   // describeRevision lines
+}
+
 // ── 1. Stats for a date range ─────────────────────────────────────────────────
 // Replaces fetchDailyStats — accepts a DateRange so week/month views get
-// aggregated totals. Avg fulfillment time uses completed_at - created_at.
+// aggregated totals. Avg fulfillment time uses ready_at (or legacy
+// completed_at) - created_at, or - pickup_at for scheduled orders, where
+// ready early counts as zero. Cancelled orders are excluded throughout.
+// Revenue is total_price — sales tax and tips are reported beside it.
 
 export async function fetchStats(range: DateRange): Promise<DailyStats> {
-  const rows = await queryOrders<"total_price" | "created_at" | "completed_at">(
-    "total_price, created_at, completed_at",
+  const rows = await queryOrders<
+    | "total_price" | "discount_total" | "tax" | "tip"
+    | "created_at" | "pickup_at" | "ready_at" | "completed_at"
+  >(
+    "total_price, discount_total, tax, tip, created_at, pickup_at, ready_at, completed_at",
     range.start,
     range.end
   );
 
   if (rows.length === 0) {
-    return { totalRevenue: 0, totalOrders: 0, avgOrderValue: 0, avgFulfillmentTime: null };
+    return {
+      totalRevenue: 0,
+      totalOrders: 0,
+      avgOrderValue: 0,
+      discountCost: 0,
+      discountedOrders: 0,
+      taxCollected: 0,
+      tipsTotal: 0,
+      avgFulfillmentTime: null,
+    };
   }
 
   const totalRevenue  = rows.reduce((s, o) => s + (o.total_price ?? 0), 0);
   const totalOrders   = rows.length;
   const avgOrderValue = totalRevenue / totalOrders;
+  const discountCost  = rows.reduce((s, o) => s + (o.discount_total ?? 0), 0);
+  const discountedOrders = rows.filter((o) => (o.discount_total ?? 0) > 0).length;
+  const taxCollected  = rows.reduce((s, o) => s + (o.tax ?? 0), 0);
+  const tipsTotal     = rows.reduce((s, o) => s + (o.tip ?? 0), 0);
 
-  // Fulfillment time: avg minutes from created_at → completed_at (completed rows only)
-  const completed = rows.filter((o) => o.completed_at);
+  // Fulfillment time: avg minutes from when it was wanted → ready (fulfilled rows only)
+  const completed = rows.filter((o) => fulfilledAt(o));
   let avgFulfillmentTime: number | null = null;
   if (completed.length > 0) {
     const totalMs = completed.reduce((s, o) => {
-      return s + (
-        new Date(o.completed_at!).getTime() - new Date(o.created_at).getTime()
-      );
+      return s + Math.max(0, new Date(fulfilledAt(o)!).getTime() - promisedAt(o));
     }, 0);
     avgFulfillmentTime = totalMs / completed.length / 60_000; // ms → minutes
   }
 
-  return { totalRevenue, totalOrders, avgOrderValue, avgFulfillmentTime };
+  return {
+    totalRevenue,
+    totalOrders,
+    avgOrderValue,
+    discountCost,
+    discountedOrders,
+    taxCollected,
+    tipsTotal,
+    avgFulfillmentTime,
+  };
 }
 
 // ── 2. Orders by hour (day view only) ─────────────────────────────────────────
@@ -287,15 +381,18 @@ export async function fetchPopularItems(range: DateRange): Promise<PopularItem[]
   if (orders.length === 0) return [];
 
   const ids   = orders.map((o) => o.id);
-  const items = await queryOrderItems<"item_name" | "size" | "temp" | "item_price">(
-    "item_name, size, temp, item_price",
-    ids
-  );
+  const [items, menu] = await Promise.all([
+    queryOrderItems<"item_name" | "size" | "temp" | "item_price">(
+      "item_name, size, temp, item_price",
+      ids
+    ),
+    loadMenu(),
+  ]);
 
   const TEMP_EMBEDDED = ["cold", "iced", "hot", "frozen", "blended"];
 
   function makeDisplayName(item: Pick<OrderItem, "item_name" | "size" | "temp">): string {
-    if (isPastry(item.item_name)) return item.item_name;
+    if (isPastry(item.item_name, menu)) return item.item_name;
     const hasEmbedded = TEMP_EMBEDDED.some((w) =>
       item.item_name.toLowerCase().startsWith(w)
     );
@@ -304,7 +401,7 @@ export async function fetchPopularItems(range: DateRange): Promise<PopularItem[]
   }
 
   function makeKey(item: Pick<OrderItem, "item_name" | "size" | "temp">): string {
-    if (isPastry(item.item_name)) return item.item_name;
+    if (isPastry(item.item_name, menu)) return item.item_name;
     return `${item.item_name}|${item.size}|${item.temp}`;
   }
 
@@ -325,37 +422,44 @@ export async function fetchPopularItems(range: DateRange): Promise<PopularItem[]
 }
 
 // ── 5. Revenue by category ────────────────────────────────────────────────────
-// Uses menu.ts as source of truth for base prices and categories.
+// Splits the price each item was sold at — menu edits never rewrite
+// history. The menu only supplies the category and milk upcharge.
 //
 // Split logic per order_item row:
-//   • Base price   = DRINKS[match].sizes[size]   → "coffee" or "tea" bucket
-//   • Milk upcharge = MILK_OPTIONS[milk].upcharge → "addon" bucket
-//   • Explicit add_ons[] (shots, syrups)          → "addon" bucket
-//   • Pastries: full item_price                   → "pastry" bucket
+//   • Explicit add_ons[] (qty × stored unit_price) → "addon" bucket
+//   • Milk upcharge = menu milk option upcharge    → "addon" bucket
+//   • Base = item_price − the two above            → "coffee" or "tea" bucket
+//   • Pastries: full item_price                    → "pastry" bucket
 
 export async function fetchRevenueByCategory(range: DateRange): Promise<CategoryRevenue[]> {
   const orders = await queryOrders<"id">("id", range.start, range.end);
   if (orders.length === 0) return [];
 
   const ids   = orders.map((o) => o.id);
-  const items = await queryOrderItems<"item_name" | "size" | "milk" | "item_price" | "add_ons">(
-    "item_name, size, milk, item_price, add_ons",
-    ids
-  );
+  const [items, menu] = await Promise.all([
+    queryOrderItems<"item_name" | "milk" | "item_price" | "add_ons">(
+      "item_name, milk, item_price, add_ons",
+      ids
+    ),
+    loadMenu(),
+  ]);
 
   const revenues = { coffee: 0, tea: 0, pastry: 0, addon: 0 };
 
   items.forEach((item) => {
-    const drink = findDrink(item.item_name);
+    const drink = findDrink(item.item_name, menu);
     if (drink) {
-      const sizeKey: "small" | "large" = item.size === "large" ? "large" : "small";
-      const basePrice    = drink.sizes[sizeKey];
-      const milkUpcharge = MILK_OPTIONS.find((m) => m.name === item.milk)?.upcharge ?? 0;
+      const itemPrice    = item.item_price ?? 0;
       const addOns       = (item.add_ons as unknown as AddOnLineItem[] | null) ?? [];
       const addOnTotal   = addOns.reduce((s, a) => s + (a.qty ?? 0) * (a.unit_price ?? 0), 0);
+      const milkUpcharge = Math.min(
+        menu.milkOptions.find((m) => m.name === item.milk)?.upcharge ?? 0,
+        Math.max(itemPrice - addOnTotal, 0)
+      );
+      const basePrice    = Math.max(itemPrice - addOnTotal - milkUpcharge, 0);
 
       revenues[drink.category] += basePrice;
-      revenues.addon            += milkUpcharge + addOnTotal;
+      revenues.addon            += itemPrice - basePrice;
     } else {
       revenues.pastry += item.item_price ?? 0;
     }
@@ -374,7 +478,7 @@ export async function fetchRevenueByCategory(range: DateRange): Promise<Category
 }
 
 // ── 6. Customization stats ────────────────────────────────────────────────────
-// Milk type breakdown, size split, hot/iced split, top add-on.
+// Milk type breakdown, size split, hot/iced split, top add-on, decaf share.
 // Pastry items are excluded from drink-centric stats.
 
 export async function fetchCustomizationStats(range: DateRange): Promise<CustomizationStats> {
@@ -383,6 +487,8 @@ export async function fetchCustomizationStats(range: DateRange): Promise<Customi
     sizeBreakdown: [],
     tempBreakdown: [],
     topAddOn:      null,
+    caffeineBreakdown: [],
+    decafPct:      0,
     hotPct:        0,
     icedPct:       0,
   };
@@ -391,14 +497,17 @@ export async function fetchCustomizationStats(range: DateRange): Promise<Customi
   if (orders.length === 0) return empty;
 
   const ids   = orders.map((o) => o.id);
-  const items = await queryOrderItems<"item_name" | "size" | "temp" | "milk" | "add_ons">(
-    "item_name, size, temp, milk, add_ons",
-    ids
-  );
+  const [items, menu] = await Promise.all([
+    queryOrderItems<"item_name" | "size" | "temp" | "milk" | "caffeine" | "add_ons">(
+      "item_name, size, temp, milk, caffeine, add_ons",
+      ids
+    ),
+    loadMenu(),
+  ]);
 
   if (items.length === 0) return empty;
 
-  const drinks = items.filter((i) => !isPastry(i.item_name));
+  const drinks = items.filter((i) => !isPastry(i.item_name, menu));
 
   // Milk breakdown (among drinks that have a milk value)
   const milkDrinks = drinks.filter((i) => i.milk);
@@ -416,13 +525,26 @@ export async function fetchCustomizationStats(range: DateRange): Promise<Customi
     }))
     .sort((a, b) => b.count - a.count);
 
-  // Size breakdown (all drinks)
+  // Size breakdown (all drinks). Sizes are per drink, so a name that
+  // means the same ounces everywhere gets them in its label ("Medium 14oz").
   const sizeCounts: Record<string, number> = {};
-  drinks.forEach((i) => { sizeCounts[i.size] = (sizeCounts[i.size] || 0) + 1; });
+  drinks.forEach((i) => {
+    const size = i.size.toLowerCase();
+    sizeCounts[size] = (sizeCounts[size] || 0) + 1;
+  });
+  const sizeOz = new Map<string, Set<number>>();
+  menu.drinks.forEach((d) => d.sizes.forEach((s) => {
+    const name = s.name.toLowerCase();
+    sizeOz.set(name, (sizeOz.get(name) ?? new Set<number>()).add(s.oz));
+  }));
+  const sizeLabel = (name: string) => {
+    const oz = sizeOz.get(name);
+    return oz?.size === 1 ? `${cap(name)} ${[...oz][0]}oz` : cap(name);
+  };
   const sizeTotal = drinks.length;
   const sizeBreakdown = Object.entries(sizeCounts)
     .map(([name, count]) => ({
-      name: cap(name),
+      name: sizeLabel(name),
       count,
       pct: sizeTotal > 0 ? Math.round((count / sizeTotal) * 100) : 0,
     }))
@@ -454,26 +576,59 @@ export async function fetchCustomizationStats(range: DateRange): Promise<Customi
   const topEntry = Object.entries(addonQty).sort((a, b) => b[1] - a[1])[0];
   const topAddOn = topEntry ? { name: topEntry[0], totalQty: topEntry[1] } : null;
 
-  return { milkBreakdown, sizeBreakdown, tempBreakdown, topAddOn, hotPct, icedPct };
+  // Caffeine — only drinks that offer decaf, so teas don't dilute it.
+  const decafable = drinks.filter((i) => findDrink(i.item_name, menu)?.decafAllowed === true);
+  const caffeineCounts: Record<string, number> = {};
+  decafable.forEach((i) => {
+    const c = i.caffeine ?? "regular";
+    caffeineCounts[c] = (caffeineCounts[c] || 0) + 1;
+  });
+  const caffeineTotal = decafable.length;
+  const caffeineBreakdown = Object.entries(caffeineCounts)
+    .map(([name, count]) => ({
+      name: cap(name),
+      count,
+      pct: caffeineTotal > 0 ? Math.round((count / caffeineTotal) * 100) : 0,
+    }))
+    .sort((a, b) => b.count - a.count);
+  const decafPct = caffeineTotal > 0
+    ? Math.round(((caffeineTotal - (caffeineCounts["regular"] ?? 0)) / caffeineTotal) * 100)
+    : 0;
+
+  return {
+    milkBreakdown,
+    sizeBreakdown,
+    tempBreakdown,
+    topAddOn,
+    caffeineBreakdown,
+    decafPct,
+    hotPct,
+    icedPct,
+  };
 }
 
 // ── 7. Order status breakdown ─────────────────────────────────────────────────
 
 export async function fetchOrderStatusBreakdown(range: DateRange): Promise<StatusBreakdown> {
-  const rows = await queryOrders<"status">("status", range.start, range.end);
+  const rows = await queryOrders<"status">("status", range.start, range.end, true);
 
-  const counts = { new: 0, in_progress: 0, completed: 0 };
+  const counts = { new: 0, in_progress: 0, ready: 0, picked_up: 0, cancelled: 0 };
+  let fulfilled = 0;
   rows.forEach((o) => {
     if (o.status === "new")              counts.new++;
     else if (o.status === "in_progress") counts.in_progress++;
-    else if (o.status === "completed")   counts.completed++;
+    else if (o.status === "ready")       counts.ready++;
+    else if (o.status === "cancelled")   counts.cancelled++;
+    else                                 counts.picked_up++; // picked_up / legacy completed
+    if (FULFILLED_STATUSES.includes(o.status)) fulfilled++;
   });
 
-  const total = rows.length;
+  const total  = rows.length;
+  const active = total - counts.cancelled;
   return {
     ...counts,
     total,
-    completedPct: total > 0 ? Math.round((counts.completed / total) * 100) : 0,
+    completedPct: active > 0 ? Math.round((fulfilled / active) * 100) : 0,
   };
 }
 
@@ -537,3 +692,169 @@ export async function fetchRevenueByDayOfWeek(range: DateRange): Promise<DayOfWe
     revenue: revenueByDow[dow] ?? 0,
   }));
 }
+
+// ── 10. Order edit audit ──────────────────────────────────────────────────────
+// Every order_revisions row in the range, newest first, with its diff.
+
+export async function fetchOrderEdits(range: DateRange): Promise<OrderEdit[]> {
+  const menu = await loadMenu();
+  const { data } = await supabase
+    .from("order_revisions")
+    .select("*, orders(order_number, customer_name)")
+    .gte("created_at", range.start)
+    .lte("created_at", range.end)
+    .order("created_at", { ascending: false });
+
+  const rows = (data ?? []) as unknown as (OrderRevision & {
+    orders: Pick<Order, "order_number" | "customer_name"> | null;
+  })[];
+
+  return rows.map((r) => ({
+    id:           r.id,
+    orderNumber:  r.orders?.order_number ?? 0,
+    customerName: r.orders?.customer_name ?? null,
+    revision:     r.revision,
+    changedBy:    r.changed_by,
+    createdAt:    r.created_at,
+    totalDelta:   r.new_total - r.previous_total,
+    changes:      describeRevision(r, menu),
+  }));
+}
+
+// ── 11. Discount cost by promotion ────────────────────────────────────────────
+// From the discount lines saved on each order, so a promotion that has
+// since been edited or switched off still reports what it cost.
+
+export async function fetchPromotionCosts(range: DateRange): Promise<PromotionCost[]> {
+  const rows = await queryOrders<"discounts">("discounts", range.start, range.end);
+
+  const map: Record<string, PromotionCost> = {};
+  rows.forEach((o) => {
+    const lines = (o.discounts as unknown as DiscountLine[] | null) ?? [];
+    const seen = new Set<string>();
+    lines.forEach((d) => {
+      // Loyalty free drinks have no promotion — see fetchLoyaltySummary.
+      if (isFreeDrinkLine(d) || !d.promotion_id) return;
+      const entry = (map[d.promotion_id] ??= {
+        promotionId: d.promotion_id,
+        label: d.label,
+        uses: 0,
+        cost: 0,
+      });
+      entry.cost += d.amount ?? 0;
+      // A combo can apply more than once per order — count the order once.
+      if (!seen.has(d.promotion_id)) entry.uses++;
+      seen.add(d.promotion_id);
+    });
+  });
+
+  return Object.values(map).sort((a, b) => b.cost - a.cost);
+}
+
+// ── 12. Revenue inside vs outside price-rule windows ──────────────────────────
+// Buckets each order by whether it was placed inside the rule's
+// schedule (shop time). Windows are short, so revenue per hour is the
+// fair comparison; an hour counts as trading when it had an order,
+// which leaves closed hours out of the "outside" side.
+
+function windowSales(rows: Pick<Order, "total_price" | "created_at">[]): WindowSales {
+  const revenue = rows.reduce((s, o) => s + (o.total_price ?? 0), 0);
+  // "2026-10-19T14" — one bucket per clock hour
+  const hours = new Set(rows.map((o) => new Date(o.created_at).toISOString().slice(0, 13))).size;
+  return {
+    orders: rows.length,
+    revenue,
+    avgTicket: rows.length > 0 ? revenue / rows.length : 0,
+    revenuePerHour: hours > 0 ? revenue / hours : 0,
+  };
+}
+
+export async function fetchPriceRuleComparison(range: DateRange): Promise<PriceRuleComparison[]> {
+  const [menu, rows] = await Promise.all([
+    loadMenu(),
+    queryOrders<"total_price" | "created_at">("total_price, created_at", range.start, range.end),
+  ]);
+
+  return menu.priceRules.map((rule) => {
+    const inside = rows.filter((o) => inPriceRuleWindow(rule, new Date(o.created_at)));
+    const outside = rows.filter((o) => !inPriceRuleWindow(rule, new Date(o.created_at)));
+    return {
+      rule: rule.name,
+      schedule: describePriceRule(rule),
+      active: rule.active !== false,
+      inside: windowSales(inside),
+      outside: windowSales(outside),
+    };
+  });
+}
+
+// ── 13. Loyalty punch card ────────────────────────────────────────────────────
+// Only orders linked to a customer account take part. Redemptions and
+// cost come from the free-drink discount lines; punches are the
+// members' drinks, less the free ones.
+
+export async function fetchLoyaltySummary(range: DateRange): Promise<LoyaltySummary> {
+  const [menu, rows] = await Promise.all([
+    loadMenu(),
+    queryOrders<"id" | "customer_id" | "discounts">(
+      "id, customer_id, discounts",
+      range.start,
+      range.end
+    ),
+  ]);
+  const memberRows = rows.filter((o) => o.customer_id);
+
+  let redemptions = 0;
+  let cost = 0;
+  memberRows.forEach((o) => {
+    const lines = (o.discounts as unknown as DiscountLine[] | null) ?? [];
+    lines.filter(isFreeDrinkLine).forEach((d) => {
+      redemptions++;
+      cost += d.amount ?? 0;
+    });
+  });
+
+  const items = await queryOrderItems<"item_name">(
+    "item_name",
+    memberRows.map((o) => o.id)
+  );
+  const drinks = items.filter((i) => findDrink(i.item_name, menu)).length;
+
+  return {
+    members: new Set(memberRows.map((o) => o.customer_id)).size,
+    memberOrders: memberRows.length,
+    punches: Math.max(0, drinks - redemptions),
+    redemptions,
+    cost,
+  };
+}
+
+// ── 14. Prep time per item ────────────────────────────────────────────────────
+// From tickets where every line was checked off as it was made (see
+// itemPrepMinutes in wait-time.ts) — orders marked ready in one tap
+// don't say which item took how long. Slowest first.
+
+export async function fetchItemPrepTimes(range: DateRange): Promise<ItemPrepTime[]> {
+  const rows = await queryOrders<"id" | "started_at">("id, started_at", range.start, range.end);
+  const started = rows.filter((o) => o.started_at);
+  const items = await queryOrderItems<"order_id" | "item_name" | "done_at">(
+    "order_id, item_name, done_at",
+    started.map((o) => o.id)
+  );
+
+  const byOrder = new Map<string, typeof items>();
+  items.forEach((i) => byOrder.set(i.order_id, [...(byOrder.get(i.order_id) ?? []), i]));
+
+  const totals = new Map<string, { made: number; minutes: number }>();
+  started.forEach((o) => {
+    const timed = itemPrepMinutes({ started_at: o.started_at, order_items: byOrder.get(o.id) ?? [] });
+    timed?.forEach(({ item_name, minutes }) => {
+      const t = totals.get(item_name) ?? { made: 0, minutes: 0 };
+      totals.set(item_name, { made: t.made + 1, minutes: t.minutes + minutes });
+    });
+  });
+
+  return Array.from(totals.entries())
+    .map(([name, t]) => ({ name, made: t.made, avgMinutes: t.minutes / t.made }))
+    .sort((a, b) => b.avgMinutes - a.avgMinutes);
+}
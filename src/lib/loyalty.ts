@@ -0,0 +1,88 @@
+// src/lib/loyalty.ts
+// ============================================================
+// Loyalty punch card — buy PUNCHES_PER_REWARD drinks, the next
+// one is free. For signed-in customers only.
+//
+// Punches aren't stored: they're counted from the customer's
+// orders (fetchLoyalty in customer-service.ts), so a cancelled
+// order gives back both its punches and any free drink it used.
+// The free drink itself is a discount line (loyalty: true) that
+// pricing.ts adds after promotions when the receipt asks for it
+// (free_drink) and PricingOptions.freeDrinks says the card has one.
+// The database counts the card again when the order is saved
+// (…_loyalty_redemption.sql), so two orders can't spend the same one.
+// ============================================================
+
+import type { Menu } from "./menu";
+import { findDrink } from "./pricing";
+import type { ReceiptItem } from "./order-service";
+import type { DiscountLine } from "./types";
+
+export const PUNCHES_PER_REWARD = 9;
+
+export const FREE_DRINK_LABEL = "Loyalty card — free drink";
+
+export interface LoyaltyStatus {
+  /** Punches toward the next free drink, 0 to PUNCHES_PER_REWARD - 1. */
+  punches: number;
+  /** Free drinks earned and not used yet. */
+  freeDrinks: number;
+}
+
+/** What loyaltyStatus() needs from each order. */
+export interface PunchedOrder {
+  order_items: { item_name: string }[];
+  discounts: DiscountLine[] | null;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export function isFreeDrinkLine(d: DiscountLine): boolean {
+  return d.loyalty === true;
+}
+
+function freeDrinksUsed(order: PunchedOrder): number {
+  return (order.discounts ?? []).filter(isFreeDrinkLine).length;
+}
+
+/** Drinks on an order that earn a punch — the free one doesn't. */
+export function orderPunches(order: PunchedOrder, menu: Menu): number {
+  const drinks = order.order_items.filter((i) => findDrink(i.item_name, menu)).length;
+  return Math.max(0, drinks - freeDrinksUsed(order));
+}
+
+/** The card across all of a customer's (non-cancelled) orders. */
+export function loyaltyStatus(orders: PunchedOrder[], menu: Menu): LoyaltyStatus {
+  const earned = orders.reduce((s, o) => s + orderPunches(o, menu), 0);
+  const used = orders.reduce((s, o) => s + freeDrinksUsed(o), 0);
+  return {
+    punches: earned % PUNCHES_PER_REWARD,
+    freeDrinks: Math.max(0, Math.floor(earned / PUNCHES_PER_REWARD) - used),
+  };
+}
+
+/**
+ * The free-drink discount: the priciest drink on the order, add-ons
+ * and all, capped at what's left after promotions. null when the
+ * order has no drink.
+ */
+export function freeDrinkDiscount(
+  items: ReceiptItem[],
+  remaining: number,
+  menu: Menu
+): DiscountLine | null {
+  const prices = items.filter((i) => findDrink(i.item_name, menu)).map((i) => i.item_price);
+  if (prices.length === 0) return null;
+  const amount = round2(Math.min(Math.max(...prices), remaining));
+  if (amount <= 0) return null;
+  return { promotion_id: null, label: FREE_DRINK_LABEL, code: null, amount, loyalty: true };
+}
+
+/** "6 of 9 punches — 3 more drinks to a free one" */
+export function describeLoyalty(status: LoyaltyStatus): string {
+  const toGo = PUNCHES_PER_REWARD - status.punches;
+  const progress = `${status.punches} of ${PUNCHES_PER_REWARD} punches — ${toGo} more drink${toGo === 1 ? "" : "s"} to a free one`;
+  if (status.freeDrinks === 0) return progress;
+  const ready = status.freeDrinks === 1 ? "1 free drink ready" : `${status.freeDrinks} free drinks ready`;
+  return `${ready}; ${progress}`;
+}
@@ -0,0 +1,354 @@
+// src/lib/menu-service.ts
+// ============================================================
+// Loads and edits the menu tables (menu_drinks, menu_pastries,
+// menu_milk_options, menu_modifier_groups, menu_add_ons,
+// menu_price_rules).
+//
+// fetchMenu() is what the chat route, the order routes, the menu
+// drawer and the dashboard read instead of the old constants.
+// Sold-out items are included, flagged `available: false`. If
+// the tables are missing or empty it falls back to DEFAULT_MENU
+// so the kiosk keeps taking orders.
+//
+// Uses a plain (non-generic) Supabase client — same pattern as
+// order-service.ts.
+// ============================================================
+
+import { createClient } from "@supabase/supabase-js";
+import {
+  DEFAULT_MENU,
+  type AddOn,
+  type Allergen,
+  type DrinkItem,
+  type Menu,
+  type MenuSection,
+  type MilkOptionItem,
+  type ModifierGroup,
+  type Nutrition,
+  type PastryItem,
+  type PriceRule,
+  type Temperature,
+} from "./menu";
+import type {
+  MenuAddOnRow,
+  MenuDrinkRow,
+  MenuMilkOptionRow,
+  MenuModifierGroupRow,
+  MenuPastryRow,
+  MenuPriceRuleRow,
+  NutritionJson,
+} from "./types";
+
+const db = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+// ── Row mapping ───────────────────────────────────────────────────────────────
+
+function nutritionFromJson(j: NutritionJson | null | undefined): Nutrition | undefined {
+  if (!j) return undefined;
+  return {
+    calories: Number(j.calories),
+    sugarG: Number(j.sugar_g),
+    caffeineMg: Number(j.caffeine_mg),
+  };
+}
+
+function nutritionToJson(n: Nutrition | undefined): NutritionJson | null {
+  return n ? { calories: n.calories, sugar_g: n.sugarG, caffeine_mg: n.caffeineMg } : null;
+}
+
+function drinkFromRow(r: MenuDrinkRow): DrinkItem {
+  return {
+    id: r.id,
+    name: r.name,
+    category: r.category,
+    sizes: (r.sizes ?? []).map((s) => ({
+      name: s.name,
+      oz: Number(s.oz),
+      price: Number(s.price),
+      nutrition: nutritionFromJson(s.nutrition),
+    })),
+    temps: r.temps,
+    defaultTemp: r.default_temp,
+    hasMilk: r.has_milk,
+    milkAllowed: r.milk_allowed,
+    hasEspresso: r.has_espresso,
+    hasMatcha: r.has_matcha,
+    decafAllowed: r.decaf_allowed,
+    isBlended: r.is_blended,
+    modifierGroups: r.modifier_groups ?? [],
+    allergens: (r.allergens ?? []) as Allergen[],
+    taxable: r.taxable ?? true,
+    active: r.active,
+    available: r.available,
+  };
+}
+
+function pastryFromRow(r: MenuPastryRow): PastryItem {
+  return {
+    id: r.id,
+    name: r.name,
+    price: Number(r.price),
+    allergens: (r.allergens ?? []) as Allergen[],
+    nutrition: nutritionFromJson(r.nutrition),
+    taxable: r.taxable ?? false,
+    active: r.active,
+    available: r.available,
+  };
+}
+
+function milkFromRow(r: MenuMilkOptionRow): MilkOptionItem {
+  return {
+    id: r.id,
+    name: r.name,
+    label: r.label,
+    upcharge: Number(r.upcharge),
+    allergens: (r.allergens ?? []) as Allergen[],
+    nutrition: nutritionFromJson(r.nutrition),
+    active: r.active,
+    available: r.available,
+  };
+}
+
+function modifierGroupFromRow(r: MenuModifierGroupRow): ModifierGroup {
+  return {
+    id: r.id,
+    name: r.name,
+    unit: r.unit,
+    min: r.min_qty,
+    max: r.max_qty,
+    active: r.active,
+  };
+}
+
+function addOnFromRow(r: MenuAddOnRow): AddOn {
+  return {
+    id: r.id,
+    name: r.name,
+    group: r.group_name,
+    price: Number(r.price),
+    maxQty: r.max_qty,
+    allergens: (r.allergens ?? []) as Allergen[],
+    nutrition: nutritionFromJson(r.nutrition),
+    active: r.active,
+    available: r.available,
+  };
+}
+
+function priceRuleFromRow(r: MenuPriceRuleRow): PriceRule {
+  return {
+    id: r.id,
+    name: r.name,
+    appliesTo: r.applies_to ?? [],
+    temp: r.temp as Temperature | null,
+    percentOff: Number(r.percent_off),
+    days: r.days ?? [],
+    // "14:00:00" → "14:00"
+    startTime: r.start_time.slice(0, 5),
+    endTime: r.end_time.slice(0, 5),
+    active: r.active,
+  };
+}
+
+// ── Loading ───────────────────────────────────────────────────────────────────
+
+async function selectRows<T>(table: string, includeInactive: boolean): Promise<T[]> {
+  let query = db.from(table).select("*");
+  if (!includeInactive) query = query.eq("active", true);
+
+  const { data, error } = await query
+    .order("sort_order", { ascending: true })
+    .order("name", { ascending: true });
+
+  if (error) throw new Error(`Failed to load ${table}: ${error.message}`);
+  return (data as T[]) ?? [];
+}
+
+/**
+ * The current menu. Retired (inactive) items are left out unless
+ * `includeInactive` is set — the dashboard and editor need them to
+ * classify old orders and to re-enable items.
+ */
+export async function fetchMenu(
+  { includeInactive = false }: { includeInactive?: boolean } = {}
+): Promise<Menu> {
+  try {
+    const [drinks, pastries, milks, groups, addOns, priceRules] = await Promise.all([
+      selectRows<MenuDrinkRow>("menu_drinks", includeInactive),
+      selectRows<MenuPastryRow>("menu_pastries", includeInactive),
+      selectRows<MenuMilkOptionRow>("menu_milk_options", includeInactive),
+      selectRows<MenuModifierGroupRow>("menu_modifier_groups", includeInactive),
+      selectRows<MenuAddOnRow>("menu_add_ons", includeInactive),
+      selectRows<MenuPriceRuleRow>("menu_price_rules", includeInactive),
+    ]);
+
+    if (drinks.length === 0 && pastries.length === 0) {
+      console.warn("[menu-service] menu tables are empty — using DEFAULT_MENU");
+      return DEFAULT_MENU;
+    }
+
+    return {
+      drinks: drinks.map(drinkFromRow),
+      pastries: pastries.map(pastryFromRow),
+      milkOptions: milks.map(milkFromRow),
+      modifierGroups: groups.map(modifierGroupFromRow),
+      addOns: addOns.map(addOnFromRow),
+      priceRules: priceRules.map(priceRuleFromRow),
+    };
+  } catch (err) {
+    console.error("[menu-service] fetchMenu failed — using DEFAULT_MENU:", err);
+    return DEFAULT_MENU;
+  }
+}
+
+// ── Editing (/owner/menu) ─────────────────────────────────────────────────────
+// Items are never deleted — set `active: false` to take one off the
+// menu. Prices already on order_items are untouched by any of these.
+// `available` is left alone here; it belongs to setAvailability.
+
+async function upsertRow<T>(table: string, row: Record<string, unknown>): Promise<T> {
+  const { data, error } = await db
+    .from(table)
+    .upsert({ ...row, updated_at: new Date().toISOString() })
+    .select()
+    .single();
+
+  if (error) throw new Error(`Failed to save ${table}: ${error.message}`);
+  return data as T;
+}
+
+/** `sortOrder` only matters for new items — existing rows keep theirs. */
+export async function saveDrink(drink: DrinkItem, sortOrder?: number): Promise<DrinkItem> {
+  const row = await upsertRow<MenuDrinkRow>("menu_drinks", {
+    ...(drink.id && { id: drink.id }),
+    ...(sortOrder !== undefined && { sort_order: sortOrder }),
+    name: drink.name.trim(),
+    category: drink.category,
+    sizes: drink.sizes
+      .map((s) => ({
+        name: s.name.trim().toLowerCase(),
+        oz: s.oz,
+        price: s.price,
+        ...(s.nutrition && { nutrition: nutritionToJson(s.nutrition) }),
+      }))
+      .sort((a, b) => a.oz - b.oz),
+    temps: drink.temps,
+    default_temp: drink.temps.includes(drink.defaultTemp) ? drink.defaultTemp : drink.temps[0],
+    has_milk: drink.hasMilk,
+    milk_allowed: drink.milkAllowed,
+    has_espresso: drink.hasEspresso,
+    has_matcha: drink.hasMatcha,
+    decaf_allowed: drink.decafAllowed,
+    is_blended: drink.isBlended,
+    modifier_groups: drink.modifierGroups,
+    allergens: drink.allergens,
+    taxable: drink.taxable,
+    active: drink.active ?? true,
+  });
+  return drinkFromRow(row);
+}
+
+export async function savePastry(pastry: PastryItem, sortOrder?: number): Promise<PastryItem> {
+  const row = await upsertRow<MenuPastryRow>("menu_pastries", {
+    ...(pastry.id && { id: pastry.id }),
+    ...(sortOrder !== undefined && { sort_order: sortOrder }),
+    name: pastry.name.trim(),
+    price: pastry.price,
+    allergens: pastry.allergens,
+    nutrition: nutritionToJson(pastry.nutrition),
+    taxable: pastry.taxable,
+    active: pastry.active ?? true,
+  });
+  return pastryFromRow(row);
+}
+
+export async function saveMilkOption(
+  milk: MilkOptionItem,
+  sortOrder?: number
+): Promise<MilkOptionItem> {
+  const row = await upsertRow<MenuMilkOptionRow>("menu_milk_options", {
+    ...(milk.id && { id: milk.id }),
+    ...(sortOrder !== undefined && { sort_order: sortOrder }),
+    name: milk.name.trim().toLowerCase(),
+    label: milk.label.trim(),
+    upcharge: milk.upcharge,
+    allergens: milk.allergens,
+    nutrition: nutritionToJson(milk.nutrition),
+    active: milk.active ?? true,
+  });
+  return milkFromRow(row);
+}
+
+export async function saveModifierGroup(
+  group: ModifierGroup,
+  sortOrder?: number
+): Promise<ModifierGroup> {
+  const row = await upsertRow<MenuModifierGroupRow>("menu_modifier_groups", {
+    ...(group.id && { id: group.id }),
+    ...(sortOrder !== undefined && { sort_order: sortOrder }),
+    name: group.name.trim(),
+    unit: group.unit.trim().toLowerCase(),
+    min_qty: group.min,
+    max_qty: group.max,
+    active: group.active ?? true,
+  });
+  return modifierGroupFromRow(row);
+}
+
+export async function saveAddOn(addOn: AddOn, sortOrder?: number): Promise<AddOn> {
+  const row = await upsertRow<MenuAddOnRow>("menu_add_ons", {
+    ...(addOn.id && { id: addOn.id }),
+    ...(sortOrder !== undefined && { sort_order: sortOrder }),
+    name: addOn.name.trim(),
+    group_name: addOn.group,
+    price: addOn.price,
+    max_qty: addOn.maxQty,
+    allergens: addOn.allergens,
+    nutrition: nutritionToJson(addOn.nutrition),
+    active: addOn.active ?? true,
+  });
+  return addOnFromRow(row);
+}
+
+export async function savePriceRule(rule: PriceRule, sortOrder?: number): Promise<PriceRule> {
+  const row = await upsertRow<MenuPriceRuleRow>("menu_price_rules", {
+    ...(rule.id && { id: rule.id }),
+    ...(sortOrder !== undefined && { sort_order: sortOrder }),
+    name: rule.name.trim(),
+    applies_to: rule.appliesTo.map((s) => s.trim()).filter(Boolean),
+    temp: rule.temp,
+    percent_off: rule.percentOff,
+    days: [...rule.days].sort((a, b) => a - b),
+    start_time: rule.startTime,
+    end_time: rule.endTime,
+    active: rule.active ?? true,
+  });
+  return priceRuleFromRow(row);
+}
+
+// ── Availability (barista "86" toggle) ────────────────────────────────────────
+
+const SECTION_TABLES: Record<MenuSection, string> = {
+  drinks:      "menu_drinks",
+  pastries:    "menu_pastries",
+  milkOptions: "menu_milk_options",
+  addOns:      "menu_add_ons",
+};
+
+/** Mark an item sold out (false) or back in stock (true). */
+export async function setAvailability(
+  section: MenuSection,
+  id: string,
+  available: boolean
+): Promise<void> {
+  const { error } = await db
+    .from(SECTION_TABLES[section])
+    .update({ available, updated_at: new Date().toISOString() })
+    .eq("id", id);
+
+  if (error) {
+    throw new Error(`Failed to update availability: ${error.message}`);
+  }
+}
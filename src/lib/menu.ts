@@ -1,42 +1,141 @@
 // src/lib/menu.ts
 // ============================================================
 // NYC Coffee — Complete Menu Definition
-// Source of truth for AI system prompt, menu drawer, and pricing
+// Types, validation rules and the built-in DEFAULT_MENU. The live
+// menu is stored in Supabase and loaded by src/lib/menu-service.ts;
+// DEFAULT_MENU seeds those tables and is the fallback when they
+// can't be read.
 // ============================================================
 
 // ----------------- Types -----------------
 
-export type Size = "small" | "large";
+export type Size = string;      // a SizeOption name, e.g. "small", "medium", "20oz"
 export type Temperature = "hot" | "iced";
 export type MilkOption = "whole" | "skim" | "oat" | "almond";
 export type SweetnessLevel = "no sugar" | "less sugar" | "regular" | "extra sugar";
 export type IceLevel = "no ice" | "less ice" | "regular" | "extra ice";
+export type CaffeineLevel = "regular" | "half-caf" | "decaf";
+export type Allergen = "milk" | "eggs" | "wheat" | "soy" | "tree nuts" | "peanuts" | "sesame";
+
+/**
+ * Approximate nutrition facts. For drinks it's per size, made with
+ * whole milk (if any) at regular sweetness; milk options hold the
+ * difference from whole milk in a 12oz milk drink; add-ons are per unit.
+ */
+export interface Nutrition {
+  calories: number;
+  sugarG: number;
+  caffeineMg: number;
+}
 export type DrinkCategory = "coffee" | "tea";
 
+export interface SizeOption {
+  name: string;                // stored on order_items.size
+  oz: number;
+  price: number;
+  nutrition?: Nutrition;       // unset = no data, never guessed
+}
+
 export interface DrinkItem {
+  id?: string;                 // menu_drinks.id — unset for DEFAULT_MENU entries
   name: string;
   category: DrinkCategory;
-  sizes: { small: number; large: number };
+  sizes: SizeOption[];         // in menu order, smallest first
   temps: Temperature[];        // allowed temperatures
   defaultTemp: Temperature;
   hasMilk: boolean;            // whether the drink naturally contains milk
+  milkAllowed: boolean;        // whether milk may be added at all
   hasEspresso: boolean;        // whether espresso shots can be added
   hasMatcha: boolean;          // whether matcha shots can be added
+  decafAllowed: boolean;       // espresso drinks can be made half-caf / decaf
   isBlended: boolean;          // frappuccinos — no ice level adjustments
+  modifierGroups: string[];    // ModifierGroup names this drink takes
+  allergens: Allergen[];       // excluding the milk choice — that comes from MilkOptionItem
+  taxable: boolean;            // charged sales tax — see src/lib/tax.ts
+  active?: boolean;            // false = retired; kept for historical orders
+  available?: boolean;         // false = 86'd (sold out right now)
 }
 
-export interface AddOn {
+/**
+ * A set of add-ons chosen together — "Syrups: choose 0–6 pumps",
+ * "Espresso Shots: 0–5". Drinks opt in by name (DrinkItem.modifierGroups);
+ * min/max bound the total quantity across the group's add-ons.
+ */
+export interface ModifierGroup {
+  id?: string;
   name: string;
+  unit: string;                // "pump", "shot" — "" prices as "each"
+  min: number;
+  max: number;
+  active?: boolean;
+}
+
+/** One option within a ModifierGroup, priced per unit. */
+export interface AddOn {
+  id?: string;
+  name: string;                // stored on order_items.add_ons[].name
+  group: string;               // ModifierGroup name
   price: number;
-  maxQty: number;
-  applicableTo: "milk-drinks" | "espresso-drinks" | "matcha-drinks" | "any";
+  maxQty: number;              // per-option cap, within the group's max
+  allergens: Allergen[];
+  nutrition?: Nutrition;       // per unit
+  active?: boolean;
+  available?: boolean;
 }
 
 export interface PastryItem {
+  id?: string;
   name: string;
   price: number;
+  allergens: Allergen[];
+  nutrition?: Nutrition;
+  taxable: boolean;            // bakery items sold to go are exempt in NY
+  active?: boolean;
+  available?: boolean;
+}
+
+export interface MilkOptionItem {
+  id?: string;
+  name: string;                // stored on order_items.milk, e.g. "oat"
+  label: string;
+  upcharge: number;
+  allergens: Allergen[];
+  nutrition?: Nutrition;       // difference from whole milk, 12oz milk drink
+  active?: boolean;
+  available?: boolean;
+}
+
+/**
+ * A scheduled price change — "iced drinks 20% off, weekdays 2–4pm".
+ * Days and times are in BUSINESS_TIMEZONE; src/lib/price-rules.ts
+ * decides which rules are running and what they take off.
+ */
+export interface PriceRule {
+  id?: string;
+  name: string;
+  appliesTo: string[];         // "drink", "coffee", "tea", "pastry" or exact item names
+  temp: Temperature | null;    // only hot / only iced drinks; null = either
+  percentOff: number;
+  days: number[];              // 0 = Sunday … 6 = Saturday
+  startTime: string;           // "HH:MM"
+  endTime: string;             // "HH:MM" — before startTime wraps past midnight
+  active?: boolean;
 }
 
+/** Everything orderable — what getMenuAsText, pricing and the drawer read. */
+export interface Menu {
+  drinks: DrinkItem[];
+  pastries: PastryItem[];
+  milkOptions: MilkOptionItem[];
+  modifierGroups: ModifierGroup[];
+  addOns: AddOn[];
+  priceRules: PriceRule[];
+}
+
+/** Sections with orderable items — what baristas can 86. */
+export type MenuSection = "drinks" | "pastries" | "milkOptions" | "addOns";
+export const MENU_SECTIONS: MenuSection[] = ["drinks", "pastries", "milkOptions", "addOns"];
+
 // ----------------- Drinks -----------------
 
 export const DRINKS: DrinkItem[] = [
@@ -44,152 +143,332 @@ export const DRINKS: DrinkItem[] = [
   {
     name: "Americano",
     category: "coffee",
-    sizes: { small: 3.0, large: 4.0 },
+    sizes: [
+      { name: "small", oz: 12, price: 3.0, nutrition: { calories: 15, sugarG: 0, caffeineMg: 150 } },
+      { name: "large", oz: 16, price: 4.0, nutrition: { calories: 20, sugarG: 0, caffeineMg: 225 } },
+    ],
     temps: ["hot", "iced"],
     defaultTemp: "hot",
     hasMilk: false,       // black by default; milk can be added as a modifier
+    milkAllowed: true,
     hasEspresso: true,
     hasMatcha: false,
+    decafAllowed: true,
     isBlended: false,
+    modifierGroups: ["Espresso Shots", "Syrups"],
+    allergens: [],
+    taxable: true,
   },
   {
     name: "Latte",
     category: "coffee",
-    sizes: { small: 4.0, large: 5.0 },
+    sizes: [
+      { name: "small", oz: 12, price: 4.0, nutrition: { calories: 190, sugarG: 17, caffeineMg: 75 } },
+      { name: "large", oz: 16, price: 5.0, nutrition: { calories: 250, sugarG: 22, caffeineMg: 150 } },
+    ],
     temps: ["hot", "iced"],
     defaultTemp: "hot",
     hasMilk: true,
+    milkAllowed: true,
     hasEspresso: true,
     hasMatcha: false,
+    decafAllowed: true,
     isBlended: false,
+    modifierGroups: ["Espresso Shots", "Syrups"],
+    allergens: [],
+    taxable: true,
   },
   {
     name: "Cold Brew",
     category: "coffee",
-    sizes: { small: 4.0, large: 5.0 },
+    sizes: [
+      { name: "small", oz: 12, price: 4.0, nutrition: { calories: 5, sugarG: 0, caffeineMg: 155 } },
+      { name: "large", oz: 16, price: 5.0, nutrition: { calories: 5, sugarG: 0, caffeineMg: 205 } },
+    ],
     temps: ["iced"],          // iced only
     defaultTemp: "iced",
     hasMilk: false,
+    milkAllowed: true,
     hasEspresso: true,        // can add a shot to cold brew
     hasMatcha: false,
+    decafAllowed: false,   // cold brew is brewed from regular beans
     isBlended: false,
+    modifierGroups: ["Espresso Shots", "Syrups"],
+    allergens: [],
+    taxable: true,
   },
   {
     name: "Mocha",
     category: "coffee",
-    sizes: { small: 4.5, large: 5.5 },
+    sizes: [
+      { name: "small", oz: 12, price: 4.5, nutrition: { calories: 290, sugarG: 30, caffeineMg: 95 } },
+      { name: "large", oz: 16, price: 5.5, nutrition: { calories: 370, sugarG: 40, caffeineMg: 175 } },
+    ],
     temps: ["hot", "iced"],
     defaultTemp: "hot",
     hasMilk: true,
+    milkAllowed: true,
     hasEspresso: true,
     hasMatcha: false,
+    decafAllowed: true,
     isBlended: false,
+    modifierGroups: ["Espresso Shots", "Syrups"],
+    allergens: ["milk", "soy"],
+    taxable: true,
   },
   {
     name: "Coffee Frappuccino",
     category: "coffee",
-    sizes: { small: 5.5, large: 6.0 },
+    sizes: [
+      { name: "small", oz: 12, price: 5.5, nutrition: { calories: 230, sugarG: 45, caffeineMg: 70 } },
+      { name: "large", oz: 16, price: 6.0, nutrition: { calories: 300, sugarG: 60, caffeineMg: 95 } },
+    ],
     temps: ["iced"],          // iced/blended only — cannot be made hot
     defaultTemp: "iced",
     hasMilk: true,
+    milkAllowed: true,
     hasEspresso: true,
     hasMatcha: false,
+    decafAllowed: true,
     isBlended: true,          // blended drink — ice level doesn't apply
+    modifierGroups: ["Espresso Shots", "Syrups"],
+    allergens: ["milk"],
+    taxable: true,
   },
 
   // ---- Tea ----
   {
     name: "Black Tea",
     category: "tea",
-    sizes: { small: 3.0, large: 3.75 },
+    sizes: [
+      { name: "small", oz: 12, price: 3.0, nutrition: { calories: 0, sugarG: 0, caffeineMg: 40 } },
+      { name: "large", oz: 16, price: 3.75, nutrition: { calories: 0, sugarG: 0, caffeineMg: 55 } },
+    ],
     temps: ["hot", "iced"],
     defaultTemp: "hot",
     hasMilk: false,
+    milkAllowed: true,
     hasEspresso: false,
     hasMatcha: false,
+    decafAllowed: false,
     isBlended: false,
+    modifierGroups: ["Syrups"],
+    allergens: [],
+    taxable: true,
   },
   {
     name: "Jasmine Tea",
     category: "tea",
-    sizes: { small: 3.0, large: 3.75 },
+    sizes: [
+      { name: "small", oz: 12, price: 3.0, nutrition: { calories: 0, sugarG: 0, caffeineMg: 25 } },
+      { name: "large", oz: 16, price: 3.75, nutrition: { calories: 0, sugarG: 0, caffeineMg: 35 } },
+    ],
     temps: ["hot", "iced"],
     defaultTemp: "hot",
     hasMilk: false,
+    milkAllowed: true,
     hasEspresso: false,
     hasMatcha: false,
+    decafAllowed: false,
     isBlended: false,
+    modifierGroups: ["Syrups"],
+    allergens: [],
+    taxable: true,
   },
   {
     name: "Lemon Green Tea",
     category: "tea",
-    sizes: { small: 3.5, large: 4.25 },
+    sizes: [
+      { name: "small", oz: 12, price: 3.5, nutrition: { calories: 50, sugarG: 12, caffeineMg: 25 } },
+      { name: "large", oz: 16, price: 4.25, nutrition: { calories: 70, sugarG: 17, caffeineMg: 35 } },
+    ],
     temps: ["hot", "iced"],
     defaultTemp: "hot",
     hasMilk: false,           // citrus + milk = curdling, see RULES below
+    milkAllowed: false,       // rejected outright — never add milk
     hasEspresso: false,
     hasMatcha: false,
+    decafAllowed: false,
     isBlended: false,
+    modifierGroups: ["Syrups"],
+    allergens: [],
+    taxable: true,
   },
   {
     name: "Matcha Latte",
     category: "tea",
-    sizes: { small: 4.5, large: 5.25 },
+    sizes: [
+      { name: "small", oz: 12, price: 4.5, nutrition: { calories: 200, sugarG: 25, caffeineMg: 55 } },
+      { name: "large", oz: 16, price: 5.25, nutrition: { calories: 260, sugarG: 32, caffeineMg: 80 } },
+    ],
     temps: ["hot", "iced"],
     defaultTemp: "hot",
     hasMilk: true,
+    milkAllowed: true,
     hasEspresso: false,       // no espresso in matcha (it's a tea latte)
     hasMatcha: true,          // extra matcha shots allowed
+    decafAllowed: false,
     isBlended: false,
+    modifierGroups: ["Matcha Shots", "Syrups"],
+    allergens: [],
+    taxable: true,
   },
 ];
 
 // ----------------- Add-Ons / Substitutions -----------------
 
-export const MILK_OPTIONS: { name: MilkOption; label: string; upcharge: number }[] = [
-  { name: "whole", label: "Whole Milk", upcharge: 0.0 },
-  { name: "skim", label: "Skim Milk", upcharge: 0.0 },
-  { name: "oat", label: "Oat Milk", upcharge: 0.5 },
-  { name: "almond", label: "Almond Milk", upcharge: 0.75 },
+export const MILK_OPTIONS: (MilkOptionItem & { name: MilkOption })[] = [
+  {
+    name: "whole", label: "Whole Milk", upcharge: 0.0, allergens: ["milk"],
+    nutrition: { calories: 0, sugarG: 0, caffeineMg: 0 },
+  },
+  {
+    name: "skim", label: "Skim Milk", upcharge: 0.0, allergens: ["milk"],
+    nutrition: { calories: -70, sugarG: 1, caffeineMg: 0 },
+  },
+  {
+    name: "oat", label: "Oat Milk", upcharge: 0.5, allergens: [],
+    nutrition: { calories: 10, sugarG: -9, caffeineMg: 0 },
+  },
+  {
+    name: "almond", label: "Almond Milk", upcharge: 0.75, allergens: ["tree nuts"],
+    nutrition: { calories: -90, sugarG: -14, caffeineMg: 0 },
+  },
+];
+
+export const MODIFIER_GROUPS: ModifierGroup[] = [
+  { name: "Espresso Shots", unit: "shot", min: 0, max: 5 },  // ≈6 total w/ base shot
+  { name: "Matcha Shots", unit: "shot", min: 0, max: 3 },
+  { name: "Syrups", unit: "pump", min: 0, max: 6 },          // across all flavors
 ];
 
 export const ADD_ONS: AddOn[] = [
   {
-    name: "Extra Espresso Shot",
-    price: 1.5,
-    maxQty: 5,                 // sensible max: 5 extra (≈6 total w/ base shot)
-    applicableTo: "espresso-drinks",
+    name: "Extra Espresso Shot", group: "Espresso Shots", price: 1.5, maxQty: 5, allergens: [],
+    nutrition: { calories: 5, sugarG: 0, caffeineMg: 75 },
   },
   {
-    name: "Extra Matcha Shot",
-    price: 1.5,
-    maxQty: 3,                 // sensible max: 3 extra
-    applicableTo: "matcha-drinks",
+    name: "Extra Matcha Shot", group: "Matcha Shots", price: 1.5, maxQty: 3, allergens: [],
+    nutrition: { calories: 15, sugarG: 0, caffeineMg: 35 },
   },
   {
-    name: "Caramel Syrup",
-    price: 0.5,
-    maxQty: 6,                 // sensible max pumps
-    applicableTo: "any",
+    name: "Caramel Syrup", group: "Syrups", price: 0.5, maxQty: 6, allergens: [],
+    nutrition: { calories: 20, sugarG: 5, caffeineMg: 0 },
   },
   {
-    name: "Hazelnut Syrup",
-    price: 0.5,
-    maxQty: 6,
-    applicableTo: "any",
+    // Flavoring only — no actual nuts.
+    name: "Hazelnut Syrup", group: "Syrups", price: 0.5, maxQty: 6, allergens: [],
+    nutrition: { calories: 20, sugarG: 5, caffeineMg: 0 },
   },
 ];
 
 // ----------------- Pastries -----------------
 
 export const PASTRIES: PastryItem[] = [
-  { name: "Plain Croissant", price: 3.5 },
-  { name: "Chocolate Croissant", price: 4.0 },
-  { name: "Chocolate Chip Cookie", price: 2.5 },
-  { name: "Banana Bread", price: 3.0 },
+  {
+    name: "Plain Croissant", price: 3.5, allergens: ["wheat", "milk", "eggs"],
+    nutrition: { calories: 260, sugarG: 6, caffeineMg: 0 },
+    taxable: false,
+  },
+  {
+    name: "Chocolate Croissant", price: 4.0, allergens: ["wheat", "milk", "eggs", "soy"],
+    nutrition: { calories: 340, sugarG: 14, caffeineMg: 5 },
+    taxable: false,
+  },
+  {
+    name: "Chocolate Chip Cookie", price: 2.5, allergens: ["wheat", "milk", "eggs", "soy"],
+    nutrition: { calories: 360, sugarG: 28, caffeineMg: 10 },
+    taxable: false,
+  },
+  {
+    // Made with walnuts.
+    name: "Banana Bread", price: 3.0, allergens: ["wheat", "milk", "eggs", "tree nuts"],
+    nutrition: { calories: 380, sugarG: 30, caffeineMg: 0 },
+    taxable: false,
+  },
+];
+
+// ----------------- Price rules -----------------
+
+export const PRICE_RULES: PriceRule[] = [
+  {
+    name: "Happy hour",
+    appliesTo: ["drink"],
+    temp: "iced",
+    percentOff: 20,
+    days: [1, 2, 3, 4, 5],
+    startTime: "14:00",
+    endTime: "16:00",
+  },
 ];
 
-// ----------------- Sweetness & Ice -----------------
+// ----------------- Default menu -----------------
+
+export const DEFAULT_MENU: Menu = {
+  drinks: DRINKS,
+  pastries: PASTRIES,
+  milkOptions: MILK_OPTIONS,
+  modifierGroups: MODIFIER_GROUPS,
+  addOns: ADD_ONS,
+  priceRules: PRICE_RULES,
+};
+
+// ----------------- Modifier groups -----------------
+
+/** Active groups this drink takes, in menu order. */
+export function drinkModifierGroups(drink: DrinkItem, menu: Menu): ModifierGroup[] {
+  return menu.modifierGroups.filter(
+    (g) => g.active !== false && drink.modifierGroups.includes(g.name)
+  );
+}
+
+/** Active add-ons offered in a group. */
+export function groupAddOns(group: ModifierGroup, menu: Menu): AddOn[] {
+  return menu.addOns.filter((a) => a.group === group.name && a.active !== false);
+}
+
+/** "$0.50/pump", or "$1.00 each" for a group without a unit. */
+export function formatAddOnPrice(addOn: AddOn, group: ModifierGroup | undefined): string {
+  return `$${addOn.price.toFixed(2)}${group?.unit ? `/${group.unit}` : " each"}`;
+}
+
+/** "0–6 pumps", "1–2" */
+export function formatGroupRange(group: ModifierGroup): string {
+  return `${group.min}–${group.max}${group.unit ? ` ${group.unit}s` : ""}`;
+}
+
+// ----------------- Sizes, Sweetness & Ice -----------------
+
+// Sizes are per drink (a Cold Brew can come in 20oz while a Matcha
+// Latte doesn't); these helpers work across the whole menu.
+
+/** Case-insensitive lookup of one of a drink's sizes. */
+export function findSize(drink: DrinkItem, name: string): SizeOption | undefined {
+  const wanted = name.trim().toLowerCase();
+  return drink.sizes.find((s) => s.name.toLowerCase() === wanted);
+}
+
+/** Every size name on the menu, smallest first — the chat tool's enum. */
+export function sizeNames(menu: Menu): Size[] {
+  const oz = new Map<string, number>();
+  for (const d of menu.drinks) {
+    for (const s of d.sizes) {
+      oz.set(s.name, Math.min(oz.get(s.name) ?? Infinity, s.oz));
+    }
+  }
+  return [...oz.keys()].sort((a, b) => oz.get(a)! - oz.get(b)!);
+}
+
+const SHORT_SIZE_LABELS: Record<string, string> = {
+  small: "Sm",
+  medium: "Md",
+  large: "Lg",
+};
+
+/** Compact label for tickets and receipts: "Sm", "Md", "Lg", else the name. */
+export function shortSizeLabel(name: string): string {
+  return SHORT_SIZE_LABELS[name.toLowerCase()] ?? name.charAt(0).toUpperCase() + name.slice(1);
+}
 
 export const SWEETNESS_LEVELS: SweetnessLevel[] = [
   "no sugar",
@@ -205,11 +484,27 @@ export const ICE_LEVELS: IceLevel[] = [
   "extra ice",
 ];
 
+export const ALLERGENS: Allergen[] = [
+  "milk",
+  "eggs",
+  "wheat",
+  "soy",
+  "tree nuts",
+  "peanuts",
+  "sesame",
+];
+
+export const CAFFEINE_LEVELS: CaffeineLevel[] = [
+  "regular",     // default
+  "half-caf",
+  "decaf",
+];
+
 // =============================================================
 // VALIDATION RULES & EDGE CASES
 // =============================================================
-// These rules should be embedded in the AI system prompt AND
-// enforced server-side when an order is submitted.
+// These rules are embedded in the AI system prompt AND enforced
+// server-side by src/lib/validation.ts when an order is submitted.
 // =============================================================
 
 export const VALIDATION_RULES = {
@@ -235,6 +530,16 @@ export const VALIDATION_RULES = {
     ],
   },
 
+  // ---- Modifier groups ----
+  modifiers: {
+    rule: "Add-ons come in modifier groups (see ADD-ONS on the menu). A drink only takes the groups listed for it, and each group has a min/max for the total across its add-ons.",
+    examples: [
+      "4 pumps caramel + 2 pumps hazelnut in a Latte → OK (6 syrup pumps total).",
+      "An add-on from a group the drink doesn't take → REJECTED (e.g. Extra Matcha Shot in a Latte).",
+      "More than a group's max → REJECTED — tell the customer the max.",
+    ],
+  },
+
   // ---- Espresso shot rules ----
   espresso: {
     rule: "Extra espresso shots can only be added to espresso-based drinks (`hasEspresso: true`). Max 5 extra shots.",
@@ -274,9 +579,19 @@ export const VALIDATION_RULES = {
     ],
   },
 
+  // ---- Caffeine rules ----
+  caffeine: {
+    rule: "Half-caf and decaf only apply to drinks marked decaf-OK on the menu (espresso drinks). Default is 'regular'.",
+    examples: [
+      "Decaf Latte, half-caf Americano, decaf Mocha → OK (extra shots follow the drink's caffeine level).",
+      "Decaf Cold Brew → REJECTED ('Cold brew is brewed from regular beans, so we can't make it decaf — want a decaf iced Americano?').",
+      "Decaf tea or Matcha Latte → REJECTED (we don't carry decaf tea or matcha).",
+    ],
+  },
+
   // ---- Syrup rules ----
   syrups: {
-    rule: "Caramel and hazelnut syrup can be added to ANY drink. Max 6 pumps each.",
+    rule: "Syrups can be added to ANY drink. Max 6 pumps total across flavors.",
     examples: [
       "Caramel syrup in a Latte → OK.",
       "Hazelnut syrup in a Black Tea → OK (unusual but allowed).",
@@ -328,45 +643,78 @@ export const VALIDATION_RULES = {
       "'Can I get a beer?' → 'Ha! We're just a coffee shop — but I can get you something caffeinated!'",
     ],
   },
+
+  // ---- Sold-out (86'd) items ----
+  soldOut: {
+    rule: "Items marked SOLD OUT are on the menu but can't be ordered right now. Never offer them; suggest the listed substitute instead.",
+    examples: [
+      "Oat milk sold out → 'We're out of oat milk right now — want almond milk instead?'",
+      "Chocolate Croissant sold out → 'Sorry, we're out of chocolate croissants — how about a plain one?'",
+      "Don't upsell a sold-out pastry or add-on.",
+    ],
+  },
 };
 
 // =============================================================
 // HELPER: Build the full menu as plain text for AI system prompt
 // =============================================================
 
-export function getMenuAsText(): string {
+const soldOutTag = (item: { available?: boolean }) =>
+  item.available === false ? " — SOLD OUT" : "";
+
+// "Small 12oz $4.00 | Large 16oz $5.00"
+const formatSizePrices = (d: DrinkItem) =>
+  d.sizes
+    .map((s) => `${s.name.charAt(0).toUpperCase() + s.name.slice(1)} ${s.oz}oz $${s.price.toFixed(2)}`)
+    .join(" | ");
+
+export function getMenuAsText(menu: Menu): string {
   let text = `NYC COFFEE — FULL MENU\n`;
   text += `512 West 43rd Street, New York, NY | Tel: 212-535-7367\n`;
   text += `${"=".repeat(60)}\n\n`;
 
   text += `☕ COFFEE\n`;
   text += `${"─".repeat(40)}\n`;
-  for (const d of DRINKS.filter((d) => d.category === "coffee")) {
+  for (const d of menu.drinks.filter((d) => d.category === "coffee")) {
     const temps = d.temps.join("/");
-    text += `  ${d.name} (${temps}) — Small $${d.sizes.small.toFixed(2)} | Large $${d.sizes.large.toFixed(2)}\n`;
+    text += `  ${d.name} (${temps}) — ${formatSizePrices(d)}${soldOutTag(d)}\n`;
   }
 
   text += `\n🍵 TEA\n`;
   text += `${"─".repeat(40)}\n`;
-  for (const d of DRINKS.filter((d) => d.category === "tea")) {
+  for (const d of menu.drinks.filter((d) => d.category === "tea")) {
     const temps = d.temps.join("/");
-    text += `  ${d.name} (${temps}) — Small $${d.sizes.small.toFixed(2)} | Large $${d.sizes.large.toFixed(2)}\n`;
+    text += `  ${d.name} (${temps}) — ${formatSizePrices(d)}${soldOutTag(d)}\n`;
   }
 
   text += `\n⭐ ADD-ONS / SUBSTITUTIONS\n`;
   text += `${"─".repeat(40)}\n`;
-  text += `  Milk options: Whole (free), Skim (free), Oat (+$0.50), Almond (+$0.75)\n`;
-  text += `  Extra Espresso Shot — $1.50 each (max 5 extra)\n`;
-  text += `  Extra Matcha Shot — $1.50 each (max 3 extra)\n`;
-  text += `  Caramel Syrup — $0.50/pump (max 6 pumps)\n`;
-  text += `  Hazelnut Syrup — $0.50/pump (max 6 pumps)\n`;
+  const milks = menu.milkOptions.map((m) =>
+    `${m.label.replace(/ Milk$/, "")} (${m.upcharge > 0 ? `+$${m.upcharge.toFixed(2)}` : "free"})${soldOutTag(m)}`
+  );
+  text += `  Milk options: ${milks.join(", ")}\n`;
+  for (const g of menu.modifierGroups.filter((g) => g.active !== false)) {
+    const addOns = groupAddOns(g, menu);
+    if (addOns.length === 0) continue;
+    const drinks = menu.drinks.filter((d) => d.modifierGroups.includes(g.name));
+    const on = drinks.length === menu.drinks.length ? "any drink" : drinks.map((d) => d.name).join(", ");
+    text += `  ${g.name} — choose ${formatGroupRange(g)} total — on: ${on || "no drinks"}\n`;
+    for (const a of addOns) {
+      const cap = a.maxQty < g.max ? ` (max ${a.maxQty})` : "";
+      text += `    ${a.name} — ${formatAddOnPrice(a, g)}${cap}${soldOutTag(a)}\n`;
+    }
+  }
 
   text += `\n🧁 PASTRIES\n`;
   text += `${"─".repeat(40)}\n`;
-  for (const p of PASTRIES) {
-    text += `  ${p.name} — $${p.price.toFixed(2)}\n`;
+  for (const p of menu.pastries) {
+    text += `  ${p.name} — $${p.price.toFixed(2)}${soldOutTag(p)}\n`;
   }
 
+  const decaf = menu.drinks.filter((d) => d.decafAllowed).map((d) => d.name);
+  if (decaf.length > 0) {
+    text += `\n☕ CAFFEINE: Regular | Half-Caf | Decaf — only for ${decaf.join(", ")}\n`;
+  }
   text += `\n🧊 ICE LEVELS (iced drinks only, not blended): No Ice | Less Ice | Regular | Extra Ice\n`;
   text += `🍬 SWEETNESS LEVELS: No Sugar | Less Sugar | Regular | Extra Sugar\n`;
 
@@ -401,46 +749,34 @@ export interface DrinkOrder {
   drinkName: string;
   size: Size;
   temp: Temperature;
-  milk?: MilkOption;
+  milk?: string;
   sweetness?: SweetnessLevel;
   iceLevel?: IceLevel;
-  extraEspressoShots?: number;
-  extraMatchaShots?: number;
-  caramelSyrupPumps?: number;
-  hazelnutSyrupPumps?: number;
+  addOns?: { name: string; qty: number }[];
   specialInstructions?: string;
 }
 
-export function calculateDrinkPrice(order: DrinkOrder): number {
-  const drink = DRINKS.find(
+export function calculateDrinkPrice(order: DrinkOrder, menu: Menu): number {
+  const drink = menu.drinks.find(
     (d) => d.name.toLowerCase() === order.drinkName.toLowerCase()
   );
   if (!drink) throw new Error(`Unknown drink: ${order.drinkName}`);
 
-  let price = drink.sizes[order.size];
+  const size = findSize(drink, order.size);
+  if (!size) throw new Error(`Unknown size for ${drink.name}: ${order.size}`);
+
+  let price = size.price;
 
   // Milk upcharge (only if substituting from default whole milk)
   if (order.milk) {
-    const milkOpt = MILK_OPTIONS.find((m) => m.name === order.milk);
+    const milkOpt = menu.milkOptions.find((m) => m.name === order.milk);
     if (milkOpt) price += milkOpt.upcharge;
   }
 
-  // Extra espresso shots
-  if (order.extraEspressoShots && order.extraEspressoShots > 0) {
-    price += order.extraEspressoShots * 1.5;
-  }
-
-  // Extra matcha shots
-  if (order.extraMatchaShots && order.extraMatchaShots > 0) {
-    price += order.extraMatchaShots * 1.5;
-  }
-
-  // Syrups
-  if (order.caramelSyrupPumps && order.caramelSyrupPumps > 0) {
-    price += order.caramelSyrupPumps * 0.5;
-  }
-  if (order.hazelnutSyrupPumps && order.hazelnutSyrupPumps > 0) {
-    price += order.hazelnutSyrupPumps * 0.5;
+  // Extra shots and syrup pumps, priced per unit
+  for (const a of order.addOns ?? []) {
+    const addOn = menu.addOns.find((m) => m.name === a.name);
+    if (addOn && a.qty > 0) price += a.qty * addOn.price;
   }
 
   return Math.round(price * 100) / 100; // avoid floating point weirdness
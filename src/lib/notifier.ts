@@ -0,0 +1,160 @@
+// src/lib/notifier.ts
+// ============================================================
+// "Your order is ready" notifications.
+//
+// buildReadyMessage() is shared by the customer's ReceiptCard
+// (spoken + browser notification) and the server-side Notifier
+// hook, fired by notifyOrderReady() from POST /api/orders/:id/status
+// and when the last item on a ticket is checked off.
+//
+// The Notifier is pluggable so an SMS / email provider can be
+// dropped in without touching the route. Notices carry the signed-in
+// customer's phone and email; guests' orders have neither.
+//   NOTIFIER=webhook  NOTIFIER_WEBHOOK_URL=…  — POST each notice as JSON
+//   NOTIFIER=fake                             — keep notices in memory
+//   (unset)                                   — log only
+// ============================================================
+
+import { findPastry } from "./pricing";
+import type { Menu } from "./menu";
+import { fetchMenu } from "./menu-service";
+import { fetchOrderWithItems } from "./barista-service";
+import { fetchCustomer } from "./customer-service";
+import { formatOrderNumber } from "./order-numbering";
+import type { Order, OrderItem } from "./types";
+
+// ── Message ───────────────────────────────────────────────────────────────────
+
+type SpokenItem = Pick<OrderItem, "item_name" | "size" | "temp" | "caffeine">;
+
+/** "large iced latte", "small decaf latte", "banana bread". */
+function spokenItem(item: SpokenItem, menu: Menu): string {
+  const name = item.item_name.toLowerCase();
+  if (findPastry(item.item_name, menu)) return name;
+  const caffeine = item.caffeine && item.caffeine !== "regular" ? `${item.caffeine} ` : "";
+  const temp = item.temp === "iced" && !name.includes("iced") ? "iced " : "";
+  return `${item.size} ${caffeine}${temp}${name}`;
+}
+
+/**
+ * "Sarah, your large iced latte is ready" — falls back to the order
+ * number when the customer skipped giving a name.
+ */
+export function buildReadyMessage(
+  order: Pick<Order, "customer_name" | "order_number">,
+  items: SpokenItem[],
+  menu: Menu
+): string {
+  const who = order.customer_name?.trim() || `Order ${formatOrderNumber(order.order_number)}`;
+
+  if (items.length === 0) return `${who}, your order is ready`;
+  if (items.length === 1) return `${who}, your ${spokenItem(items[0], menu)} is ready`;
+  if (items.length === 2) {
+    return `${who}, your ${spokenItem(items[0], menu)} and ${spokenItem(items[1], menu)} are ready`;
+  }
+  return `${who}, your ${spokenItem(items[0], menu)} and ${items.length - 1} more items are ready`;
+}
+
+// ── Notifier hook ─────────────────────────────────────────────────────────────
+
+export interface ReadyNotice {
+  orderId: string;
+  orderNumber: number;
+  customerName: string | null;
+  /** Where to send it — null for a guest, or a contact they didn't give. */
+  phone: string | null;
+  email: string | null;
+  message: string;
+}
+
+export interface Notifier {
+  notifyReady(notice: ReadyNotice): Promise<void>;
+}
+
+/** Default — nothing outbound, just a server log line. */
+export function createConsoleNotifier(): Notifier {
+  return {
+    async notifyReady(notice) {
+      console.log(`[notifier] ${notice.message}`);
+    },
+  };
+}
+
+// A webhook that hasn't answered by then is given up on.
+const WEBHOOK_TIMEOUT_MS = 5_000;
+
+/** POSTs each notice to a webhook (Zapier, a Twilio function, …). */
+export function createWebhookNotifier(url: string): Notifier {
+  return {
+    async notifyReady(notice) {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ type: "order_ready", ...notice }),
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      if (!res.ok) {
+        throw new Error(`Notifier webhook returned ${res.status}`);
+      }
+    },
+  };
+}
+
+/** In-memory notifier for local development and tests. */
+export function createFakeNotifier(): Notifier & { sent: ReadyNotice[] } {
+  const sent: ReadyNotice[] = [];
+  return {
+    sent,
+    async notifyReady(notice) {
+      sent.push(notice);
+    },
+  };
+}
+
+let notifier: Notifier | null = null;
+
+/** Notifier selected by NOTIFIER, created once per server process. */
+export function getNotifier(): Notifier {
+  if (notifier) return notifier;
+
+  const url = process.env.NOTIFIER_WEBHOOK_URL;
+  if (process.env.NOTIFIER === "webhook" && url) {
+    notifier = createWebhookNotifier(url);
+  } else if (process.env.NOTIFIER === "fake") {
+    notifier = createFakeNotifier();
+  } else {
+    notifier = createConsoleNotifier();
+  }
+  return notifier;
+}
+
+/**
+ * Send the ready notice for an order that just became ready. Never
+ * throws — the status change already succeeded, so a failed
+ * notification shouldn't bounce the barista's tap. Routes run it with
+ * after() so the barista isn't kept waiting on it either.
+ */
+export async function notifyOrderReady(order: Order): Promise<void> {
+  try {
+    const [full, menu, customer] = await Promise.all([
+      fetchOrderWithItems(order.id),
+      fetchMenu(),
+      order.customer_id ? fetchCustomer(order.customer_id) : Promise.resolve(null),
+    ]);
+    await getNotifier().notifyReady({
+      orderId: order.id,
+      orderNumber: order.order_number,
+      customerName: order.customer_name,
+      phone: customer?.phone ?? null,
+      email: customer?.email ?? null,
+      message: buildReadyMessage(order, full?.order_items ?? [], menu),
+    });
+  } catch (err) {
+    console.error(`[notifier] ready notice for order ${order.id} failed:`, err);
+  }
+}
+
+/** Swap the notifier — e.g. a fake in tests. */
+export function setNotifier(next: Notifier): void {
+  notifier = next;
+}
@@ -0,0 +1,182 @@
+// src/lib/nutrition.ts
+// ============================================================
+// Allergens and nutrition totals for menu items and customized
+// drinks. The facts live on the menu (see Nutrition in menu.ts);
+// this module adds them up so the AI quotes numbers instead of
+// guessing, and the menu drawer can filter by allergen.
+//
+// A total is only returned when every part of the item has data —
+// one unknown add-on makes the whole drink "no data".
+// ============================================================
+
+import {
+  findSize,
+  type Allergen,
+  type DrinkItem,
+  type Menu,
+  type MilkOptionItem,
+  type Nutrition,
+} from "./menu";
+import { isAvailable } from "./availability";
+import { findAddOn, findDrink, findPastry } from "./pricing";
+import type { ReceiptItem } from "./order-service";
+
+type NutritionItem = Pick<ReceiptItem, "item_name" | "size" | "milk" | "caffeine"> & {
+  add_ons: { name: string; qty: number }[];
+};
+
+// Share of the caffeine left after decaffeination.
+const CAFFEINE_FACTOR: Record<string, number> = {
+  regular: 1,
+  "half-caf": 0.5,
+  decaf: 0.05,
+};
+
+function add(a: Nutrition, b: Nutrition, times = 1): Nutrition {
+  return {
+    calories: a.calories + b.calories * times,
+    sugarG: a.sugarG + b.sugarG * times,
+    caffeineMg: a.caffeineMg + b.caffeineMg * times,
+  };
+}
+
+/** Whole milk unless the drink is served without milk. */
+export function defaultMilk(drink: DrinkItem): string | null {
+  return drink.hasMilk ? "whole" : null;
+}
+
+/**
+ * Totals for one receipt line — a customized drink (size, milk,
+ * add-ons, decaf) or a pastry. Null when the item or any of its
+ * parts has no nutrition data.
+ */
+export function itemNutrition(item: NutritionItem, menu: Menu): Nutrition | null {
+  const pastry = findPastry(item.item_name, menu);
+  if (pastry) return pastry.nutrition ?? null;
+
+  const drink = findDrink(item.item_name, menu);
+  const size = drink && findSize(drink, item.size);
+  if (!drink || !size?.nutrition) return null;
+
+  let total = size.nutrition;
+
+  // Milk facts are the difference from whole milk in a 12oz milk
+  // drink. A splash in a black coffee or tea isn't counted.
+  if (item.milk && drink.hasMilk) {
+    const milk = menu.milkOptions.find((m) => m.name === item.milk);
+    if (!milk?.nutrition) return null;
+    total = add(total, milk.nutrition, size.oz / 12);
+  }
+
+  for (const a of item.add_ons) {
+    const addOn = findAddOn(a.name, menu);
+    if (!addOn?.nutrition) return null;
+    total = add(total, addOn.nutrition, a.qty);
+  }
+
+  return {
+    calories: Math.round(total.calories),
+    sugarG: Math.round(total.sugarG),
+    caffeineMg: Math.round(total.caffeineMg * (CAFFEINE_FACTOR[item.caffeine ?? "regular"] ?? 1)),
+  };
+}
+
+/** Allergens in one receipt line, including the milk and add-ons chosen. */
+export function itemAllergens(item: NutritionItem, menu: Menu): Allergen[] {
+  const pastry = findPastry(item.item_name, menu);
+  if (pastry) return pastry.allergens;
+
+  const drink = findDrink(item.item_name, menu);
+  if (!drink) return [];
+
+  const found = new Set<Allergen>(drink.allergens);
+  menu.milkOptions
+    .find((m) => m.name === item.milk)
+    ?.allergens.forEach((a) => found.add(a));
+  for (const a of item.add_ons) {
+    findAddOn(a.name, menu)?.allergens.forEach((x) => found.add(x));
+  }
+  return [...found];
+}
+
+/** A drink as it comes by default (whole milk where it has milk). */
+export function drinkAllergens(drink: DrinkItem, menu: Menu): Allergen[] {
+  return itemAllergens(
+    { item_name: drink.name, size: "", milk: defaultMilk(drink), caffeine: "regular", add_ons: [] },
+    menu
+  );
+}
+
+/**
+ * Can this drink be made without any of `avoid`? Milk is the one part
+ * customers can swap, so a latte still fits a dairy allergy — with
+ * `swapTo` naming the milk to ask for.
+ */
+export function drinkAllergenFit(
+  drink: DrinkItem,
+  avoid: Allergen[],
+  menu: Menu
+): { ok: false } | { ok: true; swapTo?: MilkOptionItem } {
+  const hits = (allergens: Allergen[]) => allergens.some((a) => avoid.includes(a));
+  if (hits(drink.allergens)) return { ok: false };
+
+  const milk = menu.milkOptions.find((m) => m.name === defaultMilk(drink));
+  if (!milk || !hits(milk.allergens)) return { ok: true };
+
+  const swapTo = menu.milkOptions.find((m) => isAvailable(m) && !hits(m.allergens));
+  return swapTo ? { ok: true, swapTo } : { ok: false };
+}
+
+/** "190 cal · 17g sugar · 75mg caffeine" */
+export function formatNutrition(n: Nutrition): string {
+  return `${n.calories} cal · ${n.sugarG}g sugar · ${n.caffeineMg}mg caffeine`;
+}
+
+const signed = (n: number, unit: string) => `${n >= 0 ? "+" : ""}${n}${unit}`;
+
+function formatNutritionDelta(n: Nutrition): string {
+  return [
+    signed(n.calories, " cal"),
+    signed(n.sugarG, "g sugar"),
+    ...(n.caffeineMg ? [signed(n.caffeineMg, "mg caffeine")] : []),
+  ].join(", ");
+}
+
+const contains = (allergens: Allergen[]) =>
+  allergens.length > 0 ? `contains ${allergens.join(", ")}` : "no major allergens";
+
+/**
+ * Nutrition and allergen facts for the system prompt, one line per
+ * item. Items without data say so, so the AI knows not to guess.
+ */
+export function formatNutritionForPrompt(menu: Menu): string {
+  const lines: string[] = [];
+
+  lines.push("  Drinks (regular sweetness, whole milk where it has milk):");
+  for (const d of menu.drinks) {
+    const sizes = d.sizes
+      .map((s) => `${s.name} ${s.nutrition ? formatNutrition(s.nutrition) : "no data"}`)
+      .join(" | ");
+    lines.push(`    ${d.name} — ${sizes} — ${contains(drinkAllergens(d, menu))}`);
+  }
+
+  lines.push("  Milk swaps (change vs whole milk, 12oz milk drink — scale for larger sizes):");
+  for (const m of menu.milkOptions) {
+    const facts = m.nutrition ? formatNutritionDelta(m.nutrition) : "no data";
+    lines.push(`    ${m.label} — ${facts} — ${contains(m.allergens)}`);
+  }
+
+  lines.push("  Add-ons (each):");
+  for (const a of menu.addOns) {
+    const facts = a.nutrition ? formatNutritionDelta(a.nutrition) : "no data";
+    lines.push(`    ${a.name} — ${facts} — ${contains(a.allergens)}`);
+  }
+
+  lines.push("  Pastries:");
+  for (const p of menu.pastries) {
+    const facts = p.nutrition ? formatNutrition(p.nutrition) : "no data";
+    lines.push(`    ${p.name} — ${facts} — ${contains(p.allergens)}`);
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,182 @@
+// src/lib/order-client.ts
+// ============================================================
+// Browser-side wrappers for the /api/orders routes.
+// The server re-prices every receipt, so callers should render
+// the receipt returned here rather than the one they sent.
+// ============================================================
+
+import { authHeaders } from "./customer-client";
+import type { LoyaltyStatus } from "./loyalty";
+import type { OrderReceipt } from "./order-service";
+import type { PricingIssue } from "./pricing";
+import type { ReceiptViolation } from "./validation";
+import type { Order, OrderItem, OrderStatus, OrderWithItems, PaymentMethod } from "./types";
+
+/**
+ * Thrown when the server refuses a receipt — an off-menu item (pricing
+ * issue) or a broken VALIDATION_RULES entry such as a hot Frappuccino.
+ */
+export class OrderRejectedError extends Error {
+  issues: PricingIssue[];
+  violations: ReceiptViolation[];
+
+  constructor(issues: PricingIssue[], violations: ReceiptViolation[]) {
+    super(
+      [
+        ...issues.filter((i) => i.severity === "rejected"),
+        ...violations,
+      ]
+        .map((i) => i.message)
+        .join(" ")
+    );
+    this.name = "OrderRejectedError";
+    this.issues = issues;
+    this.violations = violations;
+  }
+}
+
+/** Thrown when the payment provider declines — the message is the provider's. */
+export class PaymentDeclinedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentDeclinedError";
+  }
+}
+
+/**
+ * Thrown on a 409 — the order moved on before the request landed (the
+ * barista started it, it was cancelled, already paid, …). The message
+ * is the server's.
+ */
+export class OrderConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OrderConflictError";
+  }
+}
+
+async function readError(res: Response): Promise<never> {
+  if (res.status === 402) {
+    throw new PaymentDeclinedError(await res.text());
+  }
+  if (res.status === 409) {
+    throw new OrderConflictError(await res.text());
+  }
+  if (res.status === 422) {
+    const body = (await res.json()) as {
+      issues: PricingIssue[];
+      violations: ReceiptViolation[];
+    };
+    throw new OrderRejectedError(body.issues, body.violations);
+  }
+  throw new Error(`API returned ${res.status}: ${await res.text()}`);
+}
+
+/**
+ * Place an order — linked to the customer's account when they're
+ * signed in. `loyalty` is their punch card after it, null for guests.
+ */
+export async function submitOrder(
+  receipt: OrderReceipt
+): Promise<{ order: OrderWithItems; receipt: OrderReceipt; loyalty: LoyaltyStatus | null }> {
+  const res = await fetch("/api/orders", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(await authHeaders()) },
+    body: JSON.stringify({ receipt }),
+  });
+  if (!res.ok) return readError(res);
+  return res.json();
+}
+
+/**
+ * Re-price and save a modified order. A paid order whose total went
+ * down is refunded the difference; `refunded` is false if that failed.
+ */
+export async function submitOrderUpdate(
+  orderId: string,
+  receipt: OrderReceipt
+): Promise<{ receipt: OrderReceipt; refunded: boolean }> {
+  const res = await fetch(`/api/orders/${orderId}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ receipt }),
+  });
+  if (!res.ok) return readError(res);
+  return res.json();
+}
+
+/**
+ * Cancel a still-"new" order. Throws if the barista has already started
+ * it. A paid order is refunded; `refunded` is false if that failed.
+ */
+export async function cancelOrder(
+  orderId: string
+): Promise<{ order: Order; refunded: boolean }> {
+  const res = await fetch(`/api/orders/${orderId}/cancel`, { method: "POST" });
+  if (!res.ok) return readError(res);
+  return res.json();
+}
+
+/**
+ * Barista status change. Throws if the transition is refused — e.g. the
+ * customer cancelled before the barista tapped Start.
+ */
+export async function changeOrderStatus(
+  orderId: string,
+  status: OrderStatus
+): Promise<{ order: Order }> {
+  const res = await fetch(`/api/orders/${orderId}/status`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ status }),
+  });
+  if (!res.ok) return readError(res);
+  return res.json();
+}
+
+/**
+ * Barista checks an item off (or back on). `order` is set when that
+ * was the last item and the order moved to ready.
+ */
+export async function setItemDone(
+  orderId: string,
+  itemId: string,
+  done: boolean
+): Promise<{ item: OrderItem; order: Order | null }> {
+  const res = await fetch(`/api/orders/${orderId}/items/${itemId}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ done }),
+  });
+  if (!res.ok) return readError(res);
+  return res.json();
+}
+
+/**
+ * The customer's "Pay now". Throws PaymentDeclinedError if the card is
+ * declined; an online payment returns the checkout link to open.
+ */
+export async function payOrder(
+  orderId: string,
+  method: PaymentMethod
+): Promise<{ order: Order; checkoutUrl: string | null }> {
+  const res = await fetch(`/api/orders/${orderId}/payment`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ method }),
+  });
+  if (!res.ok) return readError(res);
+  return res.json();
+}
+
+/** Barista took payment at the counter — settles whatever is due. */
+export async function markOrderPaid(orderId: string): Promise<{ order: Order }> {
+  const res = await fetch(`/api/orders/${orderId}/paid`, { method: "POST" });
+  if (!res.ok) return readError(res);
+  return res.json();
+}
+
+/** Shareable link to the order's live tracking page (/order/[id]). */
+export function orderTrackingUrl(orderId: string): string {
+  return `${window.location.origin}/order/${orderId}`;
+}
@@ -0,0 +1,29 @@
+// src/lib/order-numbering.ts
+// ============================================================
+// Order number mode — shared by saveOrder (allocation) and the
+// barista / receipt displays (formatting).
+//
+//   NEXT_PUBLIC_ORDER_NUMBERING = "global" | "daily"
+//
+// NEXT_PUBLIC_ so client components format the same way the
+// server allocates. Daily numbers restart with the business day in
+// BUSINESS_TIMEZONE (src/lib/business-time.ts). See
+// supabase/migrations/…_order_numbers.sql.
+// ============================================================
+
+export type OrderNumberingMode = "global" | "daily";
+
+export const ORDER_NUMBERING_MODE: OrderNumberingMode =
+  process.env.NEXT_PUBLIC_ORDER_NUMBERING === "daily" ? "daily" : "global";
+
+/**
+ * Ticket label for an order number.
+ * Global numbers are zero-padded ("#042"); daily numbers restart each
+ * morning and read like the old POS ("#42").
+ */
+export function formatOrderNumber(
+  n: number,
+  mode: OrderNumberingMode = ORDER_NUMBERING_MODE
+): string {
+  return mode === "daily" ? `#${n}` : `#${String(n).padStart(3, "0")}`;
+}
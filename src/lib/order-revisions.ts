@@ -0,0 +1,104 @@
+// src/lib/order-revisions.ts
+// ============================================================
+// Human-readable diffs between the previous and new items of an
+// order_revisions row — "Latte changed from small to large".
+// Shown on the barista ticket and in the owner's edit audit.
+// ============================================================
+
+import { findPastry } from "./pricing";
+import type { Menu } from "./menu";
+import type { OrderRevision, RevisionItem } from "./types";
+
+function addOnsText(item: RevisionItem): string {
+  if (!item.add_ons || item.add_ons.length === 0) return "no add-ons";
+  return [...item.add_ons]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((a) => `+${a.qty} ${a.name}`)
+    .join(", ");
+}
+
+/** Same customer-facing fields the barista groups identical items by. */
+function itemKey(item: RevisionItem): string {
+  return [
+    item.item_name,
+    item.size,
+    item.temp,
+    item.milk ?? "",
+    item.sweetness,
+    item.ice_level,
+    item.caffeine ?? "regular",
+    addOnsText(item),
+    item.special_instructions ?? "",
+  ].join("\0");
+}
+
+function itemLabel(item: RevisionItem, menu: Menu): string {
+  if (findPastry(item.item_name, menu)) return item.item_name;
+  return `${item.size} ${item.temp} ${item.item_name}`;
+}
+
+/** "small to large", "whole milk to oat milk", … for one matched pair. */
+function fieldChanges(from: RevisionItem, to: RevisionItem): string[] {
+  const changes: string[] = [];
+  const diff = (a: string, b: string) => {
+    if (a !== b) changes.push(`${a} to ${b}`);
+  };
+
+  diff(from.size, to.size);
+  diff(from.temp, to.temp);
+  diff(`${from.milk ?? "no"} milk`, `${to.milk ?? "no"} milk`);
+  diff(
+    from.sweetness === "regular" ? "regular sugar" : from.sweetness,
+    to.sweetness === "regular" ? "regular sugar" : to.sweetness
+  );
+  diff(
+    from.ice_level === "regular" ? "regular ice" : from.ice_level,
+    to.ice_level === "regular" ? "regular ice" : to.ice_level
+  );
+  // Revisions saved before caffeine was recorded have no value.
+  diff(
+    from.caffeine && from.caffeine !== "regular" ? from.caffeine : "regular caffeine",
+    to.caffeine && to.caffeine !== "regular" ? to.caffeine : "regular caffeine"
+  );
+  diff(addOnsText(from), addOnsText(to));
+  diff(
+    from.special_instructions ? `"${from.special_instructions}"` : "no notes",
+    to.special_instructions ? `"${to.special_instructions}"` : "no notes"
+  );
+  return changes;
+}
+
+/**
+ * One line per change in a revision. Unchanged items are skipped;
+ * an item whose name survives is reported as changed in place,
+ * anything else as added / removed.
+ */
+export function describeRevision(
+  revision: Pick<OrderRevision, "previous_items" | "new_items">,
+  menu: Menu
+): string[] {
+  // Drop items that are identical on both sides
+  const removed = [...revision.previous_items];
+  const added: RevisionItem[] = [];
+  for (const item of revision.new_items) {
+    const i = removed.findIndex((r) => itemKey(r) === itemKey(item));
+    if (i >= 0) removed.splice(i, 1);
+    else added.push(item);
+  }
+
+  const lines: string[] = [];
+
+  // Same drink on both sides → in-place modification
+  for (const item of [...added]) {
+    const i = removed.findIndex((r) => r.item_name === item.item_name);
+    if (i < 0) continue;
+    const changes = fieldChanges(removed[i], item);
+    lines.push(`${item.item_name} changed from ${changes.join(", ")}`);
+    removed.splice(i, 1);
+    added.splice(added.indexOf(item), 1);
+  }
+
+  removed.forEach((item) => lines.push(`Removed ${itemLabel(item, menu)}`));
+  added.forEach((item) => lines.push(`Added ${itemLabel(item, menu)}`));
+  return lines;
+}
@@ -1,7 +1,7 @@
 // src/lib/order-service.ts
 // ============================================================
 // Saves and updates orders in Supabase.
-// Called client-side after the AI outputs a receipt JSON block.
+// Called from the /api/orders routes after server-side re-pricing.
 //
 // Uses a plain (non-generic) Supabase client so we aren't
 // fighting the v2 internal generic resolution for hand-written
@@ -9,7 +9,17 @@
 // ============================================================
 
 import { createClient } from "@supabase/supabase-js";
-import type { Order, OrderItem, OrderWithItems } from "./types";
+import type {
+  DiscountLine,
+  Order,
+  OrderItem,
+  OrderRevision,
+  OrderWithItems,
+  RevisionItem,
+} from "./types";
+import { ORDER_NUMBERING_MODE } from "./order-numbering";
+import { BUSINESS_TIMEZONE } from "./business-time";
+import { discountTotal } from "./promotions";
 
 // Plain client — no Database generic param needed here
 const db = createClient(
@@ -17,6 +27,50 @@ const db = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 );
 
+/** apply_order_revision() refused: the order isn't "new" any more. */
+export class OrderNotModifiableError extends Error {
+  constructor(orderId: string) {
+    super(`Order ${orderId} can no longer be modified`);
+    this.name = "OrderNotModifiableError";
+  }
+}
+
+// SQLSTATE apply_order_revision() raises for an order past "new".
+const NOT_MODIFIABLE = "55000";
+
+/**
+ * The order takes a promotion whose max_uses ran out after it was
+ * priced — another checkout got the last use. The message names it.
+ */
+export class PromotionUsedUpError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PromotionUsedUpError";
+  }
+}
+
+/**
+ * The order takes a loyalty free drink the card no longer has —
+ * another order spent it after this one was priced.
+ */
+export class FreeDrinkUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FreeDrinkUnavailableError";
+  }
+}
+
+type DbError = { code?: string; hint?: string; message: string } | null;
+
+// What the orders_promotion_max_uses and orders_loyalty_redemption
+// triggers raise.
+function isPromotionUsedUp(error: DbError): boolean {
+  return error?.code === "23514" && error.hint === "max_uses";
+}
+function isFreeDrinkUnavailable(error: DbError): boolean {
+  return error?.code === "23514" && error.hint === "free_drink";
+}
+
 // ---- Receipt types (shape the AI emits) ----
 
 export interface ReceiptAddOn {
@@ -32,9 +86,12 @@ export interface ReceiptItem {
   milk: string | null;
   sweetness: string;
   ice_level: string;
+  caffeine: string;
   add_ons: ReceiptAddOn[];
   item_price: number;
   special_instructions: string | null;
+  /** Price rule the line was priced under (e.g. "Happy hour"). Set by server pricing; not stored. */
+  price_rule?: string | null;
 }
 
 export interface OrderReceipt {
@@ -42,20 +99,36 @@ export interface OrderReceipt {
   type: "order_complete" | "order_update";
   customer_name?: string | null;
   items: ReceiptItem[];
+  /** Sum of item prices before discounts. Filled in by server pricing. */
+  subtotal?: number;
+  /** Code the customer gave, e.g. "MORNING10". */
+  promo_code?: string | null;
+  /** Redeem the loyalty card's free drink — see src/lib/loyalty.ts. */
+  free_drink?: boolean;
+  /** Combo, promo-code and free-drink discounts. Filled in by server pricing. */
+  discounts?: DiscountLine[];
+  /** Subtotal minus discounts — before tax and tip. */
   total_price: number;
+  /** Sales tax. Filled in by server pricing. */
+  tax?: number;
+  tip?: number;
+  /** What the customer pays — total_price + tax + tip. Filled in by server pricing. */
+  grand_total?: number;
+  /** Order-ahead pickup time (ISO); null / unset = as soon as possible. See src/lib/scheduling.ts. */
+  pickup_at?: string | null;
 }
 
 // ---- Helper: map receipt items → DB row shape ----
 
-function toItemRows(orderId: string, items: ReceiptItem[]) {
+function toItemFields(items: ReceiptItem[]): RevisionItem[] {
   return items.map((item) => ({
-    order_id: orderId,
     item_name: item.item_name,
     size: item.size,
     temp: item.temp,
     milk: item.milk,
     sweetness: item.sweetness,
     ice_level: item.ice_level,
+    caffeine: item.caffeine ?? "regular",
     // Map receipt shape (price) → DB shape (unit_price)
     add_ons: item.add_ons.map((a) => ({
       name: a.name,
@@ -67,19 +140,30 @@ function toItemRows(orderId: string, items: ReceiptItem[]) {
   }));
 }
 
+function toItemRows(orderId: string, items: ReceiptItem[]) {
+  return toItemFields(items).map((fields) => ({ order_id: orderId, ...fields }));
+}
+
 // ---- Save new order ----
 
-export async function saveOrder(receipt: OrderReceipt): Promise<OrderWithItems> {
-  // ---- Generate next order number ----
-  const { data: latestRaw } = await db
-    .from("orders")
-    .select("order_number")
-    .order("order_number", { ascending: false })
-    .limit(1)
-    .maybeSingle();
+/** `customerId` links the order to a signed-in customer; guests pass nothing. */
+export async function saveOrder(
+  receipt: OrderReceipt,
+  customerId: string | null = null
+): Promise<OrderWithItems> {
+  // ---- Allocate next order number (atomic, see next_order_number()) ----
+  const { data: numberRaw, error: numberError } = await db.rpc(
+    "next_order_number",
+    { p_mode: ORDER_NUMBERING_MODE, p_timezone: BUSINESS_TIMEZONE }
+  );
 
-  const latest = latestRaw as { order_number: number } | null;
-  const orderNumber = (latest?.order_number ?? 0) + 1;
+  if (numberError || typeof numberRaw !== "number") {
+    throw new Error(
+      `Failed to allocate order number: ${numberError?.message ?? "unknown error"}`
+    );
+  }
+
+  const orderNumber = numberRaw;
 
   // ---- Insert order row ----
   const { data: orderRaw, error: orderError } = await db
@@ -87,12 +171,25 @@ export async function saveOrder(receipt: OrderReceipt): Promise<OrderWithItems>
     .insert({
       order_number: orderNumber,
       customer_name: receipt.customer_name ?? null,
+      customer_id: customerId,
       status: "new",
       total_price: receipt.total_price,
+      discounts: receipt.discounts ?? [],
+      discount_total: discountTotal(receipt.discounts ?? []),
+      promo_code: receipt.promo_code ?? null,
+      tax: receipt.tax ?? 0,
+      tip: receipt.tip ?? 0,
+      pickup_at: receipt.pickup_at ?? null,
     })
     .select()
     .single();
 
+  if (isPromotionUsedUp(orderError)) {
+    throw new PromotionUsedUpError(orderError!.message);
+  }
+  if (isFreeDrinkUnavailable(orderError)) {
+    throw new FreeDrinkUnavailableError(orderError!.message);
+  }
   if (orderError || !orderRaw) {
     throw new Error(
       `Failed to create order: ${orderError?.message ?? "unknown error"}`
@@ -122,43 +219,44 @@ export async function saveOrder(receipt: OrderReceipt): Promise<OrderWithItems>
 
 // ---- Update existing order ----
 //
-// Called when the AI outputs type:"order_update". Replaces the order's
-// total_price and fully replaces all order_items (delete + re-insert).
-// The order_number and id remain the same — no duplicate is created.
+// Called when the customer modifies a placed order. The total,
+// discount, tax, tip and pickup time update, order_items replacement and
+// order_revisions record all happen in one transaction inside
+// apply_order_revision(), so a failure can't leave the order without
+// items. The order_number and id remain the same. Throws
+// OrderNotModifiableError once the order has left "new".
 
 export async function updateOrder(
   orderId: string,
-  items: ReceiptItem[],
-  newTotal: number
-): Promise<void> {
-  // 1. Update the order total
-  const { error: updateError } = await db
-    .from("orders")
-    .update({ total_price: newTotal })
-    .eq("id", orderId);
+  receipt: OrderReceipt,
+  changedBy: string
+): Promise<OrderRevision> {
+  const { data, error } = await db.rpc("apply_order_revision", {
+    p_order_id: orderId,
+    p_items: toItemFields(receipt.items),
+    p_total: receipt.total_price,
+    p_changed_by: changedBy,
+    p_discounts: receipt.discounts ?? [],
+    p_promo_code: receipt.promo_code ?? null,
+    p_tax: receipt.tax ?? 0,
+    p_tip: receipt.tip ?? 0,
+    p_pickup_at: receipt.pickup_at ?? null,
+  });
 
-  if (updateError) {
-    throw new Error(`Failed to update order: ${updateError.message}`);
+  if (error?.code === NOT_MODIFIABLE) {
+    throw new OrderNotModifiableError(orderId);
   }
-
-  // 2. Delete all existing order_items for this order
-  const { error: deleteError } = await db
-    .from("order_items")
-    .delete()
-    .eq("order_id", orderId);
-
-  if (deleteError) {
-    throw new Error(`Failed to delete order items: ${deleteError.message}`);
+  if (isPromotionUsedUp(error)) {
+    throw new PromotionUsedUpError(error!.message);
   }
-
-  // 3. Insert the updated items
-  const itemRows = toItemRows(orderId, items);
-
-  const { error: insertError } = await db
-    .from("order_items")
-    .insert(itemRows);
-
-  if (insertError) {
-    throw new Error(`Failed to insert updated items: ${insertError.message}`);
+  if (isFreeDrinkUnavailable(error)) {
+    throw new FreeDrinkUnavailableError(error!.message);
   }
+  if (error || !data) {
+    throw new Error(
+      `Failed to update order: ${error?.message ?? "unknown error"}`
+    );
+  }
+
+  return data as OrderRevision;
 }
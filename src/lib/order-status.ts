@@ -0,0 +1,54 @@
+// src/lib/order-status.ts
+// ============================================================
+// Order lifecycle — which status changes are allowed and which
+// timestamp each one stamps. Enforced by updateOrderStatus in
+// barista-service.ts; read by the barista board, ReceiptCard and
+// the dashboard.
+//
+//   new → in_progress → ready → picked_up
+//   new / in_progress → cancelled
+//
+// "completed" is the pre-lifecycle terminal state. Historical rows
+// keep it; nothing transitions into or out of it any more.
+// ============================================================
+
+import type { Order, OrderStatus } from "./types";
+
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  new:         ["in_progress", "cancelled"],
+  in_progress: ["ready", "cancelled"],
+  ready:       ["picked_up"],
+  picked_up:   [],
+  completed:   [],
+  cancelled:   [],
+};
+
+/** Timestamp column set when an order enters each status. */
+export const STATUS_TIMESTAMPS: Partial<Record<OrderStatus, keyof Order>> = {
+  in_progress: "started_at",
+  ready:       "ready_at",
+  picked_up:   "picked_up_at",
+  cancelled:   "cancelled_at",
+};
+
+/** Drinks are made — counts toward fulfillment and completion rate. */
+export const FULFILLED_STATUSES: OrderStatus[] = ["ready", "picked_up", "completed"];
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[from].includes(to);
+}
+
+/** Every status an order may be in for a move to `to` to be valid. */
+export function statusesBefore(to: OrderStatus): OrderStatus[] {
+  return (Object.keys(ORDER_TRANSITIONS) as OrderStatus[]).filter((from) =>
+    canTransition(from, to)
+  );
+}
+
+/**
+ * When the barista finished the order. Falls back to completed_at for
+ * rows from before the ready state existed.
+ */
+export function fulfilledAt(order: Pick<Order, "ready_at" | "completed_at">): string | null {
+  return order.ready_at ?? order.completed_at;
+}
@@ -0,0 +1,87 @@
+// src/lib/order-tracking.ts
+// ============================================================
+// Place in line and estimated ready time for the customer's
+// tracking page (/order/[id]) and the cashier's quote — worked out
+// from the live queue, so it moves as the barista works through
+// orders. How long the work takes is src/lib/wait-time.ts.
+//
+// The queue is every order still waiting or being made, in the order
+// the barista sees it on the New lane: by when it joined the queue
+// (a scheduled order joins shortly before its pickup time).
+// ============================================================
+
+import { isHeld, queuedAt } from "./scheduling";
+import { activeBaristas, estimateWait, type PrepTimes, type WaitEstimate } from "./wait-time";
+import type { Order } from "./types";
+
+/** What the queue needs to know about every open order. */
+export type QueuedOrder = Pick<Order, "id" | "status" | "created_at" | "pickup_at" | "started_at"> & {
+  order_items: { item_name: string }[];
+};
+
+const OPEN_STATUSES: Order["status"][] = ["new", "in_progress"];
+
+/** Open orders on the bar at `now` (ms) — scheduled ones still held don't count. */
+function onTheBar(queue: QueuedOrder[], now: number): QueuedOrder[] {
+  return queue.filter((o) => OPEN_STATUSES.includes(o.status) && !isHeld(o, now));
+}
+
+/**
+ * The orders in front of this one, or null when it isn't in line
+ * (held, finished or cancelled). None while it's being made.
+ */
+function queueAhead(order: QueuedOrder, queue: QueuedOrder[], now: number): QueuedOrder[] | null {
+  if (order.status === "in_progress") return [];
+  if (order.status !== "new" || isHeld(order, now)) return null;
+
+  const mine = queuedAt(order);
+  return onTheBar(queue, now).filter(
+    (o) => o.id !== order.id && (o.status === "in_progress" || queuedAt(o) < mine)
+  );
+}
+
+/**
+ * Orders ahead of this one on the bar, at `now` (ms). 0 while it's
+ * being made; null when it isn't in line (held, finished or cancelled).
+ */
+export function ordersAhead(order: QueuedOrder, queue: QueuedOrder[], now: number): number | null {
+  return queueAhead(order, queue, now)?.length ?? null;
+}
+
+/**
+ * When the order should be ready (ms), or null once it is (or won't
+ * be). A scheduled order is due at its pickup time, or later if the
+ * bar is too busy to make it by then.
+ */
+export function estimateReadyAt(
+  order: QueuedOrder,
+  queue: QueuedOrder[],
+  prep: PrepTimes,
+  now: number
+): number | null {
+  if (!OPEN_STATUSES.includes(order.status)) return null;
+  const pickup = order.pickup_at ? new Date(order.pickup_at).getTime() : null;
+  const ahead = queueAhead(order, queue, now);
+  if (ahead === null) return pickup;
+
+  const wait = estimateWait(order, ahead, prep, activeBaristas(onTheBar(queue, now)), now);
+  const estimate = now + wait.minutes * 60_000;
+  return pickup ? Math.max(pickup, estimate) : estimate;
+}
+
+/** The wait for an order placed now, behind everything on the bar. */
+export function quoteWait(
+  items: { item_name: string }[],
+  queue: QueuedOrder[],
+  prep: PrepTimes,
+  now: number
+): WaitEstimate {
+  const open = onTheBar(queue, now);
+  return estimateWait(
+    { status: "new", started_at: null, order_items: items },
+    open,
+    prep,
+    activeBaristas(open),
+    now
+  );
+}
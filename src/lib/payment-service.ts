@@ -0,0 +1,265 @@
+// src/lib/payment-service.ts
+// ============================================================
+// Records payments on orders. The routes charge and refund through
+// the PaymentProvider (src/lib/payments.ts); this module writes the
+// outcome to the order's payment columns. Every payment taken also
+// gets an order_payments row (written by the database when
+// amount_paid goes up), and refunds go against those rows — each
+// charge refunded through its own reference.
+//
+// Every update is guarded on the amount_paid / payment_status it
+// was computed from, so two taps (or a tap and a checkout landing)
+// can't both count. Like barista-service, errors are logged and
+// null is returned.
+// ============================================================
+
+import { createClient } from "@supabase/supabase-js";
+import { getPaymentProvider, type ChargeResult } from "./payments";
+import type { Order, OrderPayment, PaymentMethod } from "./types";
+
+// Plain (non-generic) client — same pattern as order-service.ts.
+const db = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export async function fetchOrder(orderId: string): Promise<Order | null> {
+  const { data, error } = await db.from("orders").select("*").eq("id", orderId).maybeSingle();
+  if (error) {
+    console.error("[payment-service] fetchOrder error:", error);
+    return null;
+  }
+  return data as Order | null;
+}
+
+/** The order a provider reference belongs to — for checkout callbacks. */
+export async function fetchOrderByPaymentRef(reference: string): Promise<Order | null> {
+  const { data, error } = await db
+    .from("orders")
+    .select("*")
+    .eq("payment_ref", reference)
+    .maybeSingle();
+  if (error) {
+    console.error("[payment-service] fetchOrderByPaymentRef error:", error);
+    return null;
+  }
+  return data as Order | null;
+}
+
+async function updatePayment(
+  order: Order,
+  update: Partial<Order>,
+  caller: string
+): Promise<Order | null> {
+  const { data, error } = await db
+    .from("orders")
+    .update(update)
+    .eq("id", order.id)
+    .eq("payment_status", order.payment_status)
+    .eq("amount_paid", order.amount_paid)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error(`[payment-service] ${caller} error:`, error);
+    return null;
+  }
+  if (!data) {
+    console.warn(`[payment-service] ${caller}: order ${order.id} payment changed underneath us`);
+    return null;
+  }
+  return data as Order;
+}
+
+/**
+ * Record a charge of `amount` against the order. A pending result
+ * (cash, online checkout) only notes the method and reference — the
+ * money is counted by markPaid() once it arrives.
+ */
+export function recordCharge(
+  order: Order,
+  method: PaymentMethod,
+  amount: number,
+  result: ChargeResult
+): Promise<Order | null> {
+  const paid = result.status === "paid";
+  return updatePayment(
+    order,
+    {
+      payment_status: paid ? "paid" : "pending",
+      payment_method: method,
+      payment_ref: result.reference,
+      ...(paid && {
+        amount_paid: round2(order.amount_paid + amount),
+        paid_at: new Date().toISOString(),
+      }),
+    },
+    "recordCharge"
+  );
+}
+
+/**
+ * Give back a charge the provider took that recordCharge() couldn't
+ * write — the order's payment changed in between. Pending results
+ * took nothing. false if the refund failed: the customer was charged
+ * and the barista has to refund them by hand.
+ */
+export async function voidCharge(
+  order: Order,
+  method: PaymentMethod,
+  amount: number,
+  result: ChargeResult
+): Promise<boolean> {
+  if (result.status !== "paid") return true;
+  try {
+    await getPaymentProvider().refund({
+      orderId: order.id,
+      method,
+      reference: result.reference,
+      amount,
+    });
+    return true;
+  } catch (err) {
+    console.error(`[payment-service] voiding charge failed for order ${order.id}:`, err);
+    return false;
+  }
+}
+
+/**
+ * Settle whatever is due — the barista took cash or a card at the
+ * counter, or an online checkout completed. Keeps the method the
+ * customer picked, defaulting to cash. Only a pending payment's
+ * reference belongs to this money; a balance settled at the counter
+ * after an earlier charge has none.
+ */
+export function markPaid(order: Order): Promise<Order | null> {
+  return updatePayment(
+    order,
+    {
+      payment_status: "paid",
+      payment_method: order.payment_method ?? "cash",
+      payment_ref: order.payment_status === "pending" ? order.payment_ref : null,
+      amount_paid: order.grand_total,
+      paid_at: new Date().toISOString(),
+    },
+    "markPaid"
+  );
+}
+
+/** The order's payments with money left to refund, newest first. */
+async function fetchRefundable(orderId: string): Promise<OrderPayment[] | null> {
+  const { data, error } = await db
+    .from("order_payments")
+    .select("*")
+    .eq("order_id", orderId)
+    .order("created_at", { ascending: false });
+  if (error) {
+    console.error("[payment-service] fetchRefundable error:", error);
+    return null;
+  }
+  return ((data as OrderPayment[]) ?? []).filter((p) => p.refunded < p.amount);
+}
+
+/**
+ * Refund up to `amount` from the order's payments, newest first, each
+ * through its own reference. Each share is claimed on the payment row
+ * before the provider is asked, so two refunds can't both spend it;
+ * a provider failure gives the claim back. Returns how much went back.
+ */
+async function refundPayments(order: Order, amount: number): Promise<number> {
+  const payments = await fetchRefundable(order.id);
+  let refunded = 0;
+
+  for (const payment of payments ?? []) {
+    const share = round2(Math.min(amount - refunded, payment.amount - payment.refunded));
+    if (share <= 0) break;
+
+    const claimed = round2(payment.refunded + share);
+    const { data, error } = await db
+      .from("order_payments")
+      .update({ refunded: claimed })
+      .eq("id", payment.id)
+      .eq("refunded", payment.refunded)
+      .select("id")
+      .maybeSingle();
+    if (error || !data) {
+      console.error(`[payment-service] couldn't claim payment ${payment.id}:`, error);
+      break;
+    }
+
+    try {
+      await getPaymentProvider().refund({
+        orderId: order.id,
+        method: payment.method,
+        reference: payment.reference,
+        amount: share,
+      });
+    } catch (err) {
+      console.error(`[payment-service] refund of payment ${payment.id} failed:`, err);
+      await db
+        .from("order_payments")
+        .update({ refunded: payment.refunded })
+        .eq("id", payment.id)
+        .eq("refunded", claimed);
+      break;
+    }
+    refunded = round2(refunded + share);
+  }
+
+  if (refunded < amount) {
+    console.error(
+      `[payment-service] order ${order.id}: refunded $${refunded.toFixed(2)} of $${amount.toFixed(2)}`
+    );
+  }
+  return refunded;
+}
+
+/**
+ * Give back what a cancelled order paid. Returns the order unchanged
+ * when nothing was paid, and null if the provider or the write failed
+ * — what's still owed back stays in amount_paid, and the caller should
+ * say so.
+ */
+export async function refundOrder(order: Order): Promise<Order | null> {
+  if (order.amount_paid <= 0 || order.payment_status === "refunded") return order;
+
+  const refunded = await refundPayments(order, order.amount_paid);
+  if (refunded < order.amount_paid) {
+    if (refunded > 0) {
+      await updatePayment(
+        order,
+        { amount_paid: round2(order.amount_paid - refunded) },
+        "refundOrder"
+      );
+    }
+    return null;
+  }
+
+  return updatePayment(
+    order,
+    { payment_status: "refunded", refunded_at: new Date().toISOString() },
+    "refundOrder"
+  );
+}
+
+/**
+ * Give back what a paid order was overcharged once a modification
+ * brought its total down. Returns the order unchanged when nothing is
+ * owed back, and null if the provider or the write failed.
+ */
+export async function refundOverpayment(order: Order): Promise<Order | null> {
+  const over = round2(order.amount_paid - order.grand_total);
+  if (over <= 0 || order.payment_status === "refunded") return order;
+
+  const refunded = await refundPayments(order, over);
+  if (refunded <= 0) return null;
+
+  const updated = await updatePayment(
+    order,
+    { amount_paid: round2(order.amount_paid - refunded) },
+    "refundOverpayment"
+  );
+  return refunded < over ? null : updated;
+}
@@ -0,0 +1,151 @@
+// src/lib/payments.ts
+// ============================================================
+// Taking payment for an order.
+//
+// paymentDue() and PAYMENT_METHOD_LABELS are shared by the
+// customer's ReceiptCard and the barista board; the server-side
+// PaymentProvider below is what the /api/orders/:id/payment and
+// cancel routes charge and refund through.
+//
+// The provider is pluggable so a real processor (Stripe, Square, …)
+// can be dropped in with setPaymentProvider() without touching the
+// routes:
+//   PAYMENT_PROVIDER=fake (or unset) — deterministic fake, below
+// ============================================================
+
+import type { Order, PaymentMethod } from "./types";
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// ── Shared helpers ────────────────────────────────────────────────────────────
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  card_terminal: "Card",
+  online:        "Pay online",
+  cash:          "Cash",
+};
+
+export function isPaymentMethod(value: unknown): value is PaymentMethod {
+  return typeof value === "string" && value in PAYMENT_METHOD_LABELS;
+}
+
+/**
+ * What the customer still owes. Non-zero for a paid order whose
+ * total went up in a modification; zero once cancelled or refunded.
+ */
+export function paymentDue(
+  order: Pick<Order, "status" | "payment_status" | "grand_total" | "amount_paid">
+): number {
+  if (order.status === "cancelled" || order.payment_status === "refunded") return 0;
+  return round2(Math.max(0, order.grand_total - order.amount_paid));
+}
+
+// ── Provider hook ─────────────────────────────────────────────────────────────
+
+export interface PaymentRequest {
+  orderId: string;
+  orderNumber: number;
+  amount: number;
+  method: PaymentMethod;
+}
+
+export interface ChargeResult {
+  /**
+   * "paid" — the money is in. "pending" — the customer still has to
+   * finish: pay cash at the counter or complete the online checkout.
+   */
+  status: "paid" | "pending" | "declined";
+  /** Provider reference for the charge; null when nothing was charged (cash). */
+  reference: string | null;
+  /** Pay-online link to send the customer to. */
+  checkoutUrl?: string;
+  /** Why a charge was declined, in words the customer can read. */
+  message?: string;
+}
+
+export interface RefundRequest {
+  orderId: string;
+  method: PaymentMethod | null;
+  reference: string | null;
+  amount: number;
+}
+
+export interface PaymentProvider {
+  name: string;
+  charge(request: PaymentRequest): Promise<ChargeResult>;
+  /** Throws if the refund can't be made. */
+  refund(request: RefundRequest): Promise<{ reference: string | null }>;
+}
+
+/** Card charges above this are declined by the fake provider. */
+export const FAKE_DECLINE_OVER = 100;
+
+/**
+ * Deterministic provider for local development and tests:
+ *   card_terminal — approved at once, declined over FAKE_DECLINE_OVER
+ *   online        — pending, with a checkout link that marks it paid
+ *                   (GET /api/payments/fake-checkout)
+ *   cash          — pending until the barista marks it paid
+ * References are derived from the order id, so reruns match.
+ */
+export function createFakePaymentProvider(): PaymentProvider & {
+  charges: PaymentRequest[];
+  refunds: RefundRequest[];
+} {
+  const charges: PaymentRequest[] = [];
+  const refunds: RefundRequest[] = [];
+  return {
+    name: "fake",
+    charges,
+    refunds,
+    async charge(request) {
+      charges.push(request);
+      const reference = `fake_${request.method}_${request.orderId}`;
+      switch (request.method) {
+        case "card_terminal":
+          if (request.amount > FAKE_DECLINE_OVER) {
+            return {
+              status: "declined",
+              reference: null,
+              message: "Card declined. Try another card or pay another way.",
+            };
+          }
+          return { status: "paid", reference };
+        case "online":
+          return {
+            status: "pending",
+            reference,
+            checkoutUrl: `/api/payments/fake-checkout?ref=${encodeURIComponent(reference)}`,
+          };
+        case "cash":
+          return { status: "pending", reference: null };
+      }
+    },
+    async refund(request) {
+      refunds.push(request);
+      // Cash goes back over the counter — nothing to reference.
+      return { reference: request.reference ? `fake_refund_${request.orderId}` : null };
+    },
+  };
+}
+
+let provider: PaymentProvider | null = null;
+
+/** Provider selected by PAYMENT_PROVIDER, created once per server process. */
+export function getPaymentProvider(): PaymentProvider {
+  if (provider) return provider;
+
+  const name = process.env.PAYMENT_PROVIDER ?? "fake";
+  if (name !== "fake") {
+    // Never fall back to the fake for a misconfigured real provider —
+    // it would mark orders paid without taking any money.
+    throw new Error(`PAYMENT_PROVIDER "${name}" is not registered — see setPaymentProvider()`);
+  }
+  provider = createFakePaymentProvider();
+  return provider;
+}
+
+/** Swap the provider — a real processor in production, a fake in tests. */
+export function setPaymentProvider(next: PaymentProvider): void {
+  provider = next;
+}
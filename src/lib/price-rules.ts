@@ -0,0 +1,134 @@
+// src/lib/price-rules.ts
+// ============================================================
+// Scheduled price rules — happy hour and other time-based prices
+// ("iced drinks 20% off, weekdays 2–4pm"). The rules live on the
+// menu (Menu.priceRules); this module decides which are running
+// and what they take off. pricing.ts applies them to every line,
+// and the system prompt and menu drawer show the same rules, so
+// the price the customer hears is the price they pay.
+//
+// Rules don't stack: a line gets the single biggest rule that
+// covers it, off the whole line (size, milk and add-ons).
+// ============================================================
+
+import type { DrinkItem, Menu, PastryItem, PriceRule, Temperature } from "./menu";
+import { businessClock, formatClock, inClockWindow } from "./business-time";
+import { matchesSelector } from "./pricing";
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Does `at` fall inside the rule's schedule? A window that wraps past
+ * midnight (22:00–02:00) belongs to the day it starts on.
+ */
+export function inPriceRuleWindow(rule: PriceRule, at: Date): boolean {
+  const { day, time } = businessClock(at);
+  if (!inClockWindow(time, rule.startTime, rule.endTime)) return false;
+  const afterMidnight = rule.startTime > rule.endTime && time < rule.endTime;
+  return rule.days.includes(afterMidnight ? (day + 6) % 7 : day);
+}
+
+/** Is the rule switched on and inside its schedule at `now`? */
+export function priceRuleRunning(rule: PriceRule, now: Date): boolean {
+  return rule.active !== false && inPriceRuleWindow(rule, now);
+}
+
+/** Rules running right now. */
+export function activePriceRules(menu: Menu, now = new Date()): PriceRule[] {
+  return menu.priceRules.filter((r) => priceRuleRunning(r, now));
+}
+
+/** Does the rule cover this drink (served `temp`) or pastry? */
+export function priceRuleCovers(
+  rule: PriceRule,
+  item: { drink?: DrinkItem; pastry?: PastryItem },
+  temp?: Temperature | null
+): boolean {
+  if (rule.temp && (!item.drink || temp !== rule.temp)) return false;
+  return rule.appliesTo.some((s) => matchesSelector(s, item.drink, item.pastry));
+}
+
+/** The biggest of `rules` that covers the item, if any. */
+export function bestPriceRule(
+  rules: PriceRule[],
+  item: { drink?: DrinkItem; pastry?: PastryItem },
+  temp?: Temperature | null
+): PriceRule | undefined {
+  return rules
+    .filter((r) => priceRuleCovers(r, item, temp))
+    .sort((a, b) => b.percentOff - a.percentOff)[0];
+}
+
+export function applyPriceRule(price: number, rule: PriceRule): number {
+  return round2(price * (1 - rule.percentOff / 100));
+}
+
+// ── Describing ────────────────────────────────────────────────────────────────
+
+const PLURALS: Record<string, string> = {
+  drink: "drinks",
+  coffee: "coffee drinks",
+  tea: "teas",
+  pastry: "pastries",
+};
+
+/** "iced drinks", "Latte and pastries" */
+export function describePriceRuleItems(rule: PriceRule): string {
+  const items = rule.appliesTo.map((s) => PLURALS[s.toLowerCase()] ?? s).join(" and ");
+  return rule.temp ? `${rule.temp} ${items}` : items;
+}
+
+/** "Mon–Fri", "Sat, Sun", "every day" */
+export function formatDays(days: number[]): string {
+  const sorted = [...new Set(days)].sort((a, b) => a - b);
+  if (sorted.length === 7) return "every day";
+  const runs: number[][] = [];
+  for (const d of sorted) {
+    const run = runs[runs.length - 1];
+    if (run && d === run[run.length - 1] + 1) run.push(d);
+    else runs.push([d]);
+  }
+  return runs
+    .map((r) =>
+      r.length >= 3
+        ? `${DAY_NAMES[r[0]]}–${DAY_NAMES[r[r.length - 1]]}`
+        : r.map((d) => DAY_NAMES[d]).join(", ")
+    )
+    .join(", ");
+}
+
+/** "2pm–4pm" */
+export function formatRuleHours(rule: PriceRule): string {
+  return `${formatClock(rule.startTime)}–${formatClock(rule.endTime)}`;
+}
+
+/** "iced drinks 20% off, Mon–Fri 2pm–4pm" */
+export function describePriceRule(rule: PriceRule): string {
+  return `${describePriceRuleItems(rule)} ${rule.percentOff}% off, ${formatDays(rule.days)} ${formatRuleHours(rule)}`;
+}
+
+/**
+ * Price rules for the system prompt: what's running now (the AI
+ * should mention it when it's relevant) and what starts later today
+ * (so it can answer "when's happy hour?"). Empty when there are none.
+ */
+export function formatPriceRulesForPrompt(menu: Menu, now = new Date()): string {
+  const { day, time } = businessClock(now);
+  const lines: string[] = [];
+
+  for (const rule of menu.priceRules.filter((r) => r.active !== false)) {
+    if (priceRuleRunning(rule, now)) {
+      lines.push(
+        `  • RUNNING NOW — ${rule.name}: ${describePriceRuleItems(rule)} are ${rule.percentOff}% off until ${formatClock(rule.endTime)}`
+      );
+    } else if (rule.days.includes(day) && rule.startTime > time) {
+      lines.push(`  • Later today — ${rule.name}: ${describePriceRule(rule)}`);
+    } else {
+      lines.push(`  • Not running now — ${rule.name}: ${describePriceRule(rule)}`);
+    }
+  }
+
+  return lines.join("\n");
+}
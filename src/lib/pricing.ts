@@ -0,0 +1,308 @@
+// src/lib/pricing.ts
+// ============================================================
+// Server-side re-pricing of AI-generated receipts.
+// Every line is recomputed from the current menu (see
+// src/lib/menu-service.ts) — the model's item_price / total_price
+// are never trusted as-is. Price rules running at order time
+// (happy hour, src/lib/price-rules.ts) come off each line, then
+// promotions (src/lib/promotions.ts) off the re-priced subtotal.
+// Sales tax (src/lib/tax.ts) and the tip go on top.
+// ============================================================
+
+import {
+  calculateDrinkPrice,
+  findSize,
+  type AddOn,
+  type DrinkItem,
+  type DrinkOrder,
+  type Menu,
+  type PastryItem,
+  type Temperature,
+} from "./menu";
+import type { OrderReceipt, ReceiptItem } from "./order-service";
+import { freeDrinkDiscount } from "./loyalty";
+import { activePriceRules, applyPriceRule, bestPriceRule } from "./price-rules";
+import { applyPromotions, discountTotal, type Promotion } from "./promotions";
+import { calculateTax } from "./tax";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface PricingIssue {
+  /** Index into receipt.items; null for order-level issues (total_price). */
+  itemIndex: number | null;
+  field: string;
+  message: string;
+  /** "corrected" = fixed server-side; "rejected" = order cannot be saved. */
+  severity: "corrected" | "rejected";
+}
+
+export interface PricedReceipt {
+  receipt: OrderReceipt;
+  issues: PricingIssue[];
+}
+
+export interface PricingOptions {
+  /**
+   * When the order is priced — decides which price rules and
+   * promotions are running. Order updates pass the original order time.
+   */
+  now?: Date;
+  /**
+   * Promotion ids the order already redeemed (an order update) — their
+   * usage limits don't count it a second time.
+   */
+  redeemed?: string[];
+  /**
+   * Free drinks on the customer's loyalty card that this order may
+   * use. Unset for guests, so free_drink never applies.
+   */
+  freeDrinks?: number;
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export function findDrink(itemName: string, menu: Menu): DrinkItem | undefined {
+  const n = itemName.toLowerCase();
+  // Longest name first so "Matcha Latte" wins over "Latte" and
+  // "Iced Latte" (the AI often embeds the temp) still resolves.
+  return [...menu.drinks]
+    .sort((a, b) => b.name.length - a.name.length)
+    .find((d) => n.includes(d.name.toLowerCase()));
+}
+
+export function findPastry(itemName: string, menu: Menu): PastryItem | undefined {
+  const n = itemName.toLowerCase();
+  return menu.pastries.find((p) => n.includes(p.name.toLowerCase()));
+}
+
+export function findAddOn(name: string, menu: Menu): AddOn | undefined {
+  const n = name.toLowerCase().trim();
+  return (
+    menu.addOns.find((a) => a.name.toLowerCase() === n) ??
+    menu.addOns.find((a) => a.name.toLowerCase().includes(n) || n.includes(a.name.toLowerCase()))
+  );
+}
+
+/**
+ * Does a menu item match a selector — "drink", "coffee", "tea",
+ * "pastry" or an exact item name? Combo slots and price rules both
+ * pick items this way.
+ */
+export function matchesSelector(selector: string, drink?: DrinkItem, pastry?: PastryItem): boolean {
+  const s = selector.toLowerCase();
+  if (s === "drink") return drink !== undefined;
+  if (s === "coffee" || s === "tea") return drink?.category === s;
+  if (s === "pastry") return pastry !== undefined;
+  return (drink ?? pastry)?.name.toLowerCase() === s;
+}
+
+// ── Per-item pricing ──────────────────────────────────────────────────────────
+
+function priceDrinkItem(
+  item: ReceiptItem,
+  drink: DrinkItem,
+  menu: Menu,
+  now: Date,
+  index: number,
+  issues: PricingIssue[]
+): ReceiptItem {
+  const reject = (field: string, message: string) =>
+    issues.push({ itemIndex: index, field, message, severity: "rejected" });
+
+  const size = findSize(drink, item.size ?? "");
+  if (!size) {
+    const offered = drink.sizes.map((s) => s.name).join(", ");
+    reject("size", `${drink.name} doesn't come in "${item.size}" — we have ${offered}.`);
+    return item;
+  }
+
+  if (item.milk && !menu.milkOptions.some((m) => m.name === item.milk)) {
+    reject("milk", `Unknown milk "${item.milk}".`);
+    return item;
+  }
+
+  const addOns: ReceiptItem["add_ons"] = [];
+  for (const a of item.add_ons ?? []) {
+    const addOn = findAddOn(a.name, menu);
+    if (!addOn) {
+      reject("add_ons", `Unknown add-on "${a.name}".`);
+      continue;
+    }
+    const qty = Math.max(0, Math.floor(a.qty ?? 0));
+
+    if (a.price !== addOn.price || a.name !== addOn.name) {
+      issues.push({
+        itemIndex: index,
+        field: "add_ons",
+        message: `${addOn.name} is $${addOn.price.toFixed(2)} each (receipt said $${(a.price ?? 0).toFixed(2)}).`,
+        severity: "corrected",
+      });
+    }
+    addOns.push({ name: addOn.name, qty, price: addOn.price });
+  }
+
+  const order: DrinkOrder = {
+    drinkName: drink.name,
+    size: size.name,
+    temp: item.temp as Temperature,
+    milk: item.milk ?? undefined,
+    addOns,
+  };
+  const rule = bestPriceRule(activePriceRules(menu, now), { drink }, order.temp);
+  const fullPrice = calculateDrinkPrice(order, menu);
+  const itemPrice = rule ? applyPriceRule(fullPrice, rule) : fullPrice;
+  if (round2(item.item_price) !== itemPrice) {
+    const why = rule ? ` (${rule.name}, ${rule.percentOff}% off)` : "";
+    issues.push({
+      itemIndex: index,
+      field: "item_price",
+      message: `${drink.name} re-priced from $${(item.item_price ?? 0).toFixed(2)} to $${itemPrice.toFixed(2)}${why}.`,
+      severity: "corrected",
+    });
+  }
+
+  return {
+    ...item,
+    size: size.name,
+    add_ons: addOns,
+    item_price: itemPrice,
+    price_rule: rule?.name ?? null,
+  };
+}
+
+function pricePastryItem(
+  item: ReceiptItem,
+  pastry: PastryItem,
+  menu: Menu,
+  now: Date,
+  index: number,
+  issues: PricingIssue[]
+): ReceiptItem {
+  const rule = bestPriceRule(activePriceRules(menu, now), { pastry });
+  const itemPrice = rule ? applyPriceRule(pastry.price, rule) : pastry.price;
+  if (round2(item.item_price) !== itemPrice) {
+    const why = rule ? ` (${rule.name}, ${rule.percentOff}% off)` : "";
+    issues.push({
+      itemIndex: index,
+      field: "item_price",
+      message: `${pastry.name} re-priced from $${(item.item_price ?? 0).toFixed(2)} to $${itemPrice.toFixed(2)}${why}.`,
+      severity: "corrected",
+    });
+  }
+  return { ...item, add_ons: [], item_price: itemPrice, price_rule: rule?.name ?? null };
+}
+
+// ── Receipt pricing ───────────────────────────────────────────────────────────
+
+/**
+ * Recompute every line of a receipt against the menu and the price
+ * rules running at `options.now`, apply promotions to the subtotal,
+ * then add sales tax and the tip.
+ * Price mismatches are corrected in the returned receipt; unknown items,
+ * sizes, milks or add-ons are reported as "rejected" issues. A promo
+ * code that no longer applies is dropped with a "corrected" issue.
+ */
+export function priceReceipt(
+  receipt: OrderReceipt,
+  menu: Menu,
+  promotions: Promotion[] = [],
+  options: PricingOptions = {}
+): PricedReceipt {
+  const issues: PricingIssue[] = [];
+  const now = options.now ?? new Date();
+
+  const items = receipt.items.map((item, index) => {
+    const drink = findDrink(item.item_name, menu);
+    if (drink) return priceDrinkItem(item, drink, menu, now, index, issues);
+
+    const pastry = findPastry(item.item_name, menu);
+    if (pastry) return pricePastryItem(item, pastry, menu, now, index, issues);
+
+    issues.push({
+      itemIndex: index,
+      field: "item_name",
+      message: `"${item.item_name}" is not on the menu.`,
+      severity: "rejected",
+    });
+    return item;
+  });
+
+  const subtotal = round2(items.reduce((s, i) => s + i.item_price, 0));
+  const { discounts: promoDiscounts, codeError } = applyPromotions(
+    items,
+    receipt.promo_code,
+    promotions,
+    menu,
+    { ...options, now }
+  );
+  if (codeError) {
+    issues.push({ itemIndex: null, field: "promo_code", message: codeError, severity: "corrected" });
+  }
+
+  // The free drink comes off last, out of whatever promotions left.
+  const discounts = [...promoDiscounts];
+  let freeDrink = receipt.free_drink === true;
+  if (freeDrink) {
+    const hasReward = (options.freeDrinks ?? 0) > 0;
+    const line = hasReward
+      ? freeDrinkDiscount(items, subtotal - discountTotal(discounts), menu)
+      : null;
+    if (line) {
+      discounts.push(line);
+    } else {
+      freeDrink = false;
+      issues.push({
+        itemIndex: null,
+        field: "free_drink",
+        message: hasReward
+          ? "The free drink needs a drink in the order."
+          : "There's no free drink on the loyalty card yet.",
+        severity: "corrected",
+      });
+    }
+  }
+
+  const total = round2(subtotal - discountTotal(discounts));
+  if (round2(receipt.total_price) !== total) {
+    issues.push({
+      itemIndex: null,
+      field: "total_price",
+      message: `Total re-computed from $${(receipt.total_price ?? 0).toFixed(2)} to $${total.toFixed(2)}.`,
+      severity: "corrected",
+    });
+  }
+
+  const tax = calculateTax(items, discountTotal(discounts), menu);
+  const rawTip = receipt.tip ?? 0;
+  const tip = Number.isFinite(rawTip) && rawTip > 0 ? round2(rawTip) : 0;
+  if (rawTip < 0) {
+    issues.push({
+      itemIndex: null,
+      field: "tip",
+      message: `Tip of -$${Math.abs(rawTip).toFixed(2)} dropped to $0.00 — it can't be negative.`,
+      severity: "corrected",
+    });
+  }
+
+  return {
+    receipt: {
+      ...receipt,
+      items,
+      subtotal,
+      discounts,
+      promo_code: codeError ? null : (receipt.promo_code ?? null),
+      free_drink: freeDrink,
+      total_price: total,
+      tax,
+      tip,
+      grand_total: round2(total + tax + tip),
+    },
+    issues,
+  };
+}
+
+export function hasRejections(issues: PricingIssue[]): boolean {
+  return issues.some((i) => i.severity === "rejected");
+}
@@ -0,0 +1,64 @@
+// src/lib/promotion-service.ts
+// ============================================================
+// Loads promotions (combo deals and promo codes) with how many
+// orders have redeemed each one. The chat route and the order
+// routes pass the result to pricing — see src/lib/promotions.ts.
+//
+// Uses a plain (non-generic) Supabase client — same pattern as
+// order-service.ts.
+// ============================================================
+
+import { createClient } from "@supabase/supabase-js";
+import type { Promotion } from "./promotions";
+import type { PromotionRow, PromotionUsageRow } from "./types";
+
+const db = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+// "06:00:00" → "06:00"
+const hhmm = (t: string | null) => (t ? t.slice(0, 5) : null);
+
+function promotionFromRow(r: PromotionRow, uses: number): Promotion {
+  return {
+    id: r.id,
+    name: r.name,
+    code: r.code,
+    kind: r.kind,
+    amount: Number(r.amount),
+    comboItems: r.combo_items ?? [],
+    minSubtotal: r.min_subtotal === null ? null : Number(r.min_subtotal),
+    startsAt: r.starts_at,
+    endsAt: r.ends_at,
+    dailyStart: hhmm(r.daily_start),
+    dailyEnd: hhmm(r.daily_end),
+    maxUses: r.max_uses,
+    uses,
+    active: r.active,
+  };
+}
+
+/**
+ * Active promotions. Returns [] if the tables are missing or the
+ * query fails — orders go through at full price rather than not at all.
+ */
+export async function fetchPromotions(): Promise<Promotion[]> {
+  try {
+    const [promos, usage] = await Promise.all([
+      db.from("promotions").select("*").eq("active", true),
+      db.from("promotion_usage").select("*"),
+    ]);
+
+    if (promos.error) throw new Error(promos.error.message);
+    if (usage.error) throw new Error(usage.error.message);
+
+    const uses = new Map(
+      (usage.data as PromotionUsageRow[]).map((u) => [u.promotion_id, Number(u.uses)])
+    );
+    return (promos.data as PromotionRow[]).map((r) => promotionFromRow(r, uses.get(r.id) ?? 0));
+  } catch (err) {
+    console.error("[promotion-service] fetchPromotions failed — no promotions:", err);
+    return [];
+  }
+}
@@ -0,0 +1,237 @@
+// src/lib/promotions.ts
+// ============================================================
+// Promotions engine — combo deals ("any drink + pastry, $1 off")
+// and order discounts (percent or fixed, usually behind a code
+// like MORNING10). Pure functions over the promotions loaded by
+// promotion-service.ts; pricing.ts runs them after every line is
+// re-priced, so discounts always come off server-side prices.
+//
+// Stacking: every automatic promotion applies — combos first (an
+// item counts toward at most one combo set), then codeless order
+// discounts — and finally at most one customer code.
+// ============================================================
+
+import type { Menu } from "./menu";
+import { findDrink, findPastry, matchesSelector, type PricingOptions } from "./pricing";
+import { businessClock, formatClock, inClockWindow } from "./business-time";
+import type { ReceiptItem } from "./order-service";
+import type { DiscountLine } from "./types";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type PromotionKind = "percent" | "fixed" | "combo";
+
+export interface Promotion {
+  id: string;
+  name: string;
+  /** Upper-case code the customer gives; null = applied automatically. */
+  code: string | null;
+  kind: PromotionKind;
+  /** Percent off (percent), dollars off (fixed) or dollars off per set (combo). */
+  amount: number;
+  /** Combo slots: "drink", "pastry", "coffee", "tea" or an exact menu item name. */
+  comboItems: string[];
+  minSubtotal: number | null;
+  /** ISO timestamps bounding the promotion; null = open-ended. */
+  startsAt: string | null;
+  endsAt: string | null;
+  /** Daily window as "HH:MM" in BUSINESS_TIMEZONE, e.g. 06:00–10:00. */
+  dailyStart: string | null;
+  dailyEnd: string | null;
+  maxUses: number | null;
+  /** Orders that have redeemed it — cancelled orders don't count. */
+  uses: number;
+  active: boolean;
+}
+
+export interface PromotionResult {
+  discounts: DiscountLine[];
+  /** Why the customer's code didn't apply; null when it did (or none was given). */
+  codeError: string | null;
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const money = (n: number) => `$${n.toFixed(2)}`;
+
+function inDailyWindow(p: Promotion, now: Date): boolean {
+  if (!p.dailyStart || !p.dailyEnd) return true;
+  return inClockWindow(businessClock(now).time, p.dailyStart, p.dailyEnd);
+}
+
+/**
+ * Why a promotion can't be used right now, or null if it can.
+ * Minimum order size is checked separately — it depends on the cart.
+ */
+export function promotionUnavailable(
+  p: Promotion,
+  { now = new Date(), redeemed = [] }: PricingOptions = {}
+): string | null {
+  const name = p.code ?? p.name;
+  if (!p.active) return `${name} isn't running right now.`;
+  if (p.startsAt && now < new Date(p.startsAt)) return `${name} hasn't started yet.`;
+  if (p.endsAt && now >= new Date(p.endsAt)) return `${name} has expired.`;
+  if (!inDailyWindow(p, now)) {
+    return `${name} is only good ${formatClock(p.dailyStart!)}–${formatClock(p.dailyEnd!)}.`;
+  }
+  // Checked again, under a lock, when the order is saved — see
+  // migration 20261019001900_promotion_max_uses.sql.
+  if (!redeemed.includes(p.id) && p.maxUses !== null && p.uses >= p.maxUses) {
+    return `${name} has been fully redeemed.`;
+  }
+  return null;
+}
+
+export function findPromoCode(code: string, promotions: Promotion[]): Promotion | undefined {
+  const c = code.trim().toUpperCase();
+  return promotions.find((p) => p.code === c);
+}
+
+/** "$1.00 off drink + pastry", "10% off", "$2.00 off orders over $10.00" */
+export function describePromotion(p: Promotion): string {
+  const off =
+    p.kind === "percent" ? `${p.amount}% off` :
+    p.kind === "combo"   ? `${money(p.amount)} off ${p.comboItems.join(" + ")}` :
+                           `${money(p.amount)} off`;
+  const min = p.minSubtotal ? ` orders over ${money(p.minSubtotal)}` : "";
+  const hours = p.dailyStart && p.dailyEnd
+    ? `, ${formatClock(p.dailyStart)}–${formatClock(p.dailyEnd)}`
+    : "";
+  return `${off}${min}${hours}`;
+}
+
+// ── Combos ────────────────────────────────────────────────────────────────────
+
+function matchesSlot(item: ReceiptItem, slot: string, menu: Menu): boolean {
+  return matchesSelector(slot, findDrink(item.item_name, menu), findPastry(item.item_name, menu));
+}
+
+// Named items before categories before "drink" / "pastry", so a
+// "Latte + pastry" slot isn't used up by a broader one.
+const slotRank = (slot: string) =>
+  slot === "drink" || slot === "pastry" ? 2 : slot === "coffee" || slot === "tea" ? 1 : 0;
+
+/**
+ * Complete combo sets in the order, as item indexes. Greedy, most
+ * expensive matching item first. `used` is shared across combos so
+ * no item counts twice.
+ */
+function comboSets(
+  items: ReceiptItem[],
+  slots: string[],
+  used: Set<number>,
+  menu: Menu
+): number[][] {
+  const ordered = [...slots].sort((a, b) => slotRank(a.toLowerCase()) - slotRank(b.toLowerCase()));
+  const byPrice = items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => b.item.item_price - a.item.item_price);
+
+  const sets: number[][] = [];
+  while (true) {
+    const taken: number[] = [];
+    for (const slot of ordered) {
+      const match = byPrice.find(
+        ({ item, index }) =>
+          !used.has(index) && !taken.includes(index) && matchesSlot(item, slot, menu)
+      );
+      if (!match) return sets;
+      taken.push(match.index);
+    }
+    taken.forEach((i) => used.add(i));
+    sets.push(taken);
+  }
+}
+
+// ── Applying ──────────────────────────────────────────────────────────────────
+
+/**
+ * Discount lines for an order. Automatic promotions that aren't
+ * running are skipped silently; a code that doesn't apply is reported
+ * in `codeError` so the cashier can tell the customer why.
+ */
+export function applyPromotions(
+  items: ReceiptItem[],
+  promoCode: string | null | undefined,
+  promotions: Promotion[],
+  menu: Menu,
+  options: PricingOptions = {}
+): PromotionResult {
+  const subtotal = round2(items.reduce((s, i) => s + i.item_price, 0));
+  const discounts: DiscountLine[] = [];
+  let remaining = subtotal;
+
+  const push = (p: Promotion, label: string, amount: number) => {
+    const off = round2(Math.min(amount, remaining));
+    if (off <= 0) return;
+    remaining = round2(remaining - off);
+    discounts.push({ promotion_id: p.id, label, code: p.code, amount: off });
+  };
+
+  const eligible = (p: Promotion) =>
+    promotionUnavailable(p, options) === null &&
+    (p.minSubtotal === null || subtotal >= p.minSubtotal);
+
+  const code = promoCode ? findPromoCode(promoCode, promotions) : undefined;
+  const automatic = promotions.filter((p) => p.code === null && eligible(p));
+  const usedInCombos = new Set<number>();
+
+  const apply = (p: Promotion) => {
+    const label = p.code ? `${p.code} — ${p.name}` : p.name;
+    if (p.kind === "combo") {
+      const sets = comboSets(items, p.comboItems, usedInCombos, menu);
+      sets.forEach((set) => {
+        const setPrice = set.reduce((s, i) => s + items[i].item_price, 0);
+        push(p, label, Math.min(p.amount, setPrice));
+      });
+    } else if (p.kind === "percent") {
+      push(p, label, remaining * (p.amount / 100));
+    } else {
+      push(p, label, p.amount);
+    }
+  };
+
+  automatic.filter((p) => p.kind === "combo").forEach(apply);
+  automatic.filter((p) => p.kind !== "combo").forEach(apply);
+
+  let codeError: string | null = null;
+  if (promoCode) {
+    if (!code) {
+      codeError = `${promoCode.trim().toUpperCase()} isn't a valid code.`;
+    } else {
+      codeError = promotionUnavailable(code, options);
+      if (!codeError && code.minSubtotal !== null && subtotal < code.minSubtotal) {
+        codeError = `${code.code} needs an order of ${money(code.minSubtotal)} — this one is ${money(subtotal)}.`;
+      }
+      if (!codeError) {
+        const before = discounts.length;
+        apply(code);
+        if (discounts.length === before) {
+          codeError = code.kind === "combo"
+            ? `${code.code} needs ${code.comboItems.join(" + ")} in the order.`
+            : `${code.code} doesn't take anything more off this order.`;
+        }
+      }
+    }
+  }
+
+  return { discounts, codeError };
+}
+
+export function discountTotal(discounts: DiscountLine[]): number {
+  return round2(discounts.reduce((s, d) => s + d.amount, 0));
+}
+
+/**
+ * Automatic promotions running right now, one per line, for the
+ * system prompt. Codes are left out — the AI should never hand
+ * them out; customers bring their own.
+ */
+export function formatPromotionsForPrompt(promotions: Promotion[], now = new Date()): string {
+  return promotions
+    .filter((p) => p.code === null && promotionUnavailable(p, { now }) === null)
+    .map((p) => `  • ${p.name}: ${describePromotion(p)}`)
+    .join("\n");
+}
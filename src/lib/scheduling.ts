@@ -0,0 +1,86 @@
+// src/lib/scheduling.ts
+// ============================================================
+// Order-ahead pickups — "I'll pick it up at 8:15".
+//
+//   NEXT_PUBLIC_SCHEDULED_LEAD_MINUTES = minutes before pickup that
+//                                        the order joins the queue
+//                                        (default 10)
+//
+// A scheduled order is saved like any other ("new", with pickup_at
+// set). The barista board holds it in its own lane until the lead
+// time before pickup, then it moves into New on its own — nothing is
+// written, so a pickup time changed by "Modify order" just moves the
+// release time. Pickups are for later the same business day only.
+// ============================================================
+
+import { atBusinessTime, businessClock, formatClock } from "./business-time";
+import type { Order } from "./types";
+
+export const SCHEDULED_LEAD_MINUTES =
+  Number(process.env.NEXT_PUBLIC_SCHEDULED_LEAD_MINUTES) || 10;
+
+const LEAD_MS = SCHEDULED_LEAD_MINUTES * 60_000;
+
+type Scheduled = Pick<Order, "status" | "pickup_at">;
+
+/** "8:15am" in shop time. */
+export function formatPickupTime(pickupAt: string): string {
+  return formatClock(businessClock(new Date(pickupAt)).time);
+}
+
+/**
+ * Turn the cashier's "HH:MM" (24-hour shop time) into a pickup
+ * instant later today, or an error to tell the customer.
+ */
+export function parsePickupTime(hhmm: string, now = new Date()): Date | string {
+  const match = hhmm.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    return `"${hhmm}" isn't a time — use 24-hour HH:MM, e.g. "08:15".`;
+  }
+  const at = atBusinessTime(`${match[1].padStart(2, "0")}:${match[2]}`, now);
+  if (at.getTime() <= now.getTime()) {
+    return `${formatClock(businessClock(at).time)} has already passed — pickups can only be scheduled for later today.`;
+  }
+  return at;
+}
+
+/**
+ * Why a stored pickup time can't be accepted, or null if it can.
+ * Used by the order routes — the AI's tool call is not trusted.
+ */
+export function pickupProblem(pickupAt: string | null | undefined, now = new Date()): string | null {
+  if (!pickupAt) return null;
+  const at = new Date(pickupAt);
+  if (Number.isNaN(at.getTime())) return "The pickup time isn't a valid time.";
+  if (at.getTime() <= now.getTime()) return "The pickup time has already passed.";
+  if (businessClock(at).day !== businessClock(now).day || at.getTime() - now.getTime() > 86_400_000) {
+    return "Pickups can only be scheduled for later today.";
+  }
+  return null;
+}
+
+/** When a scheduled order joins the barista's New queue (ms). */
+export function releaseAt(order: Pick<Order, "pickup_at">): number | null {
+  return order.pickup_at ? new Date(order.pickup_at).getTime() - LEAD_MS : null;
+}
+
+/** When the order joined the New queue (ms) — for sorting and ticket age. */
+export function queuedAt(order: Pick<Order, "created_at" | "pickup_at">): number {
+  const created = new Date(order.created_at).getTime();
+  return Math.max(created, releaseAt(order) ?? created);
+}
+
+/** Still waiting in the Scheduled lane at `now` (ms)? */
+export function isHeld(order: Scheduled, now: number): boolean {
+  const release = releaseAt(order);
+  return order.status === "new" && release !== null && release > now;
+}
+
+/**
+ * When the customer expects their order — the pickup time they asked
+ * for, or when they ordered. Fulfillment time is measured from here.
+ */
+export function promisedAt(order: Pick<Order, "created_at" | "pickup_at">): number {
+  const created = new Date(order.created_at).getTime();
+  return order.pickup_at ? Math.max(created, new Date(order.pickup_at).getTime()) : created;
+}
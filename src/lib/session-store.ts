@@ -0,0 +1,51 @@
+// src/lib/session-store.ts
+// ============================================================
+// Server-side cart storage for chat sessions, keyed by the
+// session id the customer UI sends with every /api/chat call.
+// Called server-side only (API route).
+//
+// Uses a plain (non-generic) Supabase client — same pattern as
+// order-service.ts.
+// ============================================================
+
+import { createClient } from "@supabase/supabase-js";
+import { emptyCart, type Cart } from "./cart";
+
+const db = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isValidSessionId(id: unknown): id is string {
+  return typeof id === "string" && UUID_REGEX.test(id);
+}
+
+/** Load a session's cart. Unknown sessions start with an empty cart. */
+export async function loadSessionCart(sessionId: string): Promise<Cart> {
+  const { data, error } = await db
+    .from("chat_sessions")
+    .select("cart")
+    .eq("id", sessionId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load chat session: ${error.message}`);
+  }
+
+  const cart = (data as { cart: Cart } | null)?.cart;
+  // Carts saved before promo codes existed lack promo_code / discounts.
+  return cart && Array.isArray(cart.items) ? { ...emptyCart(), ...cart } : emptyCart();
+}
+
+export async function saveSessionCart(sessionId: string, cart: Cart): Promise<void> {
+  const { error } = await db
+    .from("chat_sessions")
+    .upsert({ id: sessionId, cart, updated_at: new Date().toISOString() });
+
+  if (error) {
+    throw new Error(`Failed to save chat session: ${error.message}`);
+  }
+}
@@ -1,25 +1,28 @@
 // src/lib/sounds.ts
 // ============================================================
-// Tiny Web Audio utility for the order-confirmed chime.
+// Tiny Web Audio utility for the order-confirmed and
+// order-ready chimes.
 // Uses the native AudioContext API — no external dependencies.
 // Silently no-ops if the browser doesn't support AudioContext
 // or if the user hasn't interacted yet (autoplay policy).
 // ============================================================
 
+function getAudioContext(): AudioContext | null {
+  const AudioCtx =
+    window.AudioContext ||
+    (window as Window & { webkitAudioContext?: typeof AudioContext })
+      .webkitAudioContext;
+  return AudioCtx ? new AudioCtx() : null;
+}
+
 /**
  * Play a short two-tone "ding" chime to confirm an order.
  * High tone (880 Hz) fades into a lower tone (660 Hz) over ~300 ms.
  */
 export function playOrderSound(): void {
   try {
-    const AudioCtx =
-      window.AudioContext ||
-      (window as Window & { webkitAudioContext?: typeof AudioContext })
-        .webkitAudioContext;
-
-    if (!AudioCtx) return;
-
-    const ctx = new AudioCtx();
+    const ctx = getAudioContext();
+    if (!ctx) return;
 
     const osc = ctx.createOscillator();
     const gain = ctx.createGain();
@@ -49,3 +52,47 @@ export function playOrderSound(): void {
     // Silently swallow: autoplay blocked, API unavailable, etc.
   }
 }
+
+/**
+ * Louder "your order is ready" chime — three rising notes
+ * (660 → 880 → 1320 Hz), played twice so it cuts through café noise.
+ */
+export function playReadySound(): void {
+  try {
+    const ctx = getAudioContext();
+    if (!ctx) return;
+
+    const notes = [660, 880, 1320];
+    const noteLen = 0.16;
+    const oscs: OscillatorNode[] = [];
+
+    [0, 0.7].forEach((repeatAt) => {
+      notes.forEach((freq, i) => {
+        const start = ctx.currentTime + repeatAt + i * noteLen;
+        const osc = ctx.createOscillator();
+        const gain = ctx.createGain();
+
+        osc.connect(gain);
+        gain.connect(ctx.destination);
+
+        osc.type = "triangle";
+        osc.frequency.setValueAtTime(freq, start);
+
+        gain.gain.setValueAtTime(0.0001, start);
+        gain.gain.exponentialRampToValueAtTime(0.6, start + 0.02);
+        gain.gain.exponentialRampToValueAtTime(0.001, start + noteLen + 0.12);
+
+        osc.start(start);
+        osc.stop(start + noteLen + 0.15);
+        oscs.push(osc);
+      });
+    });
+
+    // Release the AudioContext once the final note has played
+    oscs[oscs.length - 1].onended = () => {
+      ctx.close().catch(() => {});
+    };
+  } catch {
+    // Silently swallow: autoplay blocked, API unavailable, etc.
+  }
+}
@@ -0,0 +1,64 @@
+// src/lib/tax.ts
+// ============================================================
+// Sales tax and tips.
+//
+//   NEXT_PUBLIC_SALES_TAX_RATE = decimal rate, e.g. "0.08875"
+//
+// Defaults to the NYC combined rate. Which items are taxed is on
+// the menu (DrinkItem.taxable / PastryItem.taxable) — in NY, drinks
+// are taxed and bakery items sold to go are not. Discounts lower the
+// taxable amount in proportion; tips are never taxed.
+//
+// orders.total_price stays the after-discount sale — what revenue
+// counts. tax and tip sit beside it and grand_total is what the
+// customer pays.
+// ============================================================
+
+import type { Menu } from "./menu";
+import { findDrink, findPastry } from "./pricing";
+import type { ReceiptItem } from "./order-service";
+
+const NYC_SALES_TAX_RATE = 0.08875;
+
+function parseRate(raw: string | undefined): number {
+  const rate = Number(raw);
+  return raw && Number.isFinite(rate) && rate >= 0 && rate < 1 ? rate : NYC_SALES_TAX_RATE;
+}
+
+export const SALES_TAX_RATE = parseRate(process.env.NEXT_PUBLIC_SALES_TAX_RATE);
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Unknown items are taxed — safer to over-collect than under. */
+export function isTaxable(itemName: string, menu: Menu): boolean {
+  return findDrink(itemName, menu)?.taxable ?? findPastry(itemName, menu)?.taxable ?? true;
+}
+
+/**
+ * Tax on a set of lines after `discount` dollars off the whole order.
+ * The discount is spread over taxed and untaxed lines by price.
+ */
+export function calculateTax(
+  items: Pick<ReceiptItem, "item_name" | "item_price">[],
+  discount: number,
+  menu: Menu,
+  rate = SALES_TAX_RATE
+): number {
+  const subtotal = items.reduce((s, i) => s + i.item_price, 0);
+  if (subtotal <= 0) return 0;
+  const taxable = items
+    .filter((i) => isTaxable(i.item_name, menu))
+    .reduce((s, i) => s + i.item_price, 0);
+  const share = Math.max(0, subtotal - discount) / subtotal;
+  return round2(taxable * share * rate);
+}
+
+/** "8.875%" */
+export function formatTaxRate(rate = SALES_TAX_RATE): string {
+  return `${Number((rate * 100).toFixed(3))}%`;
+}
+
+/** A percentage tip on the after-discount, pre-tax total. */
+export function tipFromPercent(total: number, percent: number): number {
+  return round2(Math.max(0, total) * (percent / 100));
+}
@@ -1,10 +1,27 @@
 // src/lib/types.ts
 // ============================================================
 // TypeScript types matching the Supabase schema.
-// Tables are already created in Supabase — types only.
+// Base tables pre-date the repo; later schema changes live in
+// supabase/migrations/. Types only.
 // ============================================================
 
-export type OrderStatus = "new" | "in_progress" | "completed";
+// Lifecycle and allowed transitions: src/lib/order-status.ts.
+// "completed" only appears on rows from before ready / picked_up existed.
+export type OrderStatus =
+  | "new"
+  | "in_progress"
+  | "ready"
+  | "picked_up"
+  | "completed"
+  | "cancelled";
+
+// Charging and refunding: src/lib/payments.ts.
+export type PaymentStatus = "unpaid" | "pending" | "paid" | "refunded";
+
+export type PaymentMethod = "card_terminal" | "online" | "cash";
+
+// Checked off one by one on the barista's ticket — see POST /api/orders/:id/items/:itemId.
+export type ItemStatus = "pending" | "done";
 
 // ---- Row types (what comes back from Supabase selects) ----
 
@@ -12,25 +29,46 @@ export interface Order {
   id: string;                   // uuid
   order_number: number;
   customer_name: string | null;
+  customer_id: string | null;   // signed-in customer — foreign key → customers.id
   status: OrderStatus;
-  total_price: number;
+  subtotal: number;             // generated: total_price + discount_total
+  total_price: number;         // after discounts, before tax and tip — what revenue counts
+  discounts: DiscountLine[];    // json — see src/lib/promotions.ts
+  discount_total: number;       // sum of discounts[].amount
+  promo_code: string | null;    // code the customer redeemed, if any
+  tax: number;                  // sales tax — see src/lib/tax.ts
+  tip: number;
+  grand_total: number;          // generated: total_price + tax + tip — what the customer pays
+  payment_status: PaymentStatus;
+  payment_method: PaymentMethod | null;
+  payment_ref: string | null;   // latest charge's reference; every one is in order_payments
+  amount_paid: number;          // may trail grand_total after a paid order is modified
+  paid_at: string | null;
+  refunded_at: string | null;
+  pickup_at: string | null;     // order-ahead pickup time; null = as soon as possible
   created_at: string;           // ISO timestamp string
   started_at: string | null;    // set when status → in_progress
-  completed_at: string | null;  // set when status → completed
+  completed_at: string | null;  // set when status → completed (legacy)
+  ready_at: string | null;      // set when status → ready
+  picked_up_at: string | null;  // set when status → picked_up
+  cancelled_at: string | null;  // set when status → cancelled
 }
 
 export interface OrderItem {
   id: string;                   // uuid
   order_id: string;             // uuid — foreign key → orders.id
   item_name: string;
-  size: string;                 // "small" | "large"
+  size: string;                 // a size name from the drink's menu entry, e.g. "medium"
   temp: string;                 // "hot" | "iced"
   milk: string | null;          // null for non-milk drinks
   sweetness: string;            // SweetnessLevel
   ice_level: string;            // IceLevel (irrelevant for hot/blended, stored anyway)
+  caffeine: string;             // CaffeineLevel — "regular" unless the drink allows decaf
   add_ons: AddOnLineItem[];     // json array
   item_price: number;
   special_instructions: string | null;
+  status: ItemStatus;
+  done_at: string | null;       // set when the barista checks the item off
 }
 
 // Shape of each element in the add_ons JSON array
@@ -40,24 +78,243 @@ export interface AddOnLineItem {
   unit_price: number;
 }
 
+// Shape of each element in the orders.discounts JSON array
+export interface DiscountLine {
+  promotion_id: string | null;  // null for the loyalty free drink
+  label: string;                // "Drink + pastry combo", "MORNING10 — 10% off"
+  code: string | null;
+  amount: number;               // dollars off, positive
+  loyalty?: boolean;            // punch-card free drink — see src/lib/loyalty.ts
+}
+
 // ---- Order with its items (joined) ----
 
 export interface OrderWithItems extends Order {
   order_items: OrderItem[];
+  /** Only present when the select joins order_revisions(*). */
+  order_revisions?: OrderRevision[];
+}
+
+// ---- Order revision (one per customer modification) ----
+
+/** An order_items row as snapshotted into a revision. */
+export type RevisionItem = Omit<OrderItem, "id" | "order_id" | OrderItemPrepFields>;
+
+export interface OrderRevision {
+  id: string;                   // uuid
+  order_id: string;             // uuid — foreign key → orders.id
+  revision: number;             // 1, 2, … per order
+  previous_items: RevisionItem[]; // json
+  new_items: RevisionItem[];    // json
+  previous_total: number;
+  new_total: number;
+  changed_by: string;           // "customer" | barista / owner identifier
+  created_at: string;
+}
+
+// ---- Order payment (one per payment taken — see src/lib/payment-service.ts) ----
+
+export interface OrderPayment {
+  id: string;                   // uuid
+  order_id: string;             // uuid — foreign key → orders.id
+  method: PaymentMethod;
+  reference: string | null;     // provider's charge reference; null for cash
+  amount: number;
+  refunded: number;             // how much of amount has gone back
+  created_at: string;
+}
+
+// ---- Chat session (server-side cart for /api/chat) ----
+
+export interface ChatSession {
+  id: string;                   // uuid — generated by the customer UI
+  cart: unknown;                // json — Cart from src/lib/cart.ts
+  created_at: string;
+  updated_at: string;
+}
+
+// ---- Customer account (see src/lib/customer-service.ts) ----
+
+export interface Customer {
+  id: string;                   // uuid — same as the Supabase Auth user id
+  name: string | null;          // last name given on an order
+  email: string | null;
+  phone: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// ---- Menu tables (see src/lib/menu-service.ts) ----
+
+/** jsonb nutrition facts — see Nutrition in src/lib/menu.ts. */
+export interface NutritionJson {
+  calories: number;
+  sugar_g: number;
+  caffeine_mg: number;
+}
+
+export interface MenuDrinkRow {
+  id: string;                   // uuid
+  name: string;
+  category: "coffee" | "tea";
+  sizes: { name: string; oz: number; price: number; nutrition?: NutritionJson }[];   // jsonb, smallest first
+  temps: ("hot" | "iced")[];
+  default_temp: "hot" | "iced";
+  has_milk: boolean;
+  milk_allowed: boolean;
+  has_espresso: boolean;
+  has_matcha: boolean;
+  decaf_allowed: boolean;
+  is_blended: boolean;
+  modifier_groups: string[];    // menu_modifier_groups names
+  allergens: string[];
+  taxable: boolean;
+  sort_order: number;
+  active: boolean;
+  available: boolean;           // false = 86'd (sold out right now)
+  updated_at: string;
+}
+
+export interface MenuPastryRow {
+  id: string;
+  name: string;
+  price: number;
+  allergens: string[];
+  nutrition: NutritionJson | null;
+  taxable: boolean;
+  sort_order: number;
+  active: boolean;
+  available: boolean;
+  updated_at: string;
+}
+
+export interface MenuMilkOptionRow {
+  id: string;
+  name: string;                 // stored on order_items.milk
+  label: string;
+  upcharge: number;
+  allergens: string[];
+  nutrition: NutritionJson | null;
+  sort_order: number;
+  active: boolean;
+  available: boolean;
+  updated_at: string;
+}
+
+export interface MenuModifierGroupRow {
+  id: string;
+  name: string;
+  unit: string;                 // "pump", "shot", or "" for "each"
+  min_qty: number;
+  max_qty: number;
+  sort_order: number;
+  active: boolean;
+  updated_at: string;
+}
+
+export interface MenuAddOnRow {
+  id: string;
+  name: string;
+  price: number;
+  max_qty: number;
+  group_name: string;           // → menu_modifier_groups.name
+  allergens: string[];
+  nutrition: NutritionJson | null;
+  sort_order: number;
+  active: boolean;
+  available: boolean;
+  updated_at: string;
+}
+
+export interface MenuPriceRuleRow {
+  id: string;
+  name: string;
+  applies_to: string[];         // "drink", "coffee", "tea", "pastry" or item names
+  temp: "hot" | "iced" | null;
+  percent_off: number;
+  days: number[];               // 0 = Sunday … 6 = Saturday
+  start_time: string;           // "HH:MM:SS" in the business timezone
+  end_time: string;
+  sort_order: number;
+  active: boolean;
+  updated_at: string;
+}
+
+// ---- Promotions (see src/lib/promotion-service.ts) ----
+
+export interface PromotionRow {
+  id: string;
+  name: string;
+  code: string | null;          // upper-case; null = applied automatically
+  kind: "percent" | "fixed" | "combo";
+  amount: number;               // percent off, or dollars off
+  combo_items: string[];        // combo slots — "drink", "pastry", "coffee", "tea" or an item name
+  min_subtotal: number | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  daily_start: string | null;   // "HH:MM:SS" in the business timezone
+  daily_end: string | null;
+  max_uses: number | null;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/** One row per promotion — orders (not cancelled) that redeemed it. */
+export interface PromotionUsageRow {
+  promotion_id: string;
+  uses: number;
 }
 
+/** Columns the menu tables fill in themselves. */
+type MenuRowMeta = "id" | "sort_order" | "active" | "available" | "updated_at";
+type MenuRowInput<T> =
+  Omit<T, MenuRowMeta> & Partial<Pick<T, Extract<keyof T, MenuRowMeta>>>;
+
 // ---- Insert types (for creating new rows) ----
 
-export type NewOrder = Omit<Order, "id" | "created_at" | "started_at" | "completed_at"> & {
+type OrderTimestamp =
+  | "started_at"
+  | "completed_at"
+  | "ready_at"
+  | "picked_up_at"
+  | "cancelled_at";
+
+type OrderDiscountFields = "discounts" | "discount_total" | "promo_code";
+type OrderTaxFields = "tax" | "tip";
+type OrderPaymentFields =
+  | "payment_status"
+  | "payment_method"
+  | "payment_ref"
+  | "amount_paid"
+  | "paid_at"
+  | "refunded_at";
+/** Generated columns — never written. */
+type OrderGenerated = "subtotal" | "grand_total";
+
+/** Columns with defaults — optional on insert. */
+type OrderDefaulted =
+  | "customer_id"
+  | "pickup_at"
+  | OrderTimestamp
+  | OrderDiscountFields
+  | OrderTaxFields
+  | OrderPaymentFields;
+
+export type NewOrder = Omit<
+  Order,
+  "id" | "created_at" | OrderDefaulted | OrderGenerated
+> & {
   id?: string;
   created_at?: string;
-  started_at?: string | null;
-  completed_at?: string | null;
-};
+} & Partial<Pick<Order, OrderDefaulted>>;
+
+/** Prep progress — defaulted on insert, written by the barista. */
+type OrderItemPrepFields = "status" | "done_at";
 
-export type NewOrderItem = Omit<OrderItem, "id"> & {
+export type NewOrderItem = Omit<OrderItem, "id" | OrderItemPrepFields> & {
   id?: string;
-};
+} & Partial<Pick<OrderItem, OrderItemPrepFields>>;
 
 // ---- Supabase Database generic type (used to type the client) ----
 //
@@ -88,9 +345,117 @@ export interface Database {
           }
         ];
       };
+      order_revisions: {
+        Row: OrderRevision;
+        Insert: Omit<OrderRevision, "id" | "created_at"> & { id?: string; created_at?: string };
+        Update: Partial<OrderRevision>;
+        Relationships: [
+          {
+            foreignKeyName: "order_revisions_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      order_payments: {
+        Row: OrderPayment;
+        Insert: Omit<OrderPayment, "id" | "refunded" | "created_at"> &
+          Partial<Pick<OrderPayment, "id" | "refunded" | "created_at">>;
+        Update: Partial<OrderPayment>;
+        Relationships: [
+          {
+            foreignKeyName: "order_payments_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      chat_sessions: {
+        Row: ChatSession;
+        Insert: Pick<ChatSession, "id"> & Partial<ChatSession>;
+        Update: Partial<ChatSession>;
+        Relationships: [];
+      };
+      customers: {
+        Row: Customer;
+        Insert: Pick<Customer, "id"> & Partial<Customer>;
+        Update: Partial<Customer>;
+        Relationships: [];
+      };
+      menu_drinks: {
+        Row: MenuDrinkRow;
+        Insert: MenuRowInput<MenuDrinkRow>;
+        Update: Partial<MenuDrinkRow>;
+        Relationships: [];
+      };
+      menu_pastries: {
+        Row: MenuPastryRow;
+        Insert: MenuRowInput<MenuPastryRow>;
+        Update: Partial<MenuPastryRow>;
+        Relationships: [];
+      };
+      menu_milk_options: {
+        Row: MenuMilkOptionRow;
+        Insert: MenuRowInput<MenuMilkOptionRow>;
+        Update: Partial<MenuMilkOptionRow>;
+        Relationships: [];
+      };
+      menu_modifier_groups: {
+        Row: MenuModifierGroupRow;
+        Insert: MenuRowInput<MenuModifierGroupRow>;
+        Update: Partial<MenuModifierGroupRow>;
+        Relationships: [];
+      };
+      menu_add_ons: {
+        Row: MenuAddOnRow;
+        Insert: MenuRowInput<MenuAddOnRow>;
+        Update: Partial<MenuAddOnRow>;
+        Relationships: [];
+      };
+      menu_price_rules: {
+        Row: MenuPriceRuleRow;
+        Insert: MenuRowInput<MenuPriceRuleRow>;
+        Update: Partial<MenuPriceRuleRow>;
+        Relationships: [];
+      };
+      promotions: {
+        Row: PromotionRow;
+        Insert: Omit<PromotionRow, "id" | "active" | "created_at" | "updated_at"> &
+          Partial<Pick<PromotionRow, "id" | "active" | "created_at" | "updated_at">>;
+        Update: Partial<PromotionRow>;
+        Relationships: [];
+      };
+    };
+    Views: {
+      promotion_usage: {
+        Row: PromotionUsageRow;
+        Relationships: [];
+      };
+    };
+    Functions: {
+      next_order_number: {
+        Args: { p_mode?: "global" | "daily"; p_timezone?: string };
+        Returns: number;
+      };
+      apply_order_revision: {
+        Args: {
+          p_order_id: string;
+          p_items: RevisionItem[];
+          p_total: number;
+          p_changed_by: string;
+          p_discounts?: DiscountLine[];
+          p_promo_code?: string | null;
+          p_tax?: number;
+          p_tip?: number;
+          p_pickup_at?: string | null;
+        };
+        Returns: OrderRevision;
+      };
     };
-    Views: Record<string, never>;
-    Functions: Record<string, never>;
     Enums: Record<string, never>;
     CompositeTypes: Record<string, never>;
   };
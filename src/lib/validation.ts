@@ -0,0 +1,270 @@
+// src/lib/validation.ts
+// ============================================================
+// Machine-checkable version of VALIDATION_RULES (src/lib/menu.ts).
+// The prompt asks the AI to follow the rules; this module makes
+// sure a receipt that breaks them never reaches the barista.
+// Run after pricing, so add-on names are already canonical.
+// ============================================================
+
+import {
+  CAFFEINE_LEVELS,
+  ICE_LEVELS,
+  drinkModifierGroups,
+  SWEETNESS_LEVELS,
+  VALIDATION_RULES,
+  type DrinkItem,
+  type CaffeineLevel,
+  type IceLevel,
+  type Menu,
+  type PastryItem,
+  type SweetnessLevel,
+  type Temperature,
+} from "./menu";
+import { isAvailable, soldOutMessage } from "./availability";
+import {
+  findAddOn,
+  findDrink,
+  findPastry,
+  hasRejections,
+  priceReceipt,
+  type PricingIssue,
+  type PricingOptions,
+} from "./pricing";
+import type { OrderReceipt, ReceiptItem } from "./order-service";
+import type { Promotion } from "./promotions";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type RuleKey = keyof typeof VALIDATION_RULES;
+
+export interface RuleViolation {
+  /** Which VALIDATION_RULES entry was broken. */
+  rule: RuleKey;
+  /** ReceiptItem field at fault, e.g. "temp" or "add_ons". */
+  field: string;
+  message: string;
+}
+
+export interface ReceiptViolation extends RuleViolation {
+  /** Index into receipt.items; null for order-level rules (quantity). */
+  itemIndex: number | null;
+}
+
+// Mirrors VALIDATION_RULES.quantity — above this we send people to catering.
+const MAX_ITEMS_PER_ORDER = 20;
+
+// ── Modifier groups ───────────────────────────────────────────────────────────
+
+function validateModifiers(item: ReceiptItem, drink: DrinkItem, menu: Menu): RuleViolation[] {
+  const violations: RuleViolation[] = [];
+  const groups = drinkModifierGroups(drink, menu);
+  const totals = new Map<string, number>();
+
+  for (const a of item.add_ons ?? []) {
+    const addOn = findAddOn(a.name, menu);
+    if (!addOn) continue; // unknown add-ons are a pricing rejection
+
+    if (!isAvailable(addOn)) {
+      violations.push({
+        rule: "soldOut",
+        field: "add_ons",
+        message: soldOutMessage("addOns", addOn, menu),
+      });
+    } else if (!groups.some((g) => g.name === addOn.group)) {
+      violations.push({
+        rule: "modifiers",
+        field: "add_ons",
+        message: `${addOn.name} can't be added to a ${drink.name}.`,
+      });
+    } else if (a.qty > addOn.maxQty) {
+      violations.push({
+        rule: "modifiers",
+        field: "add_ons",
+        message: `${addOn.name} maxes out at ${addOn.maxQty} (asked for ${a.qty}).`,
+      });
+    }
+    totals.set(addOn.group, (totals.get(addOn.group) ?? 0) + a.qty);
+  }
+
+  for (const g of groups) {
+    const total = totals.get(g.name) ?? 0;
+    if (total > g.max || total < g.min) {
+      violations.push({
+        rule: "modifiers",
+        field: "add_ons",
+        message: total > g.max
+          ? `${g.name} max out at ${g.max}${g.unit ? ` ${g.unit}s` : ""} total (asked for ${total}).`
+          : `A ${drink.name} needs at least ${g.min} from ${g.name}.`,
+      });
+    }
+  }
+
+  return violations;
+}
+
+// ── Per-item rules ────────────────────────────────────────────────────────────
+
+function validateDrink(item: ReceiptItem, drink: DrinkItem, menu: Menu): RuleViolation[] {
+  const violations: RuleViolation[] = [];
+
+  if (!isAvailable(drink)) {
+    violations.push({
+      rule: "soldOut",
+      field: "item_name",
+      message: soldOutMessage("drinks", drink, menu),
+    });
+  }
+
+  if (!drink.temps.includes(item.temp as Temperature)) {
+    violations.push({
+      rule: "temperature",
+      field: "temp",
+      message: `${drink.name} can only be served ${drink.temps.join(" or ")}.`,
+    });
+  }
+
+  if (item.milk && !drink.milkAllowed) {
+    violations.push({
+      rule: "milk",
+      field: "milk",
+      message: `We can't add milk to a ${drink.name}.`,
+    });
+  }
+
+  const milk = menu.milkOptions.find((m) => m.name === item.milk);
+  if (milk && !isAvailable(milk)) {
+    violations.push({
+      rule: "soldOut",
+      field: "milk",
+      message: soldOutMessage("milkOptions", milk, menu),
+    });
+  }
+
+  if (!SWEETNESS_LEVELS.includes(item.sweetness as SweetnessLevel)) {
+    violations.push({
+      rule: "sweetness",
+      field: "sweetness",
+      message: `Unknown sweetness level "${item.sweetness}".`,
+    });
+  }
+
+  if (!ICE_LEVELS.includes(item.ice_level as IceLevel)) {
+    violations.push({
+      rule: "iceLevel",
+      field: "ice_level",
+      message: `Unknown ice level "${item.ice_level}".`,
+    });
+  } else if (item.ice_level !== "regular" && (item.temp !== "iced" || drink.isBlended)) {
+    violations.push({
+      rule: "iceLevel",
+      field: "ice_level",
+      message: drink.isBlended
+        ? `${drink.name} is blended, so the ice level can't be adjusted.`
+        : `A hot ${drink.name} has no ice to adjust.`,
+    });
+  }
+
+  const caffeine = item.caffeine ?? "regular";
+  if (!CAFFEINE_LEVELS.includes(caffeine as CaffeineLevel)) {
+    violations.push({
+      rule: "caffeine",
+      field: "caffeine",
+      message: `Unknown caffeine level "${caffeine}".`,
+    });
+  } else if (caffeine !== "regular" && !drink.decafAllowed) {
+    violations.push({
+      rule: "caffeine",
+      field: "caffeine",
+      message: `We can't make a ${drink.name} ${caffeine}.`,
+    });
+  }
+
+  violations.push(...validateModifiers(item, drink, menu));
+
+  return violations;
+}
+
+function validatePastry(item: ReceiptItem, pastry: PastryItem, menu: Menu): RuleViolation[] {
+  const violations: RuleViolation[] = [];
+  const name = pastry.name;
+
+  if (!isAvailable(pastry)) {
+    violations.push({
+      rule: "soldOut",
+      field: "item_name",
+      message: soldOutMessage("pastries", pastry, menu),
+    });
+  }
+
+  if (item.milk) {
+    violations.push({ rule: "pastries", field: "milk", message: `${name} doesn't take milk.` });
+  }
+  if ((item.add_ons ?? []).length > 0) {
+    violations.push({ rule: "pastries", field: "add_ons", message: `${name} has no add-ons.` });
+  }
+  if ((item.caffeine ?? "regular") !== "regular") {
+    violations.push({ rule: "pastries", field: "caffeine", message: `${name} can't be ${item.caffeine}.` });
+  }
+
+  return violations;
+}
+
+/**
+ * Check a single receipt line against VALIDATION_RULES.
+ * Off-menu items return no violations — pricing already rejects those.
+ */
+export function validateReceiptItem(item: ReceiptItem, menu: Menu): RuleViolation[] {
+  const drink = findDrink(item.item_name, menu);
+  if (drink) return validateDrink(item, drink, menu);
+
+  const pastry = findPastry(item.item_name, menu);
+  if (pastry) return validatePastry(item, pastry, menu);
+
+  return [];
+}
+
+// ── Whole-receipt rules ───────────────────────────────────────────────────────
+
+export function validateReceipt(receipt: OrderReceipt, menu: Menu): ReceiptViolation[] {
+  const violations: ReceiptViolation[] = receipt.items.flatMap((item, itemIndex) =>
+    validateReceiptItem(item, menu).map((v) => ({ ...v, itemIndex }))
+  );
+
+  if (receipt.items.length > MAX_ITEMS_PER_ORDER) {
+    violations.push({
+      rule: "quantity",
+      field: "items",
+      itemIndex: null,
+      message: `For orders of more than ${MAX_ITEMS_PER_ORDER} items, please call us at 212-535-7367.`,
+    });
+  }
+
+  return violations;
+}
+
+// ── Pricing + rules in one pass ───────────────────────────────────────────────
+
+export interface CheckedReceipt {
+  /** Re-priced receipt — safe to persist when `ok` is true. */
+  receipt: OrderReceipt;
+  issues: PricingIssue[];
+  violations: ReceiptViolation[];
+  ok: boolean;
+}
+
+/** Used by every path that saves or updates an order. */
+export function checkReceipt(
+  receipt: OrderReceipt,
+  menu: Menu,
+  promotions: Promotion[] = [],
+  options: PricingOptions = {}
+): CheckedReceipt {
+  const { receipt: priced, issues } = priceReceipt(receipt, menu, promotions, options);
+  const violations = validateReceipt(priced, menu);
+  return {
+    receipt: priced,
+    issues,
+    violations,
+    ok: !hasRejections(issues) && violations.length === 0,
+  };
+}
@@ -0,0 +1,173 @@
+// src/lib/wait-time.ts
+// ============================================================
+// Wait-time estimate — what the cashier quotes ("about 12 minutes")
+// and what the tracking page counts down to.
+//
+//   NEXT_PUBLIC_BARISTAS_ON_SHIFT = fewest baristas assumed on the
+//                                   bar (default 1)
+//
+// Three inputs:
+// - Prep time per item, learned from recent orders. Items checked
+//   off on the ticket time themselves (itemPrepMinutes); otherwise
+//   the order's started_at → ready_at is split evenly across its
+//   items. Items with too few samples use the overall average.
+// - The work ahead: every item still to make on open orders, less
+//   what's already been spent on orders being made.
+// - Baristas working — the shift floor above, or more when more
+//   orders are in progress at once than that.
+// The work ahead is shared between the baristas; your own order is
+// made by one of them.
+// ============================================================
+
+import { fulfilledAt } from "./order-status";
+import type { Order, OrderItem } from "./types";
+
+export const BARISTAS_ON_SHIFT = Math.max(
+  1,
+  Math.floor(Number(process.env.NEXT_PUBLIC_BARISTAS_ON_SHIFT)) || 1
+);
+
+/** Per-item minutes when there's no history yet. */
+export const DEFAULT_PREP_MINUTES = 2;
+
+// An item needs this many timed orders before it gets its own average.
+const MIN_SAMPLES = 3;
+// Orders that took longer than this were left on the board, not made slowly.
+const MAX_ORDER_MINUTES = 30;
+
+/** Learned prep minutes per menu item, plus the average for the rest. */
+export interface PrepTimes {
+  byItem: Record<string, number>;
+  perItem: number;
+}
+
+/** A finished order, as learnPrepTimes() needs it. */
+export type TimedOrder = Pick<Order, "started_at" | "ready_at" | "completed_at"> & {
+  order_items: Pick<OrderItem, "item_name" | "done_at">[];
+};
+
+/** An open order (or the cart), as estimateWait() needs it. */
+export type WorkOrder = Pick<Order, "status" | "started_at"> & {
+  order_items: { item_name: string }[];
+};
+
+export interface WaitEstimate {
+  minutes: number;
+  /** Open orders in front of this one. */
+  ordersAhead: number;
+  baristas: number;
+}
+
+export const NO_HISTORY: PrepTimes = { byItem: {}, perItem: DEFAULT_PREP_MINUTES };
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * How long each item on a ticket took, in the order they were checked
+ * off: from the order's start, or the previous check if that's later.
+ * null unless every item was checked off after the order started.
+ */
+export function itemPrepMinutes(
+  order: Pick<TimedOrder, "started_at" | "order_items">
+): { item_name: string; minutes: number }[] | null {
+  if (!order.started_at || order.order_items.length === 0) return null;
+  const started = new Date(order.started_at).getTime();
+  const checked = order.order_items
+    .map((i) => ({ item_name: i.item_name, at: i.done_at ? new Date(i.done_at).getTime() : NaN }))
+    .sort((a, b) => a.at - b.at);
+  if (checked.some((c) => !(c.at >= started))) return null;
+
+  let from = started;
+  return checked.map((c) => {
+    const minutes = (c.at - from) / 60_000;
+    from = c.at;
+    return { item_name: c.item_name, minutes };
+  });
+}
+
+/** Each item's minutes on a finished order, or null to leave it out. */
+function orderSamples(order: TimedOrder): { item_name: string; minutes: number }[] | null {
+  const timed = itemPrepMinutes(order);
+  if (timed) {
+    const total = timed.reduce((s, t) => s + t.minutes, 0);
+    return total > 0 && total <= MAX_ORDER_MINUTES ? timed : null;
+  }
+
+  const done = fulfilledAt(order);
+  if (!order.started_at || !done || order.order_items.length === 0) return null;
+  const minutes = (new Date(done).getTime() - new Date(order.started_at).getTime()) / 60_000;
+  if (minutes <= 0 || minutes > MAX_ORDER_MINUTES) return null;
+  const share = minutes / order.order_items.length;
+  return order.order_items.map((i) => ({ item_name: i.item_name, minutes: share }));
+}
+
+/** Average minutes per item from finished orders. */
+export function learnPrepTimes(orders: TimedOrder[]): PrepTimes {
+  const samples = new Map<string, number[]>();
+  const all: number[] = [];
+
+  for (const order of orders) {
+    for (const { item_name, minutes } of orderSamples(order) ?? []) {
+      samples.set(item_name, [...(samples.get(item_name) ?? []), minutes]);
+      all.push(minutes);
+    }
+  }
+
+  const average = (xs: number[]) => xs.reduce((s, x) => s + x, 0) / xs.length;
+  const byItem: Record<string, number> = {};
+  for (const [name, xs] of samples) {
+    if (xs.length >= MIN_SAMPLES) byItem[name] = round1(average(xs));
+  }
+  return { byItem, perItem: all.length > 0 ? round1(average(all)) : DEFAULT_PREP_MINUTES };
+}
+
+/** Minutes to make a whole order from scratch. */
+export function prepMinutes(items: { item_name: string }[], prep: PrepTimes): number {
+  return items.reduce((s, i) => s + (prep.byItem[i.item_name] ?? prep.perItem), 0);
+}
+
+/**
+ * Minutes of work left on an open order at `now` (ms). One being made
+ * has at least a minute left until the barista marks it ready.
+ */
+function remainingMinutes(order: WorkOrder, prep: PrepTimes, now: number): number {
+  const total = prepMinutes(order.order_items, prep);
+  if (order.status !== "in_progress" || !order.started_at) return total;
+  const spent = (now - new Date(order.started_at).getTime()) / 60_000;
+  return Math.max(1, total - spent);
+}
+
+/** Baristas on the bar, judging by the open orders too. */
+export function activeBaristas(open: Pick<Order, "status">[]): number {
+  return Math.max(BARISTAS_ON_SHIFT, open.filter((o) => o.status === "in_progress").length);
+}
+
+/**
+ * How long until `order` is ready, given the open orders ahead of it
+ * and the baristas on the bar. An empty cart counts as one item.
+ */
+export function estimateWait(
+  order: WorkOrder,
+  ahead: WorkOrder[],
+  prep: PrepTimes,
+  baristas: number,
+  now: number
+): WaitEstimate {
+  const work = ahead.reduce((s, o) => s + remainingMinutes(o, prep, now), 0);
+  const own = order.order_items.length > 0 ? remainingMinutes(order, prep, now) : prep.perItem;
+  return {
+    minutes: Math.max(1, Math.ceil(work / baristas + own)),
+    ordersAhead: ahead.length,
+    baristas,
+  };
+}
+
+/** "about 12 minutes — 4 orders ahead, 2 baristas on the bar" */
+export function describeWait(wait: WaitEstimate): string {
+  const orders =
+    wait.ordersAhead === 0
+      ? "no orders ahead"
+      : `${wait.ordersAhead} order${wait.ordersAhead === 1 ? "" : "s"} ahead`;
+  const baristas = `${wait.baristas} barista${wait.baristas === 1 ? "" : "s"} on the bar`;
+  return `about ${wait.minutes} minute${wait.minutes === 1 ? "" : "s"} — ${orders}, ${baristas}`;
+}
@@ -0,0 +1,10 @@
+-- Server-side cart for each customer chat session.
+-- /api/chat loads the cart by session id, applies the AI's tool calls
+-- to it, and writes it back — the browser only ever renders it.
+
+create table if not exists public.chat_sessions (
+  id          uuid primary key,
+  cart        jsonb not null default '{"items": [], "customer_name": null}'::jsonb,
+  created_at  timestamptz not null default now(),
+  updated_at  timestamptz not null default now()
+);
@@ -0,0 +1,49 @@
+-- Race-free order number allocation.
+-- saveOrder used to read max(order_number) + 1, so two kiosks submitting
+-- at the same moment could both get #42. Numbers now come from
+-- next_order_number(), which is atomic in both modes:
+--   'global' — one ever-increasing sequence (#001, #002, …)
+--   'daily'  — restarts at 1 each business day (#1–#300 every morning)
+
+-- Daily numbers repeat across days, so order_number can't be unique.
+alter table public.orders drop constraint if exists orders_order_number_key;
+
+create sequence if not exists public.order_number_seq;
+
+-- Continue from the existing orders rather than restarting at 1.
+select setval(
+  'public.order_number_seq',
+  greatest((select coalesce(max(order_number), 0) from public.orders), 1),
+  (select count(*) > 0 from public.orders)
+);
+
+-- One row per business day; the upsert's row lock serialises allocation.
+create table if not exists public.order_number_counters (
+  business_day  date primary key,
+  last_number   integer not null default 0
+);
+
+create or replace function public.next_order_number(
+  p_mode      text default 'global',
+  p_timezone  text default 'UTC'
+)
+returns integer
+language plpgsql
+as $$
+declare
+  v_day    date := (now() at time zone p_timezone)::date;
+  v_number integer;
+begin
+  if p_mode = 'daily' then
+    insert into public.order_number_counters as c (business_day, last_number)
+    values (v_day, 1)
+    on conflict (business_day)
+      do update set last_number = c.last_number + 1
+    returning c.last_number into v_number;
+  else
+    v_number := nextval('public.order_number_seq');
+  end if;
+
+  return v_number;
+end;
+$$;
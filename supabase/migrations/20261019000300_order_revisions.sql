@@ -0,0 +1,85 @@
+-- Atomic order modifications with a full revision history.
+-- updateOrder used to update the total, delete every order_item and
+-- re-insert them as three separate requests; a failure in between left
+-- an order with no items on the barista screen. apply_order_revision()
+-- does all of it in one transaction and records what changed.
+
+create table if not exists public.order_revisions (
+  id              uuid primary key default gen_random_uuid(),
+  order_id        uuid not null references public.orders(id) on delete cascade,
+  revision        integer not null,
+  previous_items  jsonb not null,
+  new_items       jsonb not null,
+  previous_total  numeric not null,
+  new_total       numeric not null,
+  changed_by      text not null,
+  created_at      timestamptz not null default now(),
+  unique (order_id, revision)
+);
+
+create index if not exists order_revisions_created_at_idx
+  on public.order_revisions (created_at);
+
+-- Barista tickets pick up "changed from small to large" live.
+alter publication supabase_realtime add table public.order_revisions;
+
+create or replace function public.apply_order_revision(
+  p_order_id    uuid,
+  p_items       jsonb,
+  p_total       numeric,
+  p_changed_by  text
+)
+returns public.order_revisions
+language plpgsql
+as $$
+declare
+  v_prev_total  numeric;
+  v_prev_items  jsonb;
+  v_revision    public.order_revisions;
+begin
+  -- Row lock serialises concurrent edits of the same order.
+  select total_price into v_prev_total
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  if not found then
+    raise exception 'Order % not found', p_order_id;
+  end if;
+
+  select coalesce(jsonb_agg(to_jsonb(i) - 'id' - 'order_id'), '[]'::jsonb)
+  into v_prev_items
+  from public.order_items i
+  where i.order_id = p_order_id;
+
+  update public.orders set total_price = p_total where id = p_order_id;
+
+  delete from public.order_items where order_id = p_order_id;
+
+  insert into public.order_items (
+    order_id, item_name, size, temp, milk, sweetness, ice_level,
+    add_ons, item_price, special_instructions
+  )
+  select
+    p_order_id, r.item_name, r.size, r.temp, r.milk, r.sweetness, r.ice_level,
+    r.add_ons, r.item_price, r.special_instructions
+  from jsonb_populate_recordset(null::public.order_items, p_items) r;
+
+  insert into public.order_revisions (
+    order_id, revision, previous_items, new_items,
+    previous_total, new_total, changed_by
+  )
+  values (
+    p_order_id,
+    (select coalesce(max(revision), 0) + 1 from public.order_revisions where order_id = p_order_id),
+    v_prev_items,
+    p_items,
+    v_prev_total,
+    p_total,
+    p_changed_by
+  )
+  returning * into v_revision;
+
+  return v_revision;
+end;
+$$;
@@ -0,0 +1,17 @@
+-- Richer order lifecycle:
+--   new → in_progress → ready → picked_up
+--   new / in_progress → cancelled
+-- "completed" stays valid for historical rows written before ready /
+-- picked_up existed. Transitions are enforced by updateOrderStatus
+-- (src/lib/barista-service.ts); the check constraint just keeps the
+-- column to known values.
+
+alter table public.orders drop constraint if exists orders_status_check;
+alter table public.orders
+  add constraint orders_status_check
+  check (status in ('new', 'in_progress', 'ready', 'picked_up', 'completed', 'cancelled'));
+
+alter table public.orders
+  add column if not exists ready_at      timestamptz,
+  add column if not exists picked_up_at  timestamptz,
+  add column if not exists cancelled_at  timestamptz;
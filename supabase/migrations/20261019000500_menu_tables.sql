@@ -0,0 +1,98 @@
+-- Database-backed menu, edited from /owner/menu.
+-- Seeded from the built-in menu in src/lib/menu.ts, which stays as the
+-- fallback if these tables can't be read.
+--
+-- Items are never deleted — "active = false" hides them from ordering
+-- while keeping historical order_items classifiable on the dashboard.
+-- Orders store the price they were sold at (order_items.item_price,
+-- add_ons[].unit_price), so editing a price here never rewrites history.
+
+create table if not exists public.menu_drinks (
+  id            uuid primary key default gen_random_uuid(),
+  name          text not null unique,
+  category      text not null check (category in ('coffee', 'tea')),
+  price_small   numeric(6, 2) not null,
+  price_large   numeric(6, 2) not null,
+  temps         text[] not null default array['hot', 'iced'],
+  default_temp  text not null default 'hot',
+  has_milk      boolean not null default false,
+  milk_allowed  boolean not null default true,
+  has_espresso  boolean not null default false,
+  has_matcha    boolean not null default false,
+  is_blended    boolean not null default false,
+  sort_order    integer not null default 0,
+  active        boolean not null default true,
+  updated_at    timestamptz not null default now()
+);
+
+create table if not exists public.menu_pastries (
+  id          uuid primary key default gen_random_uuid(),
+  name        text not null unique,
+  price       numeric(6, 2) not null,
+  sort_order  integer not null default 0,
+  active      boolean not null default true,
+  updated_at  timestamptz not null default now()
+);
+
+create table if not exists public.menu_milk_options (
+  id          uuid primary key default gen_random_uuid(),
+  name        text not null unique,     -- stored on order_items.milk
+  label       text not null,
+  upcharge    numeric(6, 2) not null default 0,
+  sort_order  integer not null default 0,
+  active      boolean not null default true,
+  updated_at  timestamptz not null default now()
+);
+
+create table if not exists public.menu_add_ons (
+  id             uuid primary key default gen_random_uuid(),
+  name           text not null unique,
+  price          numeric(6, 2) not null,
+  max_qty        integer not null default 1,
+  applicable_to  text not null default 'any'
+                 check (applicable_to in ('milk-drinks', 'espresso-drinks', 'matcha-drinks', 'any')),
+  sort_order     integer not null default 0,
+  active         boolean not null default true,
+  updated_at     timestamptz not null default now()
+);
+
+-- ── Seed (mirrors DEFAULT_MENU) ─────────────────────────────────────────────
+
+insert into public.menu_drinks
+  (name, category, price_small, price_large, temps, default_temp,
+   has_milk, milk_allowed, has_espresso, has_matcha, is_blended, sort_order)
+values
+  ('Americano',          'coffee', 3.00, 4.00, array['hot','iced'], 'hot',  false, true,  true,  false, false, 10),
+  ('Latte',              'coffee', 4.00, 5.00, array['hot','iced'], 'hot',  true,  true,  true,  false, false, 20),
+  ('Cold Brew',          'coffee', 4.00, 5.00, array['iced'],       'iced', false, true,  true,  false, false, 30),
+  ('Mocha',              'coffee', 4.50, 5.50, array['hot','iced'], 'hot',  true,  true,  true,  false, false, 40),
+  ('Coffee Frappuccino', 'coffee', 5.50, 6.00, array['iced'],       'iced', true,  true,  true,  false, true,  50),
+  ('Black Tea',          'tea',    3.00, 3.75, array['hot','iced'], 'hot',  false, true,  false, false, false, 60),
+  ('Jasmine Tea',        'tea',    3.00, 3.75, array['hot','iced'], 'hot',  false, true,  false, false, false, 70),
+  ('Lemon Green Tea',    'tea',    3.50, 4.25, array['hot','iced'], 'hot',  false, false, false, false, false, 80),
+  ('Matcha Latte',       'tea',    4.50, 5.25, array['hot','iced'], 'hot',  true,  true,  false, true,  false, 90)
+on conflict (name) do nothing;
+
+insert into public.menu_pastries (name, price, sort_order)
+values
+  ('Plain Croissant',       3.50, 10),
+  ('Chocolate Croissant',   4.00, 20),
+  ('Chocolate Chip Cookie', 2.50, 30),
+  ('Banana Bread',          3.00, 40)
+on conflict (name) do nothing;
+
+insert into public.menu_milk_options (name, label, upcharge, sort_order)
+values
+  ('whole',  'Whole Milk',  0.00, 10),
+  ('skim',   'Skim Milk',   0.00, 20),
+  ('oat',    'Oat Milk',    0.50, 30),
+  ('almond', 'Almond Milk', 0.75, 40)
+on conflict (name) do nothing;
+
+insert into public.menu_add_ons (name, price, max_qty, applicable_to, sort_order)
+values
+  ('Extra Espresso Shot', 1.50, 5, 'espresso-drinks', 10),
+  ('Extra Matcha Shot',   1.50, 3, 'matcha-drinks',   20),
+  ('Caramel Syrup',       0.50, 6, 'any',             30),
+  ('Hazelnut Syrup',      0.50, 6, 'any',             40)
+on conflict (name) do nothing;
@@ -0,0 +1,17 @@
+-- Real-time "86" flag for menu items.
+--
+-- "available = false" means sold out right now (out of oat milk, no
+-- chocolate croissants left) and is toggled by baristas from the
+-- barista page. It's separate from "active", which retires an item
+-- from the menu for good via /owner/menu.
+
+alter table public.menu_drinks       add column if not exists available boolean not null default true;
+alter table public.menu_pastries     add column if not exists available boolean not null default true;
+alter table public.menu_milk_options add column if not exists available boolean not null default true;
+alter table public.menu_add_ons      add column if not exists available boolean not null default true;
+
+-- The barista page and the customer's menu drawer refetch on change.
+alter publication supabase_realtime add table public.menu_drinks;
+alter publication supabase_realtime add table public.menu_pastries;
+alter publication supabase_realtime add table public.menu_milk_options;
+alter publication supabase_realtime add table public.menu_add_ons;
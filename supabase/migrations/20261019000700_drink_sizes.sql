@@ -0,0 +1,27 @@
+-- Per-drink size lists.
+--
+-- menu_drinks had a fixed price_small / price_large pair, so there was
+-- no way to add a medium or a 20oz Cold Brew. Each drink now carries
+-- its own ordered list of sizes:
+--
+--   [{"name": "small", "oz": 12, "price": 4.00}, {"name": "large", "oz": 16, "price": 5.00}]
+--
+-- order_items.size keeps storing the size name, so existing orders
+-- read the same.
+
+alter table public.menu_drinks
+  add column if not exists sizes jsonb not null default '[]'::jsonb;
+
+update public.menu_drinks
+set sizes = jsonb_build_array(
+  jsonb_build_object('name', 'small', 'oz', 12, 'price', price_small),
+  jsonb_build_object('name', 'large', 'oz', 16, 'price', price_large)
+)
+where sizes = '[]'::jsonb;
+
+alter table public.menu_drinks
+  add constraint menu_drinks_sizes_nonempty
+  check (jsonb_typeof(sizes) = 'array' and jsonb_array_length(sizes) > 0);
+
+alter table public.menu_drinks drop column if exists price_small;
+alter table public.menu_drinks drop column if exists price_large;
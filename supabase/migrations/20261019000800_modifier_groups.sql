@@ -0,0 +1,67 @@
+-- Modifier groups: add-ons are chosen from named groups ("Syrups:
+-- choose 0–6 pumps", "Espresso Shots: 0–5") instead of a fixed
+-- applicable_to value. Each drink lists the groups it takes, so a
+-- new syrup or a whipped-cream topping is a row, not a code change.
+--
+-- Existing add-ons move into groups by their old applicable_to:
+--   espresso-drinks → Espresso Shots   (drinks with has_espresso)
+--   matcha-drinks   → Matcha Shots     (drinks with has_matcha)
+--   any, syrup      → Syrups           (every drink)
+--   any, other      → Extras           (every drink)
+--   milk-drinks     → Milk Extras      (drinks with has_milk)
+
+create table if not exists public.menu_modifier_groups (
+  id          uuid primary key default gen_random_uuid(),
+  name        text not null unique,     -- referenced by menu_drinks.modifier_groups
+  unit        text not null default '', -- "pump", "shot"; '' prices as "each"
+  min_qty     integer not null default 0 check (min_qty >= 0),
+  max_qty     integer not null default 1,
+  sort_order  integer not null default 0,
+  active      boolean not null default true,
+  updated_at  timestamptz not null default now(),
+  check (max_qty >= min_qty)
+);
+
+insert into public.menu_modifier_groups (name, unit, min_qty, max_qty, sort_order) values
+  ('Espresso Shots', 'shot', 0, 5,  10),
+  ('Matcha Shots',   'shot', 0, 3,  20),
+  ('Syrups',         'pump', 0, 6,  30),
+  ('Extras',         '',     0, 10, 40),
+  ('Milk Extras',    '',     0, 10, 50)
+on conflict (name) do nothing;
+
+-- ── Add-ons → groups ────────────────────────────────────────────────────────
+
+alter table public.menu_add_ons
+  add column if not exists group_name text
+  references public.menu_modifier_groups (name) on update cascade;
+
+update public.menu_add_ons
+set group_name = case
+  when applicable_to = 'espresso-drinks' then 'Espresso Shots'
+  when applicable_to = 'matcha-drinks'   then 'Matcha Shots'
+  when applicable_to = 'milk-drinks'     then 'Milk Extras'
+  when name ilike '%syrup%'              then 'Syrups'
+  else 'Extras'
+end
+where group_name is null;
+
+alter table public.menu_add_ons alter column group_name set not null;
+alter table public.menu_add_ons drop column if exists applicable_to;
+
+-- ── Drinks → groups they take ───────────────────────────────────────────────
+
+alter table public.menu_drinks
+  add column if not exists modifier_groups text[] not null default '{}';
+
+update public.menu_drinks
+set modifier_groups =
+    case when has_espresso then array['Espresso Shots'] else '{}' end
+ || case when has_matcha   then array['Matcha Shots']   else '{}' end
+ || array['Syrups', 'Extras']
+ || case when has_milk     then array['Milk Extras']    else '{}' end
+where modifier_groups = '{}';
+
+-- Empty groups stay out of the prompt and the drawer until they get add-ons.
+
+alter publication supabase_realtime add table public.menu_modifier_groups;
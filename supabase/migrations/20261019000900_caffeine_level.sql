@@ -0,0 +1,81 @@
+-- Decaf and half-caf as a recorded option instead of a note in
+-- special_instructions.
+--
+-- order_items.caffeine is 'regular', 'half-caf' or 'decaf'; only drinks
+-- with menu_drinks.decaf_allowed may be anything but 'regular'
+-- (espresso drinks — not Cold Brew, which is brewed from regular beans).
+
+alter table public.order_items
+  add column if not exists caffeine text not null default 'regular'
+  check (caffeine in ('regular', 'half-caf', 'decaf'));
+
+alter table public.menu_drinks
+  add column if not exists decaf_allowed boolean not null default false;
+
+update public.menu_drinks
+set decaf_allowed = true
+where has_espresso and name <> 'Cold Brew';
+
+-- apply_order_revision() lists order_items columns explicitly, so it
+-- has to learn about caffeine too. Unchanged apart from that column.
+create or replace function public.apply_order_revision(
+  p_order_id    uuid,
+  p_items       jsonb,
+  p_total       numeric,
+  p_changed_by  text
+)
+returns public.order_revisions
+language plpgsql
+as $$
+declare
+  v_prev_total  numeric;
+  v_prev_items  jsonb;
+  v_revision    public.order_revisions;
+begin
+  -- Row lock serialises concurrent edits of the same order.
+  select total_price into v_prev_total
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  if not found then
+    raise exception 'Order % not found', p_order_id;
+  end if;
+
+  select coalesce(jsonb_agg(to_jsonb(i) - 'id' - 'order_id'), '[]'::jsonb)
+  into v_prev_items
+  from public.order_items i
+  where i.order_id = p_order_id;
+
+  update public.orders set total_price = p_total where id = p_order_id;
+
+  delete from public.order_items where order_id = p_order_id;
+
+  insert into public.order_items (
+    order_id, item_name, size, temp, milk, sweetness, ice_level, caffeine,
+    add_ons, item_price, special_instructions
+  )
+  select
+    p_order_id, r.item_name, r.size, r.temp, r.milk, r.sweetness, r.ice_level,
+    coalesce(r.caffeine, 'regular'),
+    r.add_ons, r.item_price, r.special_instructions
+  from jsonb_populate_recordset(null::public.order_items, p_items) r;
+
+  insert into public.order_revisions (
+    order_id, revision, previous_items, new_items,
+    previous_total, new_total, changed_by
+  )
+  values (
+    p_order_id,
+    (select coalesce(max(revision), 0) + 1 from public.order_revisions where order_id = p_order_id),
+    v_prev_items,
+    p_items,
+    v_prev_total,
+    p_total,
+    p_changed_by
+  )
+  returning * into v_revision;
+
+  return v_revision;
+end;
+$$;
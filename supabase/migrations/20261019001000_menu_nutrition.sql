@@ -0,0 +1,89 @@
+-- Allergen tags and nutrition facts for every menu item.
+--
+-- allergens: major allergens the item contains ('milk', 'eggs', 'wheat',
+-- 'soy', 'tree nuts', 'peanuts', 'sesame'). A drink's tags leave out its
+-- milk — that comes from the milk option the customer picks.
+--
+-- nutrition: {"calories", "sugar_g", "caffeine_mg"}, null when unknown.
+-- Drinks carry it per size inside menu_drinks.sizes; milk options hold
+-- the change vs whole milk in a 12oz drink; add-ons are per shot/pump.
+
+alter table public.menu_drinks
+  add column if not exists allergens text[] not null default '{}';
+
+alter table public.menu_pastries
+  add column if not exists allergens text[] not null default '{}',
+  add column if not exists nutrition jsonb;
+
+alter table public.menu_milk_options
+  add column if not exists allergens text[] not null default '{}',
+  add column if not exists nutrition jsonb;
+
+alter table public.menu_add_ons
+  add column if not exists allergens text[] not null default '{}',
+  add column if not exists nutrition jsonb;
+
+-- Seed the starting menu.
+update public.menu_drinks d
+set allergens = v.allergens
+from (values
+  ('Mocha',              array['milk', 'soy']),
+  ('Coffee Frappuccino', array['milk'])
+) as v(name, allergens)
+where d.name = v.name;
+
+update public.menu_drinks d
+set sizes = (
+  select jsonb_agg(
+    case s->>'name'
+      when 'small' then s || jsonb_build_object('nutrition', v.small)
+      when 'large' then s || jsonb_build_object('nutrition', v.large)
+      else s
+    end
+  )
+  from jsonb_array_elements(d.sizes) s
+)
+from (values
+  ('Americano',          '{"calories": 15,  "sugar_g": 0,  "caffeine_mg": 150}'::jsonb, '{"calories": 20,  "sugar_g": 0,  "caffeine_mg": 225}'::jsonb),
+  ('Latte',              '{"calories": 190, "sugar_g": 17, "caffeine_mg": 75}',         '{"calories": 250, "sugar_g": 22, "caffeine_mg": 150}'),
+  ('Cold Brew',          '{"calories": 5,   "sugar_g": 0,  "caffeine_mg": 155}',        '{"calories": 5,   "sugar_g": 0,  "caffeine_mg": 205}'),
+  ('Mocha',              '{"calories": 290, "sugar_g": 30, "caffeine_mg": 95}',         '{"calories": 370, "sugar_g": 40, "caffeine_mg": 175}'),
+  ('Coffee Frappuccino', '{"calories": 230, "sugar_g": 45, "caffeine_mg": 70}',         '{"calories": 300, "sugar_g": 60, "caffeine_mg": 95}'),
+  ('Black Tea',          '{"calories": 0,   "sugar_g": 0,  "caffeine_mg": 40}',         '{"calories": 0,   "sugar_g": 0,  "caffeine_mg": 55}'),
+  ('Jasmine Tea',        '{"calories": 0,   "sugar_g": 0,  "caffeine_mg": 25}',         '{"calories": 0,   "sugar_g": 0,  "caffeine_mg": 35}'),
+  ('Lemon Green Tea',    '{"calories": 50,  "sugar_g": 12, "caffeine_mg": 25}',         '{"calories": 70,  "sugar_g": 17, "caffeine_mg": 35}'),
+  ('Matcha Latte',       '{"calories": 200, "sugar_g": 25, "caffeine_mg": 55}',         '{"calories": 260, "sugar_g": 32, "caffeine_mg": 80}')
+) as v(name, small, large)
+where d.name = v.name;
+
+update public.menu_milk_options m
+set allergens = v.allergens, nutrition = v.nutrition
+from (values
+  ('whole',  array['milk'],             '{"calories": 0,   "sugar_g": 0,   "caffeine_mg": 0}'::jsonb),
+  ('skim',   array['milk'],             '{"calories": -70, "sugar_g": 1,   "caffeine_mg": 0}'),
+  ('oat',    array[]::text[],           '{"calories": 10,  "sugar_g": -9,  "caffeine_mg": 0}'),
+  ('almond', array['tree nuts'],        '{"calories": -90, "sugar_g": -14, "caffeine_mg": 0}')
+) as v(name, allergens, nutrition)
+where m.name = v.name;
+
+update public.menu_add_ons a
+set nutrition = v.nutrition
+from (values
+  ('Extra Espresso Shot', '{"calories": 5,  "sugar_g": 0, "caffeine_mg": 75}'::jsonb),
+  ('Extra Matcha Shot',   '{"calories": 15, "sugar_g": 0, "caffeine_mg": 35}'),
+  ('Caramel Syrup',       '{"calories": 20, "sugar_g": 5, "caffeine_mg": 0}'),
+  -- Flavoring only — no actual nuts.
+  ('Hazelnut Syrup',      '{"calories": 20, "sugar_g": 5, "caffeine_mg": 0}')
+) as v(name, nutrition)
+where a.name = v.name;
+
+update public.menu_pastries p
+set allergens = v.allergens, nutrition = v.nutrition
+from (values
+  ('Plain Croissant',       array['wheat', 'milk', 'eggs'],              '{"calories": 260, "sugar_g": 6,  "caffeine_mg": 0}'::jsonb),
+  ('Chocolate Croissant',   array['wheat', 'milk', 'eggs', 'soy'],       '{"calories": 340, "sugar_g": 14, "caffeine_mg": 5}'),
+  ('Chocolate Chip Cookie', array['wheat', 'milk', 'eggs', 'soy'],       '{"calories": 360, "sugar_g": 28, "caffeine_mg": 10}'),
+  -- Made with walnuts.
+  ('Banana Bread',          array['wheat', 'milk', 'eggs', 'tree nuts'], '{"calories": 380, "sugar_g": 30, "caffeine_mg": 0}')
+) as v(name, allergens, nutrition)
+where p.name = v.name;
@@ -0,0 +1,135 @@
+-- Combo deals and promo codes.
+--
+-- promotions: one row per deal. kind is
+--   'combo'   — amount dollars off each complete set of combo_items
+--               ('drink', 'pastry', 'coffee', 'tea' or an exact item name)
+--   'percent' — amount percent off the order
+--   'fixed'   — amount dollars off the order
+-- A null code means the promotion applies automatically; otherwise the
+-- customer has to give the code. Time windows (starts_at / ends_at and
+-- the daily_start–daily_end hours in the business timezone), minimum
+-- order and max_uses are enforced by src/lib/promotions.ts.
+--
+-- orders.discounts holds the discount lines applied to the order
+-- ([{promotion_id, label, code, amount}]); total_price is now after
+-- discounts and discount_total is what they cost.
+
+create table if not exists public.promotions (
+  id            uuid primary key default gen_random_uuid(),
+  name          text not null,
+  code          text unique check (code = upper(code)),
+  kind          text not null check (kind in ('percent', 'fixed', 'combo')),
+  amount        numeric(10,2) not null check (amount > 0),
+  combo_items   text[] not null default '{}',
+  min_subtotal  numeric(10,2),
+  starts_at     timestamptz,
+  ends_at       timestamptz,
+  daily_start   time,
+  daily_end     time,
+  max_uses      integer check (max_uses > 0),
+  active        boolean not null default true,
+  created_at    timestamptz not null default now(),
+  updated_at    timestamptz not null default now(),
+  check (kind <> 'percent' or amount <= 100),
+  check (kind <> 'combo' or cardinality(combo_items) > 0),
+  check ((daily_start is null) = (daily_end is null))
+);
+
+insert into public.promotions (name, code, kind, amount, combo_items, daily_start, daily_end)
+values
+  ('Drink + pastry combo', null,        'combo',   1.00, array['drink', 'pastry'], null,    null),
+  ('Morning 10% off',      'MORNING10', 'percent', 10,   '{}',                     '06:00', '11:00')
+on conflict (code) do nothing;
+
+alter table public.orders
+  add column if not exists discounts      jsonb not null default '[]',
+  add column if not exists discount_total numeric(10,2) not null default 0,
+  add column if not exists promo_code     text;
+
+create index if not exists orders_discounts_idx
+  on public.orders using gin (discounts jsonb_path_ops);
+
+-- Redemptions per promotion, for max_uses. Cancelled orders give theirs back.
+create or replace view public.promotion_usage as
+select p.id as promotion_id, count(o.id)::integer as uses
+from public.promotions p
+left join public.orders o
+  on o.status <> 'cancelled'
+ and o.discounts @> jsonb_build_array(jsonb_build_object('promotion_id', p.id))
+group by p.id;
+
+-- apply_order_revision() now also replaces the order's discounts —
+-- an edit can complete or break a combo. Same body otherwise.
+drop function if exists public.apply_order_revision(uuid, jsonb, numeric, text);
+
+create or replace function public.apply_order_revision(
+  p_order_id    uuid,
+  p_items       jsonb,
+  p_total       numeric,
+  p_changed_by  text,
+  p_discounts   jsonb default '[]',
+  p_promo_code  text default null
+)
+returns public.order_revisions
+language plpgsql
+as $$
+declare
+  v_prev_total  numeric;
+  v_prev_items  jsonb;
+  v_revision    public.order_revisions;
+begin
+  -- Row lock serialises concurrent edits of the same order.
+  select total_price into v_prev_total
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  if not found then
+    raise exception 'Order % not found', p_order_id;
+  end if;
+
+  select coalesce(jsonb_agg(to_jsonb(i) - 'id' - 'order_id'), '[]'::jsonb)
+  into v_prev_items
+  from public.order_items i
+  where i.order_id = p_order_id;
+
+  update public.orders
+  set total_price    = p_total,
+      discounts      = coalesce(p_discounts, '[]'::jsonb),
+      discount_total = (
+        select coalesce(sum((d->>'amount')::numeric), 0)
+        from jsonb_array_elements(coalesce(p_discounts, '[]'::jsonb)) d
+      ),
+      promo_code     = p_promo_code
+  where id = p_order_id;
+
+  delete from public.order_items where order_id = p_order_id;
+
+  insert into public.order_items (
+    order_id, item_name, size, temp, milk, sweetness, ice_level, caffeine,
+    add_ons, item_price, special_instructions
+  )
+  select
+    p_order_id, r.item_name, r.size, r.temp, r.milk, r.sweetness, r.ice_level,
+    coalesce(r.caffeine, 'regular'),
+    r.add_ons, r.item_price, r.special_instructions
+  from jsonb_populate_recordset(null::public.order_items, p_items) r;
+
+  insert into public.order_revisions (
+    order_id, revision, previous_items, new_items,
+    previous_total, new_total, changed_by
+  )
+  values (
+    p_order_id,
+    (select coalesce(max(revision), 0) + 1 from public.order_revisions where order_id = p_order_id),
+    v_prev_items,
+    p_items,
+    v_prev_total,
+    p_total,
+    p_changed_by
+  )
+  returning * into v_revision;
+
+  return v_revision;
+end;
+$$;
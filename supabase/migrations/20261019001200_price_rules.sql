@@ -0,0 +1,32 @@
+-- Scheduled price rules — happy hour and other time-based prices.
+--
+-- menu_price_rules: percent_off comes off every line the rule covers
+-- while it is running. applies_to picks the items the same way combo
+-- slots do ('drink', 'coffee', 'tea', 'pastry' or an exact item name);
+-- temp narrows drinks to hot or iced. days are 0 = Sunday … 6 = Saturday
+-- and start_time–end_time is in the business timezone; an end before
+-- the start runs past midnight. When rules overlap a line gets the
+-- biggest one — see src/lib/price-rules.ts.
+--
+-- order_items.item_price is already the rule price, so nothing changes
+-- on orders.
+
+create table if not exists public.menu_price_rules (
+  id           uuid primary key default gen_random_uuid(),
+  name         text not null,
+  applies_to   text[] not null check (cardinality(applies_to) > 0),
+  temp         text check (temp in ('hot', 'iced')),
+  percent_off  numeric(5,2) not null check (percent_off > 0 and percent_off <= 100),
+  days         smallint[] not null check (cardinality(days) > 0 and days <@ array[0,1,2,3,4,5,6]::smallint[]),
+  start_time   time not null,
+  end_time     time not null check (end_time <> start_time),
+  sort_order   integer not null default 0,
+  active       boolean not null default true,
+  updated_at   timestamptz not null default now()
+);
+
+insert into public.menu_price_rules (name, applies_to, temp, percent_off, days, start_time, end_time, sort_order)
+select 'Happy hour', array['drink'], 'iced', 20, array[1,2,3,4,5]::smallint[], '14:00', '16:00', 10
+where not exists (select 1 from public.menu_price_rules);
+
+alter publication supabase_realtime add table public.menu_price_rules;
@@ -0,0 +1,100 @@
+-- Sales tax and tips.
+--
+-- orders.total_price keeps meaning the sale after discounts — what the
+-- dashboard counts as revenue. tax and tip sit beside it; subtotal and
+-- grand_total (what the customer pays) are generated so they can't
+-- drift from the parts. The tax rate is NEXT_PUBLIC_SALES_TAX_RATE
+-- (src/lib/tax.ts); which items are taxed is on the menu — drinks yes,
+-- bakery items sold to go no.
+
+alter table public.menu_drinks
+  add column if not exists taxable boolean not null default true;
+
+alter table public.menu_pastries
+  add column if not exists taxable boolean not null default false;
+
+alter table public.orders
+  add column if not exists tax         numeric(10,2) not null default 0 check (tax >= 0),
+  add column if not exists tip         numeric(10,2) not null default 0 check (tip >= 0),
+  add column if not exists subtotal    numeric(10,2) generated always as (total_price + discount_total) stored,
+  add column if not exists grand_total numeric(10,2) generated always as (total_price + tax + tip) stored;
+
+-- apply_order_revision() now also replaces the tax and tip. Same body
+-- otherwise.
+drop function if exists public.apply_order_revision(uuid, jsonb, numeric, text, jsonb, text);
+
+create or replace function public.apply_order_revision(
+  p_order_id    uuid,
+  p_items       jsonb,
+  p_total       numeric,
+  p_changed_by  text,
+  p_discounts   jsonb default '[]',
+  p_promo_code  text default null,
+  p_tax         numeric default 0,
+  p_tip         numeric default 0
+)
+returns public.order_revisions
+language plpgsql
+as $$
+declare
+  v_prev_total  numeric;
+  v_prev_items  jsonb;
+  v_revision    public.order_revisions;
+begin
+  -- Row lock serialises concurrent edits of the same order.
+  select total_price into v_prev_total
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  if not found then
+    raise exception 'Order % not found', p_order_id;
+  end if;
+
+  select coalesce(jsonb_agg(to_jsonb(i) - 'id' - 'order_id'), '[]'::jsonb)
+  into v_prev_items
+  from public.order_items i
+  where i.order_id = p_order_id;
+
+  update public.orders
+  set total_price    = p_total,
+      discounts      = coalesce(p_discounts, '[]'::jsonb),
+      discount_total = (
+        select coalesce(sum((d->>'amount')::numeric), 0)
+        from jsonb_array_elements(coalesce(p_discounts, '[]'::jsonb)) d
+      ),
+      promo_code     = p_promo_code,
+      tax            = coalesce(p_tax, 0),
+      tip            = coalesce(p_tip, 0)
+  where id = p_order_id;
+
+  delete from public.order_items where order_id = p_order_id;
+
+  insert into public.order_items (
+    order_id, item_name, size, temp, milk, sweetness, ice_level, caffeine,
+    add_ons, item_price, special_instructions
+  )
+  select
+    p_order_id, r.item_name, r.size, r.temp, r.milk, r.sweetness, r.ice_level,
+    coalesce(r.caffeine, 'regular'),
+    r.add_ons, r.item_price, r.special_instructions
+  from jsonb_populate_recordset(null::public.order_items, p_items) r;
+
+  insert into public.order_revisions (
+    order_id, revision, previous_items, new_items,
+    previous_total, new_total, changed_by
+  )
+  values (
+    p_order_id,
+    (select coalesce(max(revision), 0) + 1 from public.order_revisions where order_id = p_order_id),
+    v_prev_items,
+    p_items,
+    v_prev_total,
+    p_total,
+    p_changed_by
+  )
+  returning * into v_revision;
+
+  return v_revision;
+end;
+$$;
@@ -0,0 +1,28 @@
+-- Payments.
+--
+-- payment_status tracks money, separately from the order's status:
+--   'unpaid'   — nothing asked for yet
+--   'pending'  — a payment is under way: cash or card promised at the
+--                counter, or a pay-online link not completed yet
+--   'paid'     — amount_paid was collected
+--   'refunded' — the order was cancelled after paying and the money
+--                went back
+-- payment_method is how the customer chose to pay; payment_ref is the
+-- provider's reference for the charge (null for cash). amount_paid can
+-- fall short of grand_total when a paid order is modified — the barista
+-- board shows the balance due. Charging and refunding go through the
+-- provider in src/lib/payments.ts.
+
+alter table public.orders
+  add column if not exists payment_status text not null default 'unpaid'
+    check (payment_status in ('unpaid', 'pending', 'paid', 'refunded')),
+  add column if not exists payment_method text
+    check (payment_method in ('card_terminal', 'online', 'cash')),
+  add column if not exists payment_ref    text,
+  add column if not exists amount_paid    numeric(10,2) not null default 0 check (amount_paid >= 0),
+  add column if not exists paid_at        timestamptz,
+  add column if not exists refunded_at    timestamptz;
+
+create index if not exists orders_payment_ref_idx
+  on public.orders (payment_ref)
+  where payment_ref is not null;
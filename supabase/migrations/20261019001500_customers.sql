@@ -0,0 +1,27 @@
+-- Customer accounts.
+--
+-- Customers sign in with Supabase Auth — a one-time code sent to their
+-- phone or email, or the magic link in the same email — so a customer
+-- row shares its id with auth.users. The row is created the first time
+-- a signed-in customer talks to the cashier (src/lib/customer-service.ts).
+-- name is the one they last gave on an order.
+--
+-- orders.customer_id links an order to the account that placed it;
+-- customer_name stays the name called out at pickup. Guest orders keep
+-- a null customer_id.
+
+create table if not exists public.customers (
+  id          uuid primary key references auth.users (id) on delete cascade,
+  name        text,
+  email       text,
+  phone       text,
+  created_at  timestamptz not null default now(),
+  updated_at  timestamptz not null default now()
+);
+
+alter table public.orders
+  add column if not exists customer_id uuid references public.customers (id) on delete set null;
+
+create index if not exists orders_customer_idx
+  on public.orders (customer_id, created_at desc)
+  where customer_id is not null;
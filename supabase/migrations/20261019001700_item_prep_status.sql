@@ -0,0 +1,31 @@
+-- Item-level preparation status.
+--
+-- Baristas check off each line on an in-progress ticket as it's made;
+-- done_at records when. Once every item is done the order moves to
+-- "ready" on its own (POST /api/orders/:id/items/:itemId). An item's
+-- prep time is done_at less the order's started_at or the previous
+-- item's done_at, whichever is later (src/lib/wait-time.ts).
+--
+-- Items are only checked while the order is in progress. Modifying an
+-- order replaces its item rows, which would drop the checks, so from
+-- 20261019001800_revision_requires_new.sql on both the PATCH route and
+-- apply_order_revision() refuse an order that has left "new".
+
+alter table public.order_items
+  add column if not exists status  text not null default 'pending',
+  add column if not exists done_at timestamptz;
+
+alter table public.order_items drop constraint if exists order_items_status_check;
+alter table public.order_items
+  add constraint order_items_status_check
+  check (status in ('pending', 'done'));
+
+-- Old rows: items of a finished order were made. done_at stays null —
+-- when each one was finished wasn't recorded, so prep times for those
+-- orders are still split evenly across their items.
+update public.order_items i
+set status = 'done'
+from public.orders o
+where o.id = i.order_id
+  and coalesce(o.ready_at, o.completed_at) is not null
+  and i.status = 'pending';
@@ -0,0 +1,89 @@
+-- Only "new" orders can be modified.
+--
+-- PATCH /api/orders/:id already refuses anything else, but the function
+-- is the last word: it locks the order only while it's still "new", so
+-- a barista tapping Start (or a cancel) between the
+-- route's check and the write can't have its items replaced under it.
+-- Raises object_not_in_prerequisite_state (55000) otherwise — the route
+-- answers 409. Same signature and body as 20261019001600 otherwise.
+
+create or replace function public.apply_order_revision(
+  p_order_id    uuid,
+  p_items       jsonb,
+  p_total       numeric,
+  p_changed_by  text,
+  p_discounts   jsonb default '[]',
+  p_promo_code  text default null,
+  p_tax         numeric default 0,
+  p_tip         numeric default 0,
+  p_pickup_at   timestamptz default null
+)
+returns public.order_revisions
+language plpgsql
+as $$
+declare
+  v_prev_total  numeric;
+  v_prev_items  jsonb;
+  v_revision    public.order_revisions;
+begin
+  -- Row lock serialises concurrent edits of the same order, and with
+  -- the status check, edits against a barista starting it.
+  select total_price into v_prev_total
+  from public.orders
+  where id = p_order_id
+    and status = 'new'
+  for update;
+
+  if not found then
+    raise exception 'Order % not found or no longer new', p_order_id
+      using errcode = 'object_not_in_prerequisite_state';
+  end if;
+
+  select coalesce(jsonb_agg(to_jsonb(i) - 'id' - 'order_id'), '[]'::jsonb)
+  into v_prev_items
+  from public.order_items i
+  where i.order_id = p_order_id;
+
+  update public.orders
+  set total_price    = p_total,
+      discounts      = coalesce(p_discounts, '[]'::jsonb),
+      discount_total = (
+        select coalesce(sum((d->>'amount')::numeric), 0)
+        from jsonb_array_elements(coalesce(p_discounts, '[]'::jsonb)) d
+      ),
+      promo_code     = p_promo_code,
+      tax            = coalesce(p_tax, 0),
+      tip            = coalesce(p_tip, 0),
+      pickup_at      = p_pickup_at
+  where id = p_order_id;
+
+  delete from public.order_items where order_id = p_order_id;
+
+  insert into public.order_items (
+    order_id, item_name, size, temp, milk, sweetness, ice_level, caffeine,
+    add_ons, item_price, special_instructions
+  )
+  select
+    p_order_id, r.item_name, r.size, r.temp, r.milk, r.sweetness, r.ice_level,
+    coalesce(r.caffeine, 'regular'),
+    r.add_ons, r.item_price, r.special_instructions
+  from jsonb_populate_recordset(null::public.order_items, p_items) r;
+
+  insert into public.order_revisions (
+    order_id, revision, previous_items, new_items,
+    previous_total, new_total, changed_by
+  )
+  values (
+    p_order_id,
+    (select coalesce(max(revision), 0) + 1 from public.order_revisions where order_id = p_order_id),
+    v_prev_items,
+    p_items,
+    v_prev_total,
+    p_total,
+    p_changed_by
+  )
+  returning * into v_revision;
+
+  return v_revision;
+end;
+$$;
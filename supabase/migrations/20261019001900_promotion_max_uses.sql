@@ -0,0 +1,55 @@
+-- Enforce promotions.max_uses when an order is saved.
+--
+-- src/lib/promotions.ts checks the cap while pricing, against the
+-- promotion_usage view, but two checkouts priced at the same moment
+-- both see the last use free. This trigger re-checks on the write:
+-- it locks each capped promotion the order is taking for the first
+-- time, so concurrent orders for the same promotion queue up, then
+-- counts the other orders holding it (cancelled ones give theirs
+-- back, as in promotion_usage). A modification that keeps a
+-- promotion it already had isn't counted again.
+--
+-- Raises check_violation with hint 'max_uses'; saveOrder() and
+-- updateOrder() turn that into PromotionUsedUpError and the routes
+-- answer 422.
+
+create or replace function public.enforce_promotion_max_uses()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_promo  record;
+  v_uses   integer;
+begin
+  for v_promo in
+    select p.id, coalesce(p.code, p.name) as name, p.max_uses
+    from public.promotions p
+    where p.max_uses is not null
+      and new.discounts @> jsonb_build_array(jsonb_build_object('promotion_id', p.id))
+      and (
+        tg_op = 'INSERT'
+        or not old.discounts @> jsonb_build_array(jsonb_build_object('promotion_id', p.id))
+      )
+    order by p.id
+    for update of p
+  loop
+    select count(*) into v_uses
+    from public.orders o
+    where o.id <> new.id
+      and o.status <> 'cancelled'
+      and o.discounts @> jsonb_build_array(jsonb_build_object('promotion_id', v_promo.id));
+
+    if v_uses >= v_promo.max_uses then
+      raise exception '% has been fully redeemed.', v_promo.name
+        using errcode = 'check_violation', hint = 'max_uses';
+    end if;
+  end loop;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_promotion_max_uses on public.orders;
+create trigger orders_promotion_max_uses
+  before insert or update of discounts on public.orders
+  for each row execute function public.enforce_promotion_max_uses();
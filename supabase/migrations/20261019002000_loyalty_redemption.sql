@@ -0,0 +1,78 @@
+-- Enforce the loyalty card when an order takes a free drink.
+--
+-- Punches aren't stored — src/lib/loyalty.ts counts them from the
+-- customer's orders before pricing, so two orders placed at the same
+-- moment could both spend the same free drink. This trigger re-checks
+-- on the write: it locks the customer's row, so their orders queue up,
+-- then counts the card from their other non-cancelled orders the way
+-- loyaltyStatus() does — a drink on the menu earns a punch, the free
+-- one doesn't, and every PUNCHES_PER_REWARD (9) punches earn a free
+-- drink. The order's own punches never pay for its own free drink.
+-- A modification that keeps the free drinks it already had isn't
+-- checked again.
+--
+-- Raises check_violation with hint 'free_drink'; saveOrder() and
+-- updateOrder() turn that into FreeDrinkUnavailableError and the
+-- routes answer 422.
+
+create or replace function public.order_free_drinks(p_discounts jsonb)
+returns integer
+language sql
+immutable
+as $$
+  select count(*)::integer
+  from jsonb_array_elements(coalesce(p_discounts, '[]'::jsonb)) d
+  where d -> 'loyalty' = 'true'::jsonb;
+$$;
+
+create or replace function public.enforce_loyalty_redemption()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_taken   integer := public.order_free_drinks(new.discounts);
+  v_earned  integer;
+  v_used    integer;
+begin
+  if new.customer_id is null or v_taken = 0 then
+    return new;
+  end if;
+  if tg_op = 'UPDATE' and v_taken <= public.order_free_drinks(old.discounts) then
+    return new;
+  end if;
+
+  perform 1 from public.customers c where c.id = new.customer_id for update;
+
+  select
+    coalesce(sum(greatest(0, o.drinks - o.free)), 0),
+    coalesce(sum(o.free), 0)
+  into v_earned, v_used
+  from (
+    select
+      (select count(*)
+       from public.order_items i
+       where i.order_id = o.id
+         and exists (
+           select 1 from public.menu_drinks m
+           where strpos(lower(i.item_name), lower(m.name)) > 0
+         )) as drinks,
+      public.order_free_drinks(o.discounts) as free
+    from public.orders o
+    where o.customer_id = new.customer_id
+      and o.id <> new.id
+      and o.status <> 'cancelled'
+  ) o;
+
+  if v_taken > v_earned / 9 - v_used then
+    raise exception 'There''s no free drink left on the loyalty card.'
+      using errcode = 'check_violation', hint = 'free_drink';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_loyalty_redemption on public.orders;
+create trigger orders_loyalty_redemption
+  before insert or update of discounts on public.orders
+  for each row execute function public.enforce_loyalty_redemption();
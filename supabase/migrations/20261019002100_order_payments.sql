@@ -0,0 +1,64 @@
+-- One row per payment taken on an order.
+--
+-- orders.payment_ref only holds the latest charge: a top-up after a
+-- modification replaced it, and a refund then went against a charge
+-- that held just part of the money. order_payments keeps every one —
+-- how it was paid, the provider's reference (null for cash) and the
+-- amount — and refunded records what has gone back out of each, so
+-- refunds in src/lib/payment-service.ts go against the charges that
+-- hold the funds.
+--
+-- Rows are written by a trigger whenever orders.amount_paid goes up,
+-- in the same statement as the payment itself, with the order's
+-- payment_method and payment_ref at that moment.
+
+create table if not exists public.order_payments (
+  id          uuid primary key default gen_random_uuid(),
+  order_id    uuid not null references public.orders(id) on delete cascade,
+  method      text not null check (method in ('card_terminal', 'online', 'cash')),
+  reference   text,
+  amount      numeric(10,2) not null check (amount > 0),
+  refunded    numeric(10,2) not null default 0,
+  created_at  timestamptz not null default now(),
+  check (refunded >= 0 and refunded <= amount)
+);
+
+create index if not exists order_payments_order_idx
+  on public.order_payments (order_id, created_at);
+
+create or replace function public.record_order_payment()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.amount_paid > old.amount_paid then
+    insert into public.order_payments (order_id, method, reference, amount)
+    values (
+      new.id,
+      coalesce(new.payment_method, 'cash'),
+      new.payment_ref,
+      new.amount_paid - old.amount_paid
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_record_payment on public.orders;
+create trigger orders_record_payment
+  after update of amount_paid on public.orders
+  for each row execute function public.record_order_payment();
+
+-- Orders paid before this migration: one payment for what they paid,
+-- and a refunded one gave it all back.
+insert into public.order_payments (order_id, method, reference, amount, refunded, created_at)
+select
+  o.id,
+  coalesce(o.payment_method, 'cash'),
+  o.payment_ref,
+  o.amount_paid,
+  case when o.payment_status = 'refunded' then o.amount_paid else 0 end,
+  coalesce(o.paid_at, o.created_at)
+from public.orders o
+where o.amount_paid > 0
+  and not exists (select 1 from public.order_payments p where p.order_id = o.id);